@@ -6,7 +6,7 @@ import { SPOTIFY_CONFIG } from '@/lib/constants'
 import { adminAdapterConfig } from '@/lib/firebaseAdmin'
 import type { Session } from 'next-auth'
 import type { JWT } from 'next-auth/jwt'
-import { getUserByNextAuthId, updateUserWithSpotifyProfile } from '@/services/firebase/users'
+import { getUserByNextAuthId, updateStoredSpotifyTokens, updateUserWithSpotifyProfile } from '@/services/firebase/users'
 import { refreshAccessToken } from '@/lib/spotify'
 
 /**
@@ -136,6 +136,17 @@ export const authOptions: NextAuthOptions = {
     },
   },
   events: {
+    async signIn({ account }) {
+      // Keep the stored token's scopes current, so re-consenting unlocks features like co-owners
+      if (account?.provider === 'spotify' && account.access_token) {
+        await updateStoredSpotifyTokens(account.providerAccountId, {
+          access_token: account.access_token,
+          refresh_token: account.refresh_token,
+          expires_at: account.expires_at,
+          scope: account.scope,
+        })
+      }
+    },
     async linkAccount({ user, account }) {
       if (user.id && account.access_token) {
         const spotifyUserProfile = await getSpotifyUserProfile(account.access_token)
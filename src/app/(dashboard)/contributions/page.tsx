@@ -0,0 +1,26 @@
+/**
+ * @fileoverview My contributions page - Lists every playlist the signed-in user has contributed to.
+ *
+ * Shows the tracks they sent, whether they're still in each playlist, and when their cooldowns end.
+ */
+import { redirect } from 'next/navigation'
+import { validateSession } from '@/lib/auth'
+import { MyContributionsContent } from '@/components/contributions/my-contributions-content'
+
+/**
+ * @description Renders the my contributions page with authentication check.
+ * @returns {Promise<JSX.Element>} The my contributions page or redirect to login.
+ */
+export default async function ContributionsPage() {
+  const session = await validateSession()
+
+  if (!session) {
+    redirect('/')
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-green-50 to-white">
+      <MyContributionsContent session={session} />
+    </main>
+  )
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview API route for checking whether the signed-in visitor can contribute through a sharing link.
+ *
+ * Lets the share page show the cooldown screen before the visitor tries to contribute. Rate limited per IP together
+ * with link lookups, since an unknown slug gets a 404 here too.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getSharingLinkBySlug, getSharingLinkUnavailableReason } from '@/services/firebase/sharing-links'
+import { getPlaylistById } from '@/services/firebase/playlists'
+import { checkUserContribution } from '@/services/firebase/contributions'
+import { getRateLimitStore } from '@/services/firebase/rate-limits'
+import { enforceRateLimit } from '@/lib/request-rate-limit'
+import { RATE_LIMIT_CONFIG } from '@/lib/constants'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+/**
+ * @description Returns the visitor's contribution eligibility and, if on cooldown, when they can next contribute.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Eligibility data or error response.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ slug: string }> }
+) {
+    try {
+        // Limit lookups per IP so slugs can't be enumerated
+        const limited = await enforceRateLimit(request, RATE_LIMIT_CONFIG.sharingLinkLookup, getRateLimitStore())
+        if (limited) {
+            return limited
+        }
+
+        const session = await validateSession()
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { slug } = await params
+        if (!slug) {
+            return NextResponse.json({ error: 'Missing slug parameter' }, { status: 400 })
+        }
+
+        const linkResult = await getSharingLinkBySlug(slug)
+        if (!linkResult.success || !linkResult.data) {
+            const reason = getSharingLinkUnavailableReason(linkResult.error)
+            if (reason) {
+                return NextResponse.json({ error: linkResult.error, reason }, { status: 410 })
+            }
+            return NextResponse.json({ error: 'Sharing link not found' }, { status: 404 })
+        }
+        const playlistId = linkResult.data.playlistId
+
+        const playlistResult = await getPlaylistById(playlistId)
+        if (playlistResult.data?.blockedContributorIds?.includes(session.user.id)) {
+            return NextResponse.json({ canContribute: false, reason: 'blocked' })
+        }
+
+        const cooldownResult = await checkUserContribution(playlistId, session.user.id)
+        if (!cooldownResult.success || !cooldownResult.data) {
+            return NextResponse.json({ error: 'Failed to check cooldown' }, { status: 500 })
+        }
+
+        const { hasContributed, cooldownDays, cooldownUntil } = cooldownResult.data
+        if (!hasContributed || !cooldownUntil) {
+            return NextResponse.json({ canContribute: true, cooldownDays })
+        }
+
+        return NextResponse.json({
+            canContribute: false,
+            reason: 'cooldown',
+            cooldownDays,
+            cooldownUntil,
+            daysRemaining: Math.max(1, Math.ceil((new Date(cooldownUntil).getTime() - Date.now()) / DAY_IN_MS)),
+        })
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error ${error}` }, { status: 500 })
+    }
+}
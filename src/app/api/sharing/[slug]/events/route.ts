@@ -0,0 +1,58 @@
+/**
+ * @fileoverview API route for counting share page events on a sharing link.
+ *
+ * Records visits and sign-in starts so owners can see how many visitors go on to contribute. Public, like the share page.
+ * Rate limited per IP together with link lookups, since an unknown slug gets a 404 here too.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    getSharingLinkUnavailableReason,
+    recordSharingLinkEvent,
+    SHARING_LINK_ERRORS,
+} from '@/services/firebase/sharing-links'
+import { getRateLimitStore } from '@/services/firebase/rate-limits'
+import { enforceRateLimit } from '@/lib/request-rate-limit'
+import { RATE_LIMIT_CONFIG } from '@/lib/constants'
+import type { SharingLinkEvent } from '@/types/firebase'
+
+const SHARING_LINK_EVENTS: SharingLinkEvent[] = ['visit', 'sign_in']
+
+/**
+ * @description Counts one share page event for the link.
+ * @param {NextRequest} request - The incoming request with `{ event }`.
+ * @returns {Promise<NextResponse>} Success or error response.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ slug: string }> }
+) {
+    try {
+        const limited = await enforceRateLimit(request, RATE_LIMIT_CONFIG.sharingLinkLookup, getRateLimitStore())
+        if (limited) {
+            return limited
+        }
+
+        const { slug } = await params
+        if (!slug) {
+            return NextResponse.json({ error: 'Missing slug parameter' }, { status: 400 })
+        }
+
+        const { event } = await request.json()
+        if (!SHARING_LINK_EVENTS.includes(event)) {
+            return NextResponse.json({ error: 'Invalid event' }, { status: 400 })
+        }
+
+        const result = await recordSharingLinkEvent(slug, event)
+        if (!result.success) {
+            if (getSharingLinkUnavailableReason(result.error)) {
+                return NextResponse.json({ error: result.error }, { status: 410 })
+            }
+            const status = result.error === SHARING_LINK_ERRORS.notFound ? 404 : 500
+            return NextResponse.json({ error: result.error }, { status })
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error ${error}` }, { status: 500 })
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview API route for the friend match preview on the share page.
+ *
+ * Scores how similar the signed-in visitor's listening is to the link owner's. The owner's top data is cached in
+ * Firestore and refreshed with their stored token, and only the score and shared names reach the visitor. Rate
+ * limited per IP together with link lookups, since an unknown slug gets a 404 here too.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { getTopArtists, getTopTracks, SpotifyAPIError } from '@/lib/spotify'
+import { MATCH_CONFIG, RATE_LIMIT_CONFIG } from '@/lib/constants'
+import { computeFriendMatch, toUserTopSongs } from '@/lib/friend-match'
+import { getSharingLinkBySlug, getSharingLinkUnavailableReason } from '@/services/firebase/sharing-links'
+import { getUserTopSongs, isTopSongsStale, saveUserTopSongs } from '@/services/firebase/top-songs'
+import { getStoredAccessToken, getUserByNextAuthId } from '@/services/firebase/users'
+import { getRateLimitStore } from '@/services/firebase/rate-limits'
+import { enforceRateLimit } from '@/lib/request-rate-limit'
+import type { UserTopSongs } from '@/types/firebase'
+
+/**
+ * @description Returns a user's cached top data, fetching and caching it again once it's stale.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @param {() => Promise<string | null>} getAccessToken - Resolves the user's access token, only called on a cache miss.
+ * @returns {Promise<Omit<UserTopSongs, 'lastFetched'> | null>} The top data, or null if it can't be fetched.
+ */
+async function getTopSongsWithCache(
+    spotifyUserId: string,
+    getAccessToken: () => Promise<string | null>
+): Promise<Omit<UserTopSongs, 'lastFetched'> | null> {
+    const cachedResult = await getUserTopSongs(spotifyUserId)
+    if (cachedResult.success && cachedResult.data && !isTopSongsStale(cachedResult.data)) {
+        return cachedResult.data
+    }
+
+    const accessToken = await getAccessToken()
+    if (!accessToken) {
+        // Better a stale match than none
+        return cachedResult.data || null
+    }
+
+    const [topTracks, topArtists] = await Promise.all([
+        getTopTracks(accessToken, MATCH_CONFIG.topItemsLimit, MATCH_CONFIG.timeRange),
+        getTopArtists(accessToken, MATCH_CONFIG.topItemsLimit, MATCH_CONFIG.timeRange),
+    ])
+    const topSongs = toUserTopSongs(spotifyUserId, topTracks, topArtists)
+    await saveUserTopSongs(topSongs)
+
+    return topSongs
+}
+
+/**
+ * @description Returns the visitor's match score with the sharing link's owner.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The friend match or error response.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ slug: string }> }
+) {
+    try {
+        // Limit lookups per IP so slugs can't be enumerated
+        const limited = await enforceRateLimit(request, RATE_LIMIT_CONFIG.sharingLinkLookup, getRateLimitStore())
+        if (limited) {
+            return limited
+        }
+
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { session, accessToken } = authData
+
+        const { slug } = await params
+        if (!slug) {
+            return NextResponse.json({ error: 'Missing slug parameter' }, { status: 400 })
+        }
+
+        const linkResult = await getSharingLinkBySlug(slug)
+        if (!linkResult.success || !linkResult.data) {
+            const reason = getSharingLinkUnavailableReason(linkResult.error)
+            if (reason) {
+                return NextResponse.json({ error: linkResult.error, reason }, { status: 410 })
+            }
+            return NextResponse.json({ error: 'Sharing link not found' }, { status: 404 })
+        }
+        const ownerSpotifyUserId = linkResult.data.spotifyUserId
+
+        const userResult = await getUserByNextAuthId(session.user.id)
+        if (!userResult.success || !userResult.data) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+        if (userResult.data.spotifyUserId === ownerSpotifyUserId) {
+            return NextResponse.json({ error: "You can't match with yourself" }, { status: 400 })
+        }
+
+        const ownerTopSongs = await getTopSongsWithCache(ownerSpotifyUserId, async () => {
+            const tokenResult = await getStoredAccessToken(ownerSpotifyUserId)
+            return tokenResult.success && tokenResult.data ? tokenResult.data : null
+        })
+        if (!ownerTopSongs) {
+            return NextResponse.json({ error: 'Friend match is not available for this link' }, { status: 503 })
+        }
+
+        const visitorTopSongs = await getTopSongsWithCache(userResult.data.spotifyUserId, async () => accessToken)
+        if (!visitorTopSongs) {
+            return NextResponse.json({ error: 'Failed to get your top songs' }, { status: 500 })
+        }
+
+        return NextResponse.json(computeFriendMatch(visitorTopSongs, ownerTopSongs))
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
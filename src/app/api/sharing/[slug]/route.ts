@@ -1,16 +1,27 @@
 /**
  * @fileoverview API route for fetching sharing link data by slug.
  *
- * Retrieves sharing link information for public access without authentication.
+ * Retrieves sharing link information for public access without authentication. Expired and used-up links
+ * return 410 with a `reason` so the share page can say so instead of "not found". Lookups are rate limited per IP.
  */
 import { NextRequest, NextResponse } from 'next/server'
-import { getSharingLinkBySlug } from '@/services/firebase/sharing-links'
+import { getSharingLinkBySlug, getSharingLinkUnavailableReason } from '@/services/firebase/sharing-links'
+import { getPlaylistById, getPlaylistCooldownDays, getPlaylistMaxTracks } from '@/services/firebase/playlists'
+import { getRateLimitStore } from '@/services/firebase/rate-limits'
+import { enforceRateLimit } from '@/lib/request-rate-limit'
+import { RATE_LIMIT_CONFIG } from '@/lib/constants'
 
 export async function GET(
     request: NextRequest,
     { params }: any
 ) {
     try {
+        // Limit lookups per IP so slugs can't be enumerated
+        const limited = await enforceRateLimit(request, RATE_LIMIT_CONFIG.sharingLinkLookup, getRateLimitStore())
+        if (limited) {
+            return limited
+        }
+
         const { slug } = params
 
         if (!slug) {
@@ -20,9 +31,15 @@ export async function GET(
         const linkResult = await getSharingLinkBySlug(slug)
 
         if (!linkResult.success || !linkResult.data) {
+            const reason = getSharingLinkUnavailableReason(linkResult.error)
+            if (reason) {
+                return NextResponse.json({ error: linkResult.error, reason }, { status: 410 })
+            }
             return NextResponse.json({ error: 'Sharing link not found' }, { status: 404 })
         }
 
+        const playlistResult = await getPlaylistById(linkResult.data.playlistId)
+
         // Return public link data (excluding sensitive information)
         return NextResponse.json({
             linkSlug: linkResult.data.linkSlug,
@@ -30,6 +47,13 @@ export async function GET(
             playlistId: linkResult.data.playlistId,
             isActive: linkResult.data.isActive,
             createdAt: linkResult.data.createdAt,
+            expiresAt: linkResult.data.expiresAt?.toDate().toISOString(),
+            remainingUses: linkResult.data.maxUses !== undefined
+                ? linkResult.data.maxUses - linkResult.data.usageCount
+                : undefined,
+            contributionCooldownDays: getPlaylistCooldownDays(playlistResult.data),
+            maxTracksPerContribution: getPlaylistMaxTracks(playlistResult.data),
+            requiresApproval: playlistResult.data?.requiresApproval ?? false,
         })
     } catch (error) {
         return NextResponse.json({ error: `Internal server error ${error}` }, { status: 500 })
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview API route for sending songs back to a contributor after they contribute through a sharing link.
+ *
+ * If the contributor already has a SMAS playlist, the link owner's top tracks are added to it as a contribution from
+ * the owner. Otherwise the contributor's playlist and sharing link are created on the spot, and the link is attached
+ * to their contribution so the owner gets a ready-made link to contribute back. Each send-back is keyed by the
+ * client's `Idempotency-Key` header, so a retried request replays its result instead of adding songs twice.
+ */
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { addTracksToPlaylist, getPlaylistTracks, getTopTracks, SpotifyAPIError } from '@/lib/spotify'
+import { CONTRIBUTION_CONFIG, SPOTIFY_CONFIG } from '@/lib/constants'
+import { toDate } from '@/lib/utils'
+import { createSmasPlaylist, getOwnerPlaylists } from '@/lib/playlist-setup'
+import {
+    activateContribution,
+    getContributionsByUser,
+    isLiveContribution,
+    releaseContribution,
+    reserveContribution,
+    setContributionSendBackLink,
+} from '@/services/firebase/contributions'
+import { getPlaylistCooldownDays, recordTrackAttributions } from '@/services/firebase/playlists'
+import { getSharingLinkBySlug } from '@/services/firebase/sharing-links'
+import { getNextAuthIdBySpotifyUserId, getStoredAccessToken, getUserByNextAuthId } from '@/services/firebase/users'
+import type { Playlist } from '@/types/firebase'
+
+/**
+ * @description Adds the link owner's top tracks to the contributor's playlist, skipping songs already in it.
+ * @param {string} idempotencyKey - Client-generated key identifying this send-back.
+ * @param {string} ownerSpotifyUserId - Link owner's Spotify user ID.
+ * @param {string} ownerName - Link owner's display name.
+ * @param {string} accessToken - Contributor's Spotify access token.
+ * @param {Playlist} playlist - Contributor's SMAS playlist.
+ * @returns {Promise<NextResponse>} The send-back result or error response.
+ */
+async function addOwnerTopTracks(
+    idempotencyKey: string,
+    ownerSpotifyUserId: string,
+    ownerName: string,
+    accessToken: string,
+    playlist: Playlist
+): Promise<NextResponse> {
+    if (playlist.orphanedAt) {
+        return NextResponse.json({ error: 'Recreate your playlist from your dashboard first' }, { status: 409 })
+    }
+
+    // The owner's top tracks can only be read with their own token
+    const ownerIdResult = await getNextAuthIdBySpotifyUserId(ownerSpotifyUserId)
+    const ownerTokenResult = await getStoredAccessToken(ownerSpotifyUserId)
+    if (!ownerIdResult.success || !ownerIdResult.data || !ownerTokenResult.success || !ownerTokenResult.data) {
+        return NextResponse.json({ error: `${ownerName}'s songs aren't available right now` }, { status: 503 })
+    }
+    const ownerId = ownerIdResult.data
+
+    if (playlist.blockedContributorIds?.includes(ownerId)) {
+        return NextResponse.json({ error: `You blocked ${ownerName} from your playlist` }, { status: 403 })
+    }
+
+    const topTracks = await getTopTracks(ownerTokenResult.data, SPOTIFY_CONFIG.topTracksLimit, SPOTIFY_CONFIG.timeRange)
+    const topTrackUris: string[] = (topTracks?.items || []).map((track: any) => track.uri).filter(Boolean)
+    if (topTrackUris.length === 0) {
+        return NextResponse.json({ error: `${ownerName} has no top songs yet` }, { status: 404 })
+    }
+
+    // The owner's songs count as their contribution, so they share the playlist's cooldown with everyone else
+    const reservationResult = await reserveContribution({
+        playlistId: playlist.id,
+        contributorId: ownerId,
+        contributorName: ownerName,
+        spotifyTrackUris: topTrackUris,
+        cooldownDays: getPlaylistCooldownDays(playlist),
+    }, `send-back-${idempotencyKey}`)
+    if (!reservationResult.success || !reservationResult.data) {
+        return NextResponse.json({ error: 'Failed to check cooldown' }, { status: 500 })
+    }
+
+    const reservation = reservationResult.data
+    if (reservation.status === 'cooldown') {
+        return NextResponse.json({
+            error: `${ownerName} already added songs to your playlist recently`,
+            cooldown: reservation.cooldown
+        }, { status: 429 })
+    }
+    // Same send-back seen before: report what it did instead of adding songs again
+    if (reservation.status === 'replayed') {
+        if (!isLiveContribution(reservation.contribution)) {
+            return NextResponse.json({ error: `${ownerName}'s songs are already being sent back` }, { status: 409 })
+        }
+        const addedCount = reservation.contribution.spotifyTrackUris.length
+        return NextResponse.json({
+            mode: 'added',
+            playlistName: playlist.name,
+            addedCount,
+            skippedCount: Math.max(topTrackUris.length - addedCount, 0),
+        })
+    }
+
+    const contributionId = reservation.contribution.id
+    try {
+        const existingUris = new Set<string>()
+        const playlistTracks = await getPlaylistTracks(accessToken, playlist.spotifyPlaylistId)
+        playlistTracks?.items?.forEach((item: any) => {
+            if (item.track?.uri) existingUris.add(item.track.uri)
+        })
+
+        const addedTrackUris = topTrackUris.filter(uri => !existingUris.has(uri))
+        if (addedTrackUris.length === 0) {
+            await releaseContribution(contributionId)
+            return NextResponse.json({
+                mode: 'added',
+                playlistName: playlist.name,
+                addedCount: 0,
+                skippedCount: topTrackUris.length,
+            })
+        }
+
+        await addTracksToPlaylist(accessToken, playlist.spotifyPlaylistId, addedTrackUris)
+        const activateResult = await activateContribution(contributionId, addedTrackUris)
+        if (!activateResult.success) {
+            console.error('Failed to record send-back:', activateResult.error)
+            return NextResponse.json({ error: 'Failed to record send-back' }, { status: 500 })
+        }
+        await recordTrackAttributions(playlist.id, addedTrackUris, {
+            contributorId: ownerId,
+            contributorName: ownerName,
+            contributionId,
+        })
+
+        return NextResponse.json({
+            mode: 'added',
+            playlistName: playlist.name,
+            addedCount: addedTrackUris.length,
+            skippedCount: topTrackUris.length - addedTrackUris.length,
+        })
+    } catch (error) {
+        await releaseContribution(contributionId)
+        throw error
+    }
+}
+
+/**
+ * @description Sends the link owner's songs back to a visitor who contributed, or sets up the visitor's own playlist
+ * and sharing link so the owner can contribute back.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The send-back result or error response.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ slug: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { session, accessToken } = authData
+
+        const { slug } = await params
+        if (!slug) {
+            return NextResponse.json({ error: 'Missing slug parameter' }, { status: 400 })
+        }
+
+        // Clients send a key per send-back; without one, retries can't be recognized but the cooldown still applies
+        const idempotencyKey = request.headers.get('Idempotency-Key') || randomUUID()
+        if (!CONTRIBUTION_CONFIG.idempotencyKeyPattern.test(idempotencyKey)) {
+            return NextResponse.json({ error: 'Invalid Idempotency-Key header' }, { status: 400 })
+        }
+
+        // The visitor's contribution may have used up the link, so look it up even if it's no longer available
+        const linkResult = await getSharingLinkBySlug(slug, true)
+        if (!linkResult.success || !linkResult.data) {
+            return NextResponse.json({ error: 'Sharing link not found' }, { status: 404 })
+        }
+        const link = linkResult.data
+
+        const userResult = await getUserByNextAuthId(session.user.id)
+        if (!userResult.success || !userResult.data) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+        const spotifyUserId = userResult.data.spotifyUserId
+        if (spotifyUserId === link.spotifyUserId) {
+            return NextResponse.json({ error: "You can't send songs back to yourself" }, { status: 400 })
+        }
+
+        // Only visitors whose songs made it into this playlist get songs back
+        const contributionsResult = await getContributionsByUser(session.user.id)
+        const playlistContributions = (contributionsResult.data || []).filter(c => c.playlistId === link.playlistId)
+        const contribution = playlistContributions
+            .filter(isLiveContribution)
+            .sort((a, b) => toDate(b.createdAt).getTime() - toDate(a.createdAt).getTime())[0]
+        if (!contribution) {
+            if (playlistContributions.some(c => c.status === 'pending')) {
+                return NextResponse.json(
+                    { error: `You can get songs back once ${link.ownerName} approves yours` },
+                    { status: 409 }
+                )
+            }
+            return NextResponse.json({ error: 'Contribute to this playlist first' }, { status: 403 })
+        }
+
+        // Songs go to the visitor's first playlist, the one their dashboard opens by default
+        const [ownPlaylist] = await getOwnerPlaylists(spotifyUserId)
+        if (ownPlaylist) {
+            return await addOwnerTopTracks(idempotencyKey, link.spotifyUserId, link.ownerName, accessToken, ownPlaylist)
+        }
+
+        const playlist = await createSmasPlaylist(
+            accessToken,
+            spotifyUserId,
+            session.user.name || '',
+            SPOTIFY_CONFIG.playlistName,
+            SPOTIFY_CONFIG.playlistDescription
+        )
+        const linkSlug = playlist.shareLink.split('/share/')[1]
+        if (linkSlug) {
+            await setContributionSendBackLink(contribution.id, linkSlug)
+        }
+
+        return NextResponse.json({
+            mode: 'created',
+            playlistName: playlist.name,
+            shareLink: playlist.shareLink,
+        }, { status: 201 })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
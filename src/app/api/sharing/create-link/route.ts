@@ -1,15 +1,33 @@
 /**
  * @fileoverview API route for creating a new sharing link for a user's playlist.
  *
- * Validates the user session, generates a unique link slug, creates the sharing link in Firestore, and returns the link.
+ * Validates the user session, generates a unique link slug, creates the labeled sharing link in Firestore, and returns the link.
+ * Owners can keep several links per playlist (e.g. "Group chat", "Instagram bio"), each with its own usage count,
+ * and can make a link expire after a number of days or stop after a number of uses. Link creation is rate limited.
  */
 import { NextRequest, NextResponse } from 'next/server'
+import admin from 'firebase-admin'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/app/(auth)/api/auth/[...nextauth]/route'
-import { createSharingLink, generateUniqueLinkSlug, getSharingLinkByOwner } from '@/services/firebase/sharing-links'
-import { getPlaylistById } from '@/services/firebase/playlists'
+import { createSharingLink, generateUniqueLinkSlug, getSharingLinksByPlaylist } from '@/services/firebase/sharing-links'
 import type { CreateSharingLinkData } from '@/types/firebase'
-import { getUserById } from '@/services/firebase/users'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { getRateLimitStore } from '@/services/firebase/rate-limits'
+import { enforceRateLimit } from '@/lib/request-rate-limit'
+import { RATE_LIMIT_CONFIG, SHARING_LINK_CONFIG } from '@/lib/constants'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+/**
+ * @description Checks that a value is an integer within bounds.
+ * @param {unknown} value - The submitted value.
+ * @param {number} min - Smallest allowed value.
+ * @param {number} max - Largest allowed value.
+ * @returns {boolean} True if the value is an integer in range.
+ */
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,33 +37,46 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { playlistId, ownerName } = await request.json()
+    const limited = await enforceRateLimit(request, RATE_LIMIT_CONFIG.createLink, getRateLimitStore(), session.user.id)
+    if (limited) {
+      return limited
+    }
+
+    const { playlistId, ownerName, label, expiresInDays, maxUses } = await request.json()
     if (!playlistId) {
       return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
     }
+    const trimmedLabel = typeof label === 'string' ? label.trim() : ''
+    if (trimmedLabel.length > SHARING_LINK_CONFIG.maxLabelLength) {
+      return NextResponse.json({ error: `Label must be ${SHARING_LINK_CONFIG.maxLabelLength} characters or fewer` }, { status: 400 })
+    }
+    if (expiresInDays !== undefined && !isIntegerInRange(expiresInDays, 1, SHARING_LINK_CONFIG.maxExpiryDays)) {
+      return NextResponse.json({ error: 'Invalid expiresInDays' }, { status: 400 })
+    }
+    if (maxUses !== undefined && !isIntegerInRange(maxUses, 1, SHARING_LINK_CONFIG.maxUsesLimit)) {
+      return NextResponse.json({ error: 'Invalid maxUses' }, { status: 400 })
+    }
     // Use session user name as fallback if ownerName is not provided
     const resolvedOwnerName = ownerName || session.user.name || 'User'
-    const internalUserId = session.user.id
 
-    // Get user profile to get spotifyUserId
-    const userResult = await getUserById(internalUserId)
-    if (!userResult.success || !userResult.data) {
+    // Validate playlist exists and the user owns or co-owns it; co-owners share their own links
+    const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+    if (accessResult.success && accessResult.data && !accessResult.data.user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
-    const spotifyUserId = userResult.data.spotifyUserId
-
-    // Validate playlist exists and belongs to user
-    const playlistResult = await getPlaylistById(playlistId)
-    if (!playlistResult.success || playlistResult.data?.spotifyUserId !== spotifyUserId) {
+    if (!accessResult.success || !accessResult.data?.user || !accessResult.data.isOwner) {
       return NextResponse.json({ error: 'Invalid playlist' }, { status: 400 })
     }
+    const spotifyUserId = accessResult.data.user.spotifyUserId
 
-    // Check if user already has an existing sharing link
-    const existingLinkResult = await getSharingLinkByOwner(spotifyUserId)
-
-    if (existingLinkResult.success && existingLinkResult.data) {
-      // User already has a sharing link, return the existing one
-      return NextResponse.json({ link: `/share/${existingLinkResult.data.linkSlug}` })
+    // Cap how many active links a playlist can have
+    const existingLinksResult = await getSharingLinksByPlaylist(playlistId)
+    if (!existingLinksResult.success) {
+      return NextResponse.json({ error: 'Failed to load sharing links' }, { status: 500 })
+    }
+    const existingLinks = existingLinksResult.data || []
+    if (existingLinks.length >= SHARING_LINK_CONFIG.maxActiveLinks) {
+      return NextResponse.json({ error: `You can have up to ${SHARING_LINK_CONFIG.maxActiveLinks} active links` }, { status: 400 })
     }
 
     // Generate unique link slug
@@ -60,13 +91,22 @@ export async function POST(request: NextRequest) {
       spotifyUserId: spotifyUserId,
       ownerName: resolvedOwnerName,
       linkSlug: slugResult.data,
+      label: trimmedLabel || `Link ${existingLinks.length + 1}`,
+      ...(expiresInDays !== undefined
+        ? { expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + expiresInDays * DAY_IN_MS) }
+        : {}),
+      ...(maxUses !== undefined ? { maxUses } : {}),
     }
     const linkResult = await createSharingLink(linkData)
     if (!linkResult.success || !linkResult.data) {
       return NextResponse.json({ error: 'Failed to create sharing link' }, { status: 500 })
     }
 
-    return NextResponse.json({ link: `/share/${linkResult.data.linkSlug}` })
+    return NextResponse.json({
+      link: `/share/${linkResult.data.linkSlug}`,
+      sharingLinkId: linkResult.data.id,
+      label: linkData.label,
+    })
   } catch (error) {
     return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
   }
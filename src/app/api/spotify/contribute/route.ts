@@ -1,18 +1,66 @@
 /**
  * @fileoverview API route for contributing songs to a playlist.
  *
- * Handles song contribution with cooldown checking and Firestore tracking.
+ * Handles song contribution with cooldown checking, duplicate filtering and Firestore tracking. Each contribution
+ * uses up one of the sharing link's uses, if the link has a limit. The cooldown check reserves the contribution in a
+ * transaction keyed by the client's `Idempotency-Key` header, so double submits add songs only once. Group playlists
+ * fall back to a co-owner's Spotify token when the primary owner's can't be refreshed. Each added track is credited
+ * to its contributor and link on the playlist. Each user gets one contribution attempt a minute, and each IP a few
+ * more; retries of a submission that was already recorded don't count. Contributions that look like spam, and all
+ * contributions to playlists in approval mode, are held for the owner's review instead of being added.
  */
+import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/app/(auth)/api/auth/[...nextauth]/route'
-import { addTracksToPlaylist } from '@/lib/spotify'
-import { createContribution, checkUserContribution } from '@/services/firebase/contributions'
-import { getSharingLinkBySlug, updateSharingLink } from '@/services/firebase/sharing-links'
-import { getPlaylistById } from '@/services/firebase'
-import { adminDb as db } from '@/lib/firebaseAdmin'
-import admin from 'firebase-admin'
-import { refreshAccessToken } from '@/lib/spotify'
+import { addTracksToPlaylist, getPlaylistTracks, SpotifyAPIError } from '@/lib/spotify'
+import {
+  activateContribution,
+  getActiveContributions,
+  getContributionById,
+  getReservedContributionId,
+  holdContributionForReview,
+  releaseContribution,
+  reserveContribution,
+} from '@/services/firebase/contributions'
+import {
+  consumeSharingLinkUse,
+  getSharingLinkBySlug,
+  getSharingLinkUnavailableReason,
+  releaseSharingLinkUse,
+} from '@/services/firebase/sharing-links'
+import {
+  getFirstStoredAccessToken,
+  getPlaylistById,
+  getPlaylistCooldownDays,
+  getPlaylistMaxTracks,
+  getPlaylistOwnerIds,
+  markPlaylistOrphaned,
+  recordTrackAttributions,
+} from '@/services/firebase'
+import { getRateLimitStore } from '@/services/firebase/rate-limits'
+import { enforceRateLimit } from '@/lib/request-rate-limit'
+import { assessContributionSpam } from '@/lib/spam-detection'
+import { CONTRIBUTION_CONFIG, RATE_LIMIT_CONFIG } from '@/lib/constants'
+
+const TRACK_URI_PATTERN = /^spotify:track:[A-Za-z0-9]+$/
+
+/**
+ * @description Builds the response for a contribution held for the owner's review.
+ * @param {string[]} pendingTrackUris - Tracks that will be added if the owner approves.
+ * @param {string[]} trackUris - Tracks the contributor submitted.
+ * @returns {NextResponse} 202 response listing held and skipped tracks.
+ */
+function pendingReviewResponse(pendingTrackUris: string[], trackUris: string[]): NextResponse {
+  return NextResponse.json({
+    success: true,
+    pending: true,
+    message: 'Songs sent for review',
+    addedTrackUris: [],
+    pendingTrackUris,
+    skippedTrackUris: trackUris.filter(uri => !pendingTrackUris.includes(uri)),
+  }, { status: 202 })
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,21 +71,37 @@ export async function POST(request: NextRequest) {
 
     const { playlistId, trackUris, linkSlug } = await request.json()
 
-    if (!playlistId || !trackUris || !Array.isArray(trackUris)) {
+    if (!playlistId || !linkSlug || !trackUris || !Array.isArray(trackUris)) {
       return NextResponse.json({ error: 'Missing required data' }, { status: 400 })
     }
 
-    // Check cooldown
-    const cooldownResult = await checkUserContribution(playlistId, session.user.id)
-    if (!cooldownResult.success) {
-      return NextResponse.json({ error: 'Failed to check cooldown' }, { status: 500 })
+    if (trackUris.length === 0 || !trackUris.every((uri: unknown) => typeof uri === 'string' && TRACK_URI_PATTERN.test(uri))) {
+      return NextResponse.json({ error: 'Select at least one valid track' }, { status: 400 })
     }
 
-    if (cooldownResult.data?.hasContributed) {
-      return NextResponse.json({
-        error: 'Cooldown active',
-        cooldown: cooldownResult.data
-      }, { status: 429 })
+    // Clients send a key per submission; without one, retries can't be recognized but the cooldown still applies
+    const idempotencyKey = request.headers.get('Idempotency-Key') || randomUUID()
+    if (!CONTRIBUTION_CONFIG.idempotencyKeyPattern.test(idempotencyKey)) {
+      return NextResponse.json({ error: 'Invalid Idempotency-Key header' }, { status: 400 })
+    }
+
+    // A retry of a recorded submission only replays its result, so it doesn't count against the limit
+    const existingResult = await getContributionById(getReservedContributionId(playlistId, session.user.id, idempotencyKey))
+    if (!existingResult.data) {
+      const limited = await enforceRateLimit(request, RATE_LIMIT_CONFIG.contribute, getRateLimitStore(), session.user.id)
+      if (limited) {
+        return limited
+      }
+    }
+
+    // Reject expired or used-up links before doing any work
+    const linkResult = await getSharingLinkBySlug(linkSlug)
+    if (!linkResult.success || !linkResult.data || linkResult.data.playlistId !== playlistId) {
+      const reason = getSharingLinkUnavailableReason(linkResult.error)
+      if (reason) {
+        return NextResponse.json({ error: linkResult.error, reason }, { status: 410 })
+      }
+      return NextResponse.json({ error: 'Sharing link not found' }, { status: 404 })
     }
 
     // Get playlist to find the owner
@@ -46,88 +110,179 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No spotify playlist found' }, { status: 401 })
     }
 
-    // Get playlist owner's access token from accounts collection
-    const spotifyUserId = playlistDoc.data.spotifyUserId;
-    if (!spotifyUserId) {
-      return NextResponse.json({ error: 'Playlist owner not found' }, { status: 404 })
+    if (playlistDoc.data.blockedContributorIds?.includes(session.user.id)) {
+      return NextResponse.json({ error: 'You can no longer contribute to this playlist' }, { status: 403 })
     }
 
-    const accountsRef = db.collection('accounts');
-    const accountQuery = await accountsRef
-      .where('providerAccountId', '==', spotifyUserId)
-      .where('provider', '==', 'spotify')
-      .limit(1)
-      .get();
-
-    if (accountQuery.empty) {
-      return NextResponse.json({ error: 'Playlist owner account not found' }, { status: 404 })
+    // The owner deleted the playlist in Spotify and hasn't recreated it yet
+    if (playlistDoc.data.orphanedAt) {
+      return NextResponse.json({ error: 'This playlist is unavailable until its owner recreates it' }, { status: 409 })
     }
 
-    const ownerAccount = accountQuery.docs[0].data();
-    let ownerAccessToken = ownerAccount.access_token;
+    const maxTracks = getPlaylistMaxTracks(playlistDoc.data)
+    if (trackUris.length > maxTracks) {
+      return NextResponse.json({ error: `You can send up to ${maxTracks} tracks at a time` }, { status: 400 })
+    }
 
-    if (!ownerAccessToken) {
+    // Add tracks as the playlist's owner, falling back to a co-owner if the owner's token can't be refreshed
+    const tokenResult = await getFirstStoredAccessToken(getPlaylistOwnerIds(playlistDoc.data))
+    if (!tokenResult.success || !tokenResult.data) {
       return NextResponse.json({ error: 'Playlist owner access token not available' }, { status: 401 })
     }
+    const ownerAccessToken = tokenResult.data.accessToken
 
-    // Check if access token is expired and refresh if needed
-    const expiresAt = ownerAccount.expires_at;
-    if (expiresAt && Date.now() >= expiresAt * 1000) {
-      try {
-        const refreshed = await refreshAccessToken(ownerAccount.refresh_token);
-        if ('error' in refreshed) {
-          return NextResponse.json({ error: 'Failed to refresh owner access token' }, { status: 401 })
-        }
-
-        // Update the account document with new tokens
-        const accountDocRef = accountQuery.docs[0].ref;
-        await accountDocRef.update({
-          access_token: refreshed.accessToken,
-          refresh_token: refreshed.refreshToken,
-          expires_at: Math.floor(refreshed.accessTokenExpires / 1000), // Convert to seconds
-        });
-
-        ownerAccessToken = refreshed.accessToken;
-      } catch (error) {
-        console.error('Failed to refresh access token:', error);
-        return NextResponse.json({ error: 'Failed to refresh owner access token' }, { status: 401 })
+    // Check the cooldown and claim the contribution slot in one transaction
+    const reservationResult = await reserveContribution({
+      playlistId,
+      contributorId: session.user.id,
+      contributorName: session.user.name || '',
+      spotifyTrackUris: trackUris,
+      cooldownDays: getPlaylistCooldownDays(playlistDoc.data),
+      linkId: linkResult.data.id,
+    }, idempotencyKey)
+    if (!reservationResult.success || !reservationResult.data) {
+      return NextResponse.json({ error: 'Failed to check cooldown' }, { status: 500 })
+    }
+
+    const reservation = reservationResult.data
+    if (reservation.status === 'cooldown') {
+      return NextResponse.json({
+        error: 'Cooldown active',
+        cooldown: reservation.cooldown
+      }, { status: 429 })
+    }
+
+    // Same submission seen before: report what it did instead of adding songs again
+    if (reservation.status === 'replayed') {
+      if (reservation.contribution.status === 'processing') {
+        return NextResponse.json({ error: 'This contribution is already being processed' }, { status: 409 })
       }
+      if (reservation.contribution.status === 'pending' || reservation.contribution.status === 'rejected') {
+        return pendingReviewResponse(reservation.contribution.spotifyTrackUris, trackUris)
+      }
+      const addedTrackUris = reservation.contribution.spotifyTrackUris
+      return NextResponse.json({
+        success: true,
+        message: 'Songs added successfully',
+        addedTrackUris,
+        skippedTrackUris: trackUris.filter((uri: string) => !addedTrackUris.includes(uri)),
+      })
     }
 
-    // Add tracks to Spotify playlist using owner's access token
+    const contributionId = reservation.contribution.id
+
+    // Collect URIs already in the Spotify playlist or in active contributions
+    const existingUris = new Set<string>()
     try {
-      await addTracksToPlaylist(ownerAccessToken, playlistDoc.data.spotifyPlaylistId, trackUris)
+      const playlistTracks = await getPlaylistTracks(ownerAccessToken, playlistDoc.data.spotifyPlaylistId)
+      playlistTracks?.items?.forEach((item: any) => {
+        if (item.track?.uri) existingUris.add(item.track.uri)
+      })
     } catch (error) {
-      console.error('Failed to add tracks to playlist:', error)
-      return NextResponse.json({ error: 'Failed to add tracks to playlist' }, { status: 500 })
+      console.error('Failed to fetch playlist tracks:', error)
+      await releaseContribution(contributionId)
+      if (error instanceof SpotifyAPIError && error.status === 404) {
+        await markPlaylistOrphaned(playlistId)
+        return NextResponse.json({ error: 'This playlist is unavailable until its owner recreates it' }, { status: 409 })
+      }
+      return NextResponse.json({ error: 'Failed to fetch playlist tracks' }, { status: 500 })
     }
 
-    // Record contribution in Firestore
-    const contributionResult = await createContribution({
-      playlistId,
+    const activeContributionsResult = await getActiveContributions(playlistId)
+    if (!activeContributionsResult.success) {
+      await releaseContribution(contributionId)
+      return NextResponse.json({ error: 'Failed to check existing contributions' }, { status: 500 })
+    }
+    activeContributionsResult.data?.forEach(contribution => {
+      contribution.spotifyTrackUris.forEach(uri => existingUris.add(uri))
+    })
+
+    // Drop duplicates, including repeats within the request itself
+    const addedTrackUris: string[] = []
+    const skippedTrackUris: string[] = []
+    trackUris.forEach((uri: string) => {
+      if (existingUris.has(uri)) {
+        skippedTrackUris.push(uri)
+      } else {
+        existingUris.add(uri)
+        addedTrackUris.push(uri)
+      }
+    })
+
+    // Nothing new to add, so don't record a contribution or start the cooldown
+    if (addedTrackUris.length === 0) {
+      await releaseContribution(contributionId)
+      return NextResponse.json({
+        success: true,
+        message: 'All songs are already in the playlist',
+        addedTrackUris,
+        skippedTrackUris,
+      })
+    }
+
+    // Take one of the link's uses; the check and the increment happen in one transaction
+    const useResult = await consumeSharingLinkUse(linkSlug, playlistId)
+    if (!useResult.success || !useResult.data) {
+      await releaseContribution(contributionId)
+      const reason = getSharingLinkUnavailableReason(useResult.error)
+      if (reason) {
+        return NextResponse.json({ error: useResult.error, reason }, { status: 410 })
+      }
+      return NextResponse.json({ error: 'Failed to use sharing link' }, { status: 500 })
+    }
+    const linkId = useResult.data.id
+
+    // Hold suspicious contributions, or all of them in approval mode, for the owner's review instead of adding them
+    const spamAssessment = await assessContributionSpam({
+      contributionId,
       contributorId: session.user.id,
-      contributorName: session.user.name || '',
-      spotifyTrackUris: trackUris,
+      playlistId,
+      linkId,
+      trackUris,
     })
+    if (playlistDoc.data.requiresApproval || spamAssessment.isSuspicious) {
+      const holdResult = await holdContributionForReview(contributionId, addedTrackUris, spamAssessment.reasons)
+      if (!holdResult.success) {
+        await releaseSharingLinkUse(linkId)
+        await releaseContribution(contributionId)
+        return NextResponse.json({ error: 'Failed to record contribution' }, { status: 500 })
+      }
+      return pendingReviewResponse(addedTrackUris, trackUris)
+    }
+
+    // Add tracks to Spotify playlist using owner's access token
+    try {
+      await addTracksToPlaylist(ownerAccessToken, playlistDoc.data.spotifyPlaylistId, addedTrackUris)
+    } catch (error) {
+      console.error('Failed to add tracks to playlist:', error)
+      await releaseSharingLinkUse(linkId)
+      await releaseContribution(contributionId)
+      return NextResponse.json({ error: 'Failed to add tracks to playlist' }, { status: 500 })
+    }
 
+    // Record the contribution with the tracks that were actually added. The songs are on Spotify either way, so
+    // report them as added even if the record can't be updated; it stops holding the cooldown once it goes stale
+    const contributionResult = await activateContribution(contributionId, addedTrackUris)
     if (!contributionResult.success) {
-      return NextResponse.json({ error: 'Failed to record contribution' }, { status: 500 })
+      console.error('Failed to activate contribution:', contributionResult.error)
     }
 
-    // Track link usage if linkSlug provided
-    if (linkSlug) {
-      const linkResult = await getSharingLinkBySlug(linkSlug)
-      if (linkResult.success && linkResult.data) {
-        await updateSharingLink(linkResult.data.id, {
-          usageCount: (linkResult.data.usageCount || 0) + 1,
-          lastUsedAt: admin.firestore.Timestamp.now(),
-        })
-      }
+    // Credit each new track to this contributor and link; the songs are already added, so don't fail the request
+    const attributionResult = await recordTrackAttributions(playlistId, addedTrackUris, {
+      contributorId: session.user.id,
+      contributorName: session.user.name || '',
+      contributionId,
+      linkId,
+    })
+    if (!attributionResult.success) {
+      console.error('Failed to record track attributions:', attributionResult.error)
     }
 
     return NextResponse.json({
       success: true,
-      message: 'Songs added successfully'
+      message: 'Songs added successfully',
+      addedTrackUris,
+      skippedTrackUris,
     })
 
   } catch (error) {
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview API route for a playlist's contribution analytics (server-side, Admin SDK).
+ *
+ * Groups contributions, tracks, new vs. returning contributors, and sharing link visits by day, week or
+ * month, so the dashboard can chart them without downloading every contribution. Owners and co-owners only.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { ANALYTICS_GRANULARITIES, buildContributionAnalytics, type AnalyticsGranularity } from '@/lib/analytics'
+import { getContributionsByPlaylist, isLiveContribution } from '@/services/firebase/contributions'
+import { getSharingLinksByPlaylist } from '@/services/firebase/sharing-links'
+
+/**
+ * @description Returns the playlist's analytics grouped by `?groupBy=day|week|month` (default: week).
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The analytics or error response.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const session = await validateSession()
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        const groupBy = request.nextUrl.searchParams.get('groupBy') || 'week'
+        if (!ANALYTICS_GRANULARITIES.includes(groupBy as AnalyticsGranularity)) {
+            return NextResponse.json({ error: `groupBy must be one of ${ANALYTICS_GRANULARITIES.join(', ')}` }, { status: 400 })
+        }
+
+        // Validate playlist exists and the user owns or co-owns it
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+
+        const [contributionsResult, linksResult] = await Promise.all([
+            getContributionsByPlaylist(playlistId),
+            getSharingLinksByPlaylist(playlistId, true),
+        ])
+        if (!contributionsResult.success) {
+            return NextResponse.json({ error: contributionsResult.error }, { status: 500 })
+        }
+        if (!linksResult.success) {
+            return NextResponse.json({ error: linksResult.error }, { status: 500 })
+        }
+
+        const analytics = buildContributionAnalytics(
+            (contributionsResult.data || []).filter(isLiveContribution),
+            linksResult.data || [],
+            groupBy as AnalyticsGranularity
+        )
+
+        return NextResponse.json(analytics)
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview API route for removing a co-owner from a group playlist (server-side, Admin SDK).
+ *
+ * The primary owner can remove any co-owner, and co-owners can remove themselves by passing `me` as the ID. The
+ * Spotify playlist stays collaborative, and links the co-owner shared keep working until deactivated.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { removePlaylistCoOwner } from '@/services/firebase/playlists'
+
+/**
+ * @description Removes a co-owner from a playlist.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Success or error response.
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string, coOwnerId: string }> }
+) {
+    try {
+        const session = await validateSession()
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { playlistId, coOwnerId: requestedCoOwnerId } = await params
+        if (!playlistId || !requestedCoOwnerId) {
+            return NextResponse.json({ error: 'Missing playlistId or coOwnerId' }, { status: 400 })
+        }
+
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        const { playlist, user, isPrimaryOwner } = accessResult.data
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+        const coOwnerId = requestedCoOwnerId === 'me' ? user.spotifyUserId : requestedCoOwnerId
+        if (!isPrimaryOwner && coOwnerId !== user.spotifyUserId) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        if (!playlist.coOwnerIds?.includes(coOwnerId)) {
+            return NextResponse.json({ error: 'Co-owner not found' }, { status: 404 })
+        }
+
+        const removeResult = await removePlaylistCoOwner(playlistId, coOwnerId)
+        if (!removeResult.success) {
+            return NextResponse.json({ error: removeResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview API route for adding a co-owner to a group playlist (server-side, Admin SDK).
+ *
+ * Co-owners share their own links into the same Spotify playlist and moderate contributions. Spotify only lets
+ * collaborators edit a playlist they don't own if it's collaborative, so the first co-owner makes the playlist
+ * collaborative (and therefore private), and each co-owner follows it with their stored token. That needs the
+ * `PLAYLIST_CONFIG.coOwnerScopes`, which users who signed in before co-owners existed haven't granted, so both the
+ * owner and the co-owner must have signed in again since.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { PLAYLIST_CONFIG } from '@/lib/constants'
+import { hasRequiredScopes } from '@/lib/permissions'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { followPlaylist, updatePlaylistDetails, SpotifyAPIError } from '@/lib/spotify'
+import { addPlaylistCoOwner } from '@/services/firebase/playlists'
+import { getGrantedScopes, getStoredAccessToken } from '@/services/firebase/users'
+
+/**
+ * @description Adds a SMAS user as a co-owner of the signed-in owner's playlist.
+ * @param {NextRequest} request - The incoming request with `{ spotifyUserId }`.
+ * @returns {Promise<NextResponse>} The playlist's co-owners or error response.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        const { spotifyUserId } = await request.json()
+        const coOwnerId = typeof spotifyUserId === 'string' ? spotifyUserId.trim() : ''
+        if (!coOwnerId) {
+            return NextResponse.json({ error: 'Missing spotifyUserId' }, { status: 400 })
+        }
+
+        // Only the primary owner manages co-owners
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data || !accessResult.data.playlist.isActive) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isPrimaryOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        const playlist = accessResult.data.playlist
+
+        const coOwnerIds = playlist.coOwnerIds || []
+        if (coOwnerId === playlist.spotifyUserId || coOwnerIds.includes(coOwnerId)) {
+            return NextResponse.json({ error: 'That user already owns this playlist' }, { status: 409 })
+        }
+        if (coOwnerIds.length >= PLAYLIST_CONFIG.maxCoOwners) {
+            return NextResponse.json({ error: `A playlist can have up to ${PLAYLIST_CONFIG.maxCoOwners} co-owners` }, { status: 400 })
+        }
+
+        const ownerScopesResult = await getGrantedScopes(playlist.spotifyUserId)
+        if (!ownerScopesResult.success || !hasRequiredScopes([...PLAYLIST_CONFIG.coOwnerScopes], ownerScopesResult.data || [])) {
+            return NextResponse.json(
+                { error: 'Sign in to Spotify again to let SMAS share a private playlist', reauthRequired: true },
+                { status: 403 }
+            )
+        }
+
+        // Co-owners need a SMAS account, whose token is used to follow the playlist
+        const coOwnerTokenResult = await getStoredAccessToken(coOwnerId)
+        if (!coOwnerTokenResult.success || !coOwnerTokenResult.data) {
+            return NextResponse.json({ error: 'That Spotify user hasn\'t signed in to SMAS yet' }, { status: 404 })
+        }
+        const coOwnerScopesResult = await getGrantedScopes(coOwnerId)
+        if (!coOwnerScopesResult.success || !hasRequiredScopes([...PLAYLIST_CONFIG.coOwnerScopes], coOwnerScopesResult.data || [])) {
+            return NextResponse.json(
+                { error: 'That Spotify user needs to sign in to SMAS again before they can co-own a playlist' },
+                { status: 409 }
+            )
+        }
+
+        if (coOwnerIds.length === 0) {
+            await updatePlaylistDetails(accessToken, playlist.spotifyPlaylistId, { public: false, collaborative: true })
+        }
+        await followPlaylist(coOwnerTokenResult.data, playlist.spotifyPlaylistId)
+
+        const addResult = await addPlaylistCoOwner(playlistId, coOwnerId)
+        if (!addResult.success) {
+            return NextResponse.json({ error: addResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ coOwnerIds: [...coOwnerIds, coOwnerId] })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
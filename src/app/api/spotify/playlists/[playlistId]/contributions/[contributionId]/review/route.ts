@@ -0,0 +1,141 @@
+/**
+ * @fileoverview API route for approving or rejecting a contribution held for review (owner moderation).
+ *
+ * Approving adds the contribution's tracks to Spotify with the signed-in owner's or co-owner's token, skipping any
+ * that are already in the playlist, and credits them to the contributor. Rejecting gives the link's use back; the
+ * contributor's cooldown still applies.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { addTracksToPlaylist, getPlaylistTracks, SpotifyAPIError } from '@/lib/spotify'
+import { validateApiRequest } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import {
+    activateContribution,
+    claimPendingContribution,
+    getContributionById,
+    holdContributionForReview,
+    rejectContribution,
+} from '@/services/firebase/contributions'
+import { recordTrackAttributions } from '@/services/firebase/playlists'
+import { releaseSharingLinkUse } from '@/services/firebase/sharing-links'
+import type { Contribution } from '@/types/firebase'
+
+/**
+ * @description Puts a claimed contribution back in the review queue after a failed approval.
+ * @param {Contribution} contribution - The claimed contribution.
+ */
+async function returnToQueue(contribution: Contribution) {
+    await holdContributionForReview(contribution.id, contribution.spotifyTrackUris, contribution.spamReasons || [])
+}
+
+/**
+ * @description Approves or rejects a held contribution. Body: `{ decision: 'approve' | 'reject' }`.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Review result or error response.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string, contributionId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId, contributionId } = await params
+        if (!playlistId || !contributionId) {
+            return NextResponse.json({ error: 'Missing playlistId or contributionId' }, { status: 400 })
+        }
+        const { decision } = await request.json()
+        if (decision !== 'approve' && decision !== 'reject') {
+            return NextResponse.json({ error: 'Invalid decision' }, { status: 400 })
+        }
+
+        // Validate playlist exists and the user owns or co-owns it
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        const playlist = accessResult.data.playlist
+
+        const contributionResult = await getContributionById(contributionId)
+        if (!contributionResult.success || !contributionResult.data || contributionResult.data.playlistId !== playlistId) {
+            return NextResponse.json({ error: 'Contribution not found' }, { status: 404 })
+        }
+
+        const claimResult = await claimPendingContribution(contributionId)
+        if (!claimResult.success) {
+            return NextResponse.json({ error: 'Failed to review contribution' }, { status: 500 })
+        }
+        const contribution = claimResult.data
+        if (!contribution) {
+            return NextResponse.json({ error: 'This contribution has already been reviewed' }, { status: 409 })
+        }
+
+        if (decision === 'reject') {
+            const rejectResult = await rejectContribution(contributionId)
+            if (!rejectResult.success) {
+                await returnToQueue(contribution)
+                return NextResponse.json({ error: 'Failed to reject contribution' }, { status: 500 })
+            }
+            if (contribution.linkId) {
+                await releaseSharingLinkUse(contribution.linkId)
+            }
+            return NextResponse.json({ success: true, status: 'rejected' })
+        }
+
+        if (playlist.orphanedAt) {
+            await returnToQueue(contribution)
+            return NextResponse.json({ error: 'Recreate the playlist before approving contributions' }, { status: 409 })
+        }
+
+        // Skip tracks that made it into the playlist while this one waited
+        let addedTrackUris: string[]
+        try {
+            const playlistTracks = await getPlaylistTracks(accessToken, playlist.spotifyPlaylistId)
+            const existingUris = new Set((playlistTracks?.items || []).map((item: any) => item.track?.uri).filter(Boolean))
+            addedTrackUris = contribution.spotifyTrackUris.filter(uri => !existingUris.has(uri))
+
+            if (addedTrackUris.length > 0) {
+                await addTracksToPlaylist(accessToken, playlist.spotifyPlaylistId, addedTrackUris)
+            }
+        } catch (error) {
+            await returnToQueue(contribution)
+            throw error
+        }
+
+        const activateResult = await activateContribution(contributionId, addedTrackUris, { reviewed: true })
+        if (!activateResult.success) {
+            return NextResponse.json({ error: 'Failed to record contribution' }, { status: 500 })
+        }
+
+        // The songs are already added, so don't fail the request
+        const attributionResult = await recordTrackAttributions(playlistId, addedTrackUris, {
+            contributorId: contribution.contributorId,
+            contributorName: contribution.contributorName,
+            contributionId,
+            linkId: contribution.linkId,
+        })
+        if (!attributionResult.success) {
+            console.error('Failed to record track attributions:', attributionResult.error)
+        }
+
+        return NextResponse.json({
+            success: true,
+            status: 'active',
+            addedTrackUris,
+            skippedTrackUris: contribution.spotifyTrackUris.filter(uri => !addedTrackUris.includes(uri)),
+        })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        console.error('Contribution review error:', error)
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview API route for removing a contribution from a playlist (owner moderation).
+ *
+ * Removes the contribution's tracks from Spotify with the signed-in owner's or co-owner's token, marks it as
+ * revoked, and optionally blocks the contributor from future contributions. Contributions whose tracks SMAS never
+ * added, such as ones held for review, are only marked as rejected, so songs the owner added themselves stay put.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { removeTracksFromPlaylist, SpotifyAPIError } from '@/lib/spotify'
+import { validateApiRequest } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import {
+    claimPendingContribution,
+    getContributionById,
+    isLiveContribution,
+    rejectContribution,
+    revokeContribution,
+} from '@/services/firebase/contributions'
+import { blockContributor, removeContributionAttributions } from '@/services/firebase/playlists'
+import { releaseSharingLinkUse } from '@/services/firebase/sharing-links'
+
+/**
+ * @description Removes a contribution's tracks and revokes it. Pass `?block=true` to also block the contributor.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Removal result or error response.
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string, contributionId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId, contributionId } = await params
+        if (!playlistId || !contributionId) {
+            return NextResponse.json({ error: 'Missing playlistId or contributionId' }, { status: 400 })
+        }
+        const shouldBlock = request.nextUrl.searchParams.get('block') === 'true'
+
+        // Validate playlist exists and the user owns or co-owns it
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        const playlist = accessResult.data.playlist
+
+        const contributionResult = await getContributionById(contributionId)
+        if (!contributionResult.success || !contributionResult.data || contributionResult.data.playlistId !== playlistId) {
+            return NextResponse.json({ error: 'Contribution not found' }, { status: 404 })
+        }
+        const contribution = contributionResult.data
+        const isLive = isLiveContribution(contribution)
+
+        if (isLive) {
+            if (contribution.spotifyTrackUris.length > 0) {
+                await removeTracksFromPlaylist(accessToken, playlist.spotifyPlaylistId, contribution.spotifyTrackUris)
+            }
+
+            const revokeResult = await revokeContribution(contributionId)
+            if (!revokeResult.success) {
+                return NextResponse.json({ error: 'Failed to revoke contribution' }, { status: 500 })
+            }
+            await removeContributionAttributions(playlistId, contributionId)
+        } else if (contribution.status === 'pending') {
+            // Its tracks were never added, so decline it like the review queue does instead of touching Spotify
+            const claimResult = await claimPendingContribution(contributionId)
+            if (claimResult.data) {
+                const rejectResult = await rejectContribution(contributionId)
+                if (!rejectResult.success) {
+                    return NextResponse.json({ error: 'Failed to reject contribution' }, { status: 500 })
+                }
+                if (claimResult.data.linkId) {
+                    await releaseSharingLinkUse(claimResult.data.linkId)
+                }
+            }
+        } else if (contribution.status === 'processing') {
+            const rejectResult = await rejectContribution(contributionId)
+            if (!rejectResult.success) {
+                return NextResponse.json({ error: 'Failed to reject contribution' }, { status: 500 })
+            }
+        }
+
+        if (shouldBlock) {
+            const blockResult = await blockContributor(playlistId, contribution.contributorId)
+            if (!blockResult.success) {
+                return NextResponse.json({ error: 'Failed to block contributor' }, { status: 500 })
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            removedTrackUris: isLive ? contribution.spotifyTrackUris : [],
+            isContributorBlocked: shouldBlock,
+        })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json(
+                { error: 'Token expired, please refresh the page' },
+                { status: 401 }
+            )
+        }
+        console.error('Contribution removal error:', error)
+        return NextResponse.json({ error: 'Failed to remove contribution' }, { status: 500 })
+    }
+}
@@ -1,8 +1,14 @@
 /**
  * @fileoverview API route to get all contributions for a playlist (server-side, Admin SDK).
+ *
+ * Owners and co-owners get every live contribution. Everyone else only gets a count, so contributor names and
+ * internal UUIDs stay private to the playlist's owners.
  */
 import { NextRequest, NextResponse } from 'next/server'
-import { getContributionsByPlaylist } from '@/services/firebase/contributions'
+import { validateSession } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { toDate } from '@/lib/utils'
+import { getContributionsByPlaylist, isLiveContribution } from '@/services/firebase/contributions'
 
 
 export async function GET(
@@ -13,10 +19,29 @@ export async function GET(
     if (!playlistId) {
         return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
     }
+    const session = await validateSession()
+    const accessResult = await getPlaylistAccess(playlistId, session?.user.id)
+    if (!accessResult.success || !accessResult.data) {
+        return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+    }
+
     const result = await getContributionsByPlaylist(playlistId)
     if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 500 })
     }
+    const contributions = (result.data || []).filter(isLiveContribution)
+
+    // Public view: how active the playlist is, without who contributed
+    if (!accessResult.data.isOwner) {
+        const latest = contributions.reduce<Date | null>((latestDate, contribution) => {
+            const createdAt = toDate(contribution.createdAt)
+            return !latestDate || createdAt > latestDate ? createdAt : latestDate
+        }, null)
+        return NextResponse.json({
+            contributionCount: contributions.length,
+            lastContributedAt: latest ? latest.toISOString() : null,
+        })
+    }
 
     // Serialize timestamps
     const serializeContribution = (contribution: any) => ({
@@ -28,7 +53,7 @@ export async function GET(
             ? contribution.expiresAt.toDate().toISOString()
             : contribution.expiresAt,
     });
-    const serialized = result.data?.map(serializeContribution);
+    const serialized = contributions.map(serializeContribution);
 
     return NextResponse.json({ contributions: serialized })
-} 
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview API route for the owner's contributor detail view.
+ *
+ * Returns everything one friend has sent to the playlist over time, including contributions the owner removed,
+ * and whether each track is still in the playlist.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { SpotifyAPIError } from '@/lib/spotify'
+import { validateApiRequest } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { buildContributionHistory, getPlaylistTrackUris, getTrackDetails } from '@/lib/contribution-history'
+import { getContributionsByPlaylist } from '@/services/firebase/contributions'
+
+/**
+ * @description Fetches one contributor's history on a playlist. Only the playlist's owners can view it.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The contributor's history or error response.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string, contributorId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId, contributorId } = await params
+        if (!playlistId || !contributorId) {
+            return NextResponse.json({ error: 'Missing playlistId or contributorId' }, { status: 400 })
+        }
+
+        // Validate playlist exists and the user owns or co-owns it
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        const playlist = accessResult.data.playlist
+
+        const contributionsResult = await getContributionsByPlaylist(playlistId)
+        if (!contributionsResult.success) {
+            return NextResponse.json({ error: 'Failed to get contributions' }, { status: 500 })
+        }
+        const contributions = (contributionsResult.data || []).filter(contribution => contribution.contributorId === contributorId)
+        if (contributions.length === 0) {
+            return NextResponse.json({ error: 'Contributor not found' }, { status: 404 })
+        }
+
+        const [trackDetails, playlistTrackUris] = await Promise.all([
+            getTrackDetails(accessToken, contributions.flatMap(contribution => contribution.spotifyTrackUris)),
+            getPlaylistTrackUris(playlist),
+        ])
+        const history = buildContributionHistory(contributions, trackDetails, playlistTrackUris)
+        const tracks = history.flatMap(entry => entry.tracks)
+
+        return NextResponse.json({
+            contributorId,
+            // Names can change between contributions, so show the most recent one
+            contributorName: contributions.find(contribution => contribution.id === history[0]?.id)?.contributorName || '',
+            isBlocked: !!playlist.blockedContributorIds?.includes(contributorId),
+            totalTracks: tracks.length,
+            tracksInPlaylist: tracks.filter(track => track.isInPlaylist).length,
+            firstContributedAt: history[history.length - 1]?.createdAt,
+            contributions: history,
+        })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
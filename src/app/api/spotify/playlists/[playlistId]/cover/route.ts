@@ -0,0 +1,70 @@
+/**
+ * @fileoverview API route for uploading a custom playlist cover (server-side, Admin SDK).
+ *
+ * Accepts a JPEG as multipart form data (`cover`), resizes it to fit Spotify's 256KB limit, uploads it to
+ * Spotify, and records the change in Firestore.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import admin from 'firebase-admin'
+import { validateApiRequest } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { prepareCoverImage, CoverImageError } from '@/lib/playlist-cover'
+import { uploadPlaylistCoverImage, SpotifyAPIError } from '@/lib/spotify'
+import { updatePlaylist } from '@/services/firebase/playlists'
+
+/**
+ * @description Replaces the playlist's cover with the uploaded image.
+ * @param {NextRequest} request - The incoming multipart request with a `cover` file.
+ * @returns {Promise<NextResponse>} Success or error response.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        const formData = await request.formData().catch(() => null)
+        const cover = formData?.get('cover')
+        if (!cover || typeof cover === 'string') {
+            return NextResponse.json({ error: 'Missing cover image' }, { status: 400 })
+        }
+
+        // Spotify only lets the playlist's owner change its cover, so co-owners can't
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isPrimaryOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+
+        const coverImage = await prepareCoverImage(Buffer.from(await cover.arrayBuffer()))
+        await uploadPlaylistCoverImage(accessToken, accessResult.data.playlist.spotifyPlaylistId, coverImage)
+
+        const coverUpdatedAt = admin.firestore.Timestamp.now()
+        const updateResult = await updatePlaylist(playlistId, { coverUpdatedAt })
+        if (!updateResult.success) {
+            return NextResponse.json({ error: updateResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ success: true, coverUpdatedAt: coverUpdatedAt.toDate().toISOString() })
+    } catch (error) {
+        if (error instanceof CoverImageError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
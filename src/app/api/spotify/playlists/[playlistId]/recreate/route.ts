@@ -0,0 +1,131 @@
+/**
+ * @fileoverview API route to recreate a SMAS playlist that was deleted on Spotify (server-side, Admin SDK).
+ *
+ * Creates a new Spotify playlist, re-adds every live contribution's tracks, and points the existing Firestore
+ * playlist at it. Sharing links and contributions reference the Firestore playlist, so they keep working. The new
+ * playlist is recorded before its tracks are added, so if adding them fails, the owner's retry finishes filling it.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { SPOTIFY_CONFIG } from '@/lib/constants'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { toDate } from '@/lib/utils'
+import {
+    addTracksToPlaylist,
+    createPlaylist as createSpotifyPlaylist,
+    getPlaylistTracks,
+    isFollowingPlaylist,
+    uploadPlaylistCoverImage,
+    SpotifyAPIError
+} from '@/lib/spotify'
+import smasCoverBase64 from '@/public/smas-cover-base64'
+import { getContributionsByPlaylist, isLiveContribution } from '@/services/firebase/contributions'
+import { relinkSpotifyPlaylist, setRecreatedSpotifyPlaylist } from '@/services/firebase/playlists'
+
+const SPOTIFY_ADD_TRACKS_LIMIT = 100 // Spotify accepts at most 100 URIs per request
+
+/**
+ * @description Recreates the playlist on Spotify and restores its contributed tracks.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The new Spotify playlist ID and track count, or an error response.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        // Only the primary owner can create a playlist in their Spotify account
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isPrimaryOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        const playlist = accessResult.data.playlist
+
+        if (!playlist.orphanedAt) {
+            return NextResponse.json({ error: 'Playlist still exists on Spotify' }, { status: 409 })
+        }
+
+        // Don't create a second copy of a playlist that came back since it was marked orphaned
+        if (await isFollowingPlaylist(accessToken, playlist.spotifyPlaylistId, playlist.spotifyUserId)) {
+            await relinkSpotifyPlaylist(playlistId, playlist.spotifyPlaylistId)
+            return NextResponse.json({ error: 'Playlist still exists on Spotify' }, { status: 409 })
+        }
+
+        const contributionsResult = await getContributionsByPlaylist(playlistId)
+        if (!contributionsResult.success) {
+            return NextResponse.json({ error: contributionsResult.error }, { status: 500 })
+        }
+
+        // Re-add tracks oldest contribution first, once each
+        const trackUris = Array.from(new Set(
+            (contributionsResult.data || [])
+                .filter(isLiveContribution)
+                .sort((a, b) => toDate(a.createdAt).getTime() - toDate(b.createdAt).getTime())
+                .flatMap(contribution => contribution.spotifyTrackUris)
+        ))
+
+        // Reuse the playlist an earlier, failed attempt created, skipping the tracks it already got
+        const { recreatedSpotifyPlaylistId } = playlist
+        let spotifyPlaylistId: string
+        const existingUris = new Set<string>()
+        if (recreatedSpotifyPlaylistId && await isFollowingPlaylist(accessToken, recreatedSpotifyPlaylistId, playlist.spotifyUserId)) {
+            spotifyPlaylistId = recreatedSpotifyPlaylistId
+            const playlistTracks = await getPlaylistTracks(accessToken, spotifyPlaylistId)
+            playlistTracks?.items?.forEach((item: any) => {
+                if (item.track?.uri) existingUris.add(item.track.uri)
+            })
+        } else {
+            const spotifyPlaylist = await createSpotifyPlaylist(
+                accessToken,
+                playlist.spotifyUserId,
+                playlist.name || SPOTIFY_CONFIG.playlistName,
+                playlist.description || SPOTIFY_CONFIG.playlistDescription,
+                true
+            )
+            spotifyPlaylistId = spotifyPlaylist.id
+
+            try {
+                await uploadPlaylistCoverImage(accessToken, spotifyPlaylist.id, smasCoverBase64)
+            } catch (err) {
+                console.error('Failed to upload SMAS cover image:', err)
+            }
+
+            // Record the new playlist before filling it, so a retry after a failure below doesn't create another
+            const recordResult = await setRecreatedSpotifyPlaylist(playlistId, spotifyPlaylist.id)
+            if (!recordResult.success) {
+                return NextResponse.json({ error: recordResult.error }, { status: 500 })
+            }
+        }
+
+        const missingTrackUris = trackUris.filter(uri => !existingUris.has(uri))
+        for (let index = 0; index < missingTrackUris.length; index += SPOTIFY_ADD_TRACKS_LIMIT) {
+            await addTracksToPlaylist(accessToken, spotifyPlaylistId, missingTrackUris.slice(index, index + SPOTIFY_ADD_TRACKS_LIMIT))
+        }
+
+        const relinkResult = await relinkSpotifyPlaylist(playlistId, spotifyPlaylistId, trackUris.length)
+        if (!relinkResult.success) {
+            return NextResponse.json({ error: relinkResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ success: true, spotifyPlaylistId, trackCount: trackUris.length })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview API route for a playlist's review queue - contributions held back until an owner approves them.
+ *
+ * Returns each held contribution with its tracks looked up on Spotify and the reasons it was held.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { SpotifyAPIError } from '@/lib/spotify'
+import { validateApiRequest } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { getTrackDetails } from '@/lib/contribution-history'
+import { toDate } from '@/lib/utils'
+import { getPendingContributions } from '@/services/firebase/contributions'
+
+/**
+ * @description Lists a playlist's held contributions, oldest first. Only the playlist's owners can view it.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The review queue or error response.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        // Validate playlist exists and the user owns or co-owns it
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+
+        const pendingResult = await getPendingContributions(playlistId)
+        if (!pendingResult.success) {
+            return NextResponse.json({ error: 'Failed to get pending contributions' }, { status: 500 })
+        }
+        const pending = pendingResult.data || []
+
+        const trackDetails = pending.length > 0
+            ? await getTrackDetails(accessToken, pending.flatMap(contribution => contribution.spotifyTrackUris))
+            : new Map()
+
+        return NextResponse.json({
+            contributions: pending.map(contribution => ({
+                id: contribution.id,
+                contributorId: contribution.contributorId,
+                contributorName: contribution.contributorName,
+                createdAt: toDate(contribution.createdAt).toISOString(),
+                spamReasons: contribution.spamReasons || [],
+                tracks: contribution.spotifyTrackUris.map(uri => ({
+                    uri,
+                    name: trackDetails.get(uri)?.name || 'Unknown Track',
+                    artist: trackDetails.get(uri)?.artist || 'Unknown Artist',
+                    imageUrl: trackDetails.get(uri)?.imageUrl,
+                })),
+            })),
+        })
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
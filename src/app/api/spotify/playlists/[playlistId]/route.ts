@@ -0,0 +1,173 @@
+/**
+ * @fileoverview API route for updating an owner's playlist settings (server-side, Admin SDK).
+ *
+ * Supports renaming the playlist, editing its description, the per-playlist contribution cooldown, max tracks per
+ * contribution, and whether the owner approves contributions before their songs are added. Name and description
+ * changes go to Spotify first, then to Firestore. Owners can also archive a playlist, which deactivates its sharing
+ * links but leaves the Spotify playlist in place.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { validateApiRequest, validateSession } from '@/lib/auth'
+import { CONTRIBUTION_CONFIG, PLAYLIST_CONFIG } from '@/lib/constants'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { updatePlaylistDetails, SpotifyAPIError } from '@/lib/spotify'
+import { archivePlaylist, getPlaylistsByOwner, updatePlaylist } from '@/services/firebase/playlists'
+import { deactivateSharingLink, getSharingLinksByPlaylist } from '@/services/firebase/sharing-links'
+import type { Playlist } from '@/types/firebase'
+
+type PlaylistSettings = Partial<Pick<Playlist, 'name' | 'description' | 'contributionCooldownDays' | 'maxTracksPerContribution' | 'requiresApproval'>>
+
+/**
+ * @description Checks that a setting is either absent or an integer within bounds.
+ * @param {unknown} value - The submitted value.
+ * @param {number} min - Smallest allowed value.
+ * @param {number} max - Largest allowed value.
+ * @returns {boolean} True if the value can be saved.
+ */
+function isValidSetting(value: unknown, min: number, max: number): boolean {
+    return value === undefined || (Number.isInteger(value) && (value as number) >= min && (value as number) <= max)
+}
+
+/**
+ * @description Trims a submitted text field, checking it's either absent or a string within the length limit.
+ * @param {unknown} value - The submitted value.
+ * @param {number} maxLength - Longest allowed value.
+ * @returns {string | undefined | null} The trimmed text, undefined if absent, or null if invalid.
+ */
+function parseTextSetting(value: unknown, maxLength: number): string | undefined | null {
+    if (value === undefined) return undefined
+    if (typeof value !== 'string' || value.trim().length > maxLength) return null
+    return value.trim()
+}
+
+/**
+ * @description Updates settings on a playlist owned by the signed-in user.
+ * @param {NextRequest} request - The incoming request with `{ name?, description?, contributionCooldownDays?, maxTracksPerContribution?,
+ * requiresApproval? }`.
+ * @returns {Promise<NextResponse>} The updated settings or error response.
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const authData = await validateApiRequest(request)
+        if (!authData) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+        const { accessToken, session } = authData
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        const body = await request.json()
+        const { contributionCooldownDays, maxTracksPerContribution, requiresApproval } = body
+        const name = parseTextSetting(body.name, PLAYLIST_CONFIG.maxNameLength)
+        const description = parseTextSetting(body.description, PLAYLIST_CONFIG.maxDescriptionLength)
+        if ([name, description, contributionCooldownDays, maxTracksPerContribution, requiresApproval].every(value => value === undefined)) {
+            return NextResponse.json({ error: 'No settings to update' }, { status: 400 })
+        }
+        if (name === null || name === '') {
+            return NextResponse.json({ error: `Name must be 1-${PLAYLIST_CONFIG.maxNameLength} characters` }, { status: 400 })
+        }
+        if (description === null) {
+            return NextResponse.json({ error: `Description must be ${PLAYLIST_CONFIG.maxDescriptionLength} characters or fewer` }, { status: 400 })
+        }
+        if (!isValidSetting(contributionCooldownDays, 0, CONTRIBUTION_CONFIG.maxCooldownDays)) {
+            return NextResponse.json({ error: 'Invalid contributionCooldownDays' }, { status: 400 })
+        }
+        if (!isValidSetting(maxTracksPerContribution, 1, CONTRIBUTION_CONFIG.maxTracksLimit)) {
+            return NextResponse.json({ error: 'Invalid maxTracksPerContribution' }, { status: 400 })
+        }
+        if (requiresApproval !== undefined && typeof requiresApproval !== 'boolean') {
+            return NextResponse.json({ error: 'Invalid requiresApproval' }, { status: 400 })
+        }
+        const settings: PlaylistSettings = {
+            ...(name !== undefined ? { name } : {}),
+            ...(description !== undefined ? { description } : {}),
+            ...(contributionCooldownDays !== undefined ? { contributionCooldownDays } : {}),
+            ...(maxTracksPerContribution !== undefined ? { maxTracksPerContribution } : {}),
+            ...(requiresApproval !== undefined ? { requiresApproval } : {}),
+        }
+
+        // Validate playlist exists and belongs to the user, not a co-owner
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isPrimaryOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+
+        // Spotify's copy first, so Firestore never shows details Spotify doesn't have
+        if (name !== undefined || description !== undefined) {
+            await updatePlaylistDetails(accessToken, accessResult.data.playlist.spotifyPlaylistId, { name, description })
+        }
+
+        const updateResult = await updatePlaylist(playlistId, settings)
+        if (!updateResult.success) {
+            return NextResponse.json({ error: updateResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json(settings)
+    } catch (error) {
+        if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+            return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+        }
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
+
+
+/**
+ * @description Archives a playlist owned by the signed-in user and deactivates its sharing links. The owner's
+ * last playlist can't be archived.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Success or error response.
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ playlistId: string }> }
+) {
+    try {
+        const session = await validateSession()
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { playlistId } = await params
+        if (!playlistId) {
+            return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
+        }
+
+        const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+        if (!accessResult.success || !accessResult.data || !accessResult.data.playlist.isActive) {
+            return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+        }
+        if (!accessResult.data.isPrimaryOwner) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+
+        const ownerPlaylistsResult = await getPlaylistsByOwner(accessResult.data.playlist.spotifyUserId)
+        if ((ownerPlaylistsResult.data?.length || 0) <= 1) {
+            return NextResponse.json({ error: 'You can\'t archive your only playlist' }, { status: 400 })
+        }
+
+        // Friends with an old link see it as unavailable rather than sending songs nobody will hear
+        const linksResult = await getSharingLinksByPlaylist(playlistId)
+        for (const link of linksResult.data || []) {
+            await deactivateSharingLink(link.id)
+        }
+
+        const archiveResult = await archivePlaylist(playlistId)
+        if (!archiveResult.success) {
+            return NextResponse.json({ error: archiveResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview API route for managing one of a playlist's sharing links (server-side, Admin SDK).
+ *
+ * Lets the owner or a co-owner rename a link or deactivate it without affecting the playlist's other links.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session } from 'next-auth'
+import { validateSession } from '@/lib/auth'
+import { SHARING_LINK_CONFIG } from '@/lib/constants'
+import { getPlaylistAccess } from '@/lib/playlist-access'
+import { deactivateSharingLink, getSharingLinkById, renameSharingLink } from '@/services/firebase/sharing-links'
+import type { SharingLink } from '@/types/firebase'
+
+type RouteParams = { params: Promise<{ playlistId: string, linkId: string }> }
+
+/**
+ * @description Loads an active sharing link after checking the signed-in user owns or co-owns the playlist.
+ * @param {Session} session - The validated session.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} linkId - Firestore sharing link ID.
+ * @returns {Promise<{ link: SharingLink } | { response: NextResponse }>} The link, or an error response to return.
+ */
+async function getOwnedSharingLink(
+    session: Session,
+    playlistId: string,
+    linkId: string
+): Promise<{ link: SharingLink } | { response: NextResponse }> {
+    const accessResult = await getPlaylistAccess(playlistId, session.user.id)
+    if (!accessResult.success || !accessResult.data) {
+        return { response: NextResponse.json({ error: 'Playlist not found' }, { status: 404 }) }
+    }
+    if (!accessResult.data.isOwner) {
+        return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+    }
+
+    const linkResult = await getSharingLinkById(linkId)
+    if (!linkResult.success || !linkResult.data || linkResult.data.playlistId !== playlistId || !linkResult.data.isActive) {
+        return { response: NextResponse.json({ error: 'Sharing link not found' }, { status: 404 }) }
+    }
+
+    return { link: linkResult.data }
+}
+
+/**
+ * @description Renames a sharing link.
+ * @param {NextRequest} request - The incoming request with `{ label }`.
+ * @returns {Promise<NextResponse>} The updated link or error response.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const session = await validateSession()
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { playlistId, linkId } = await params
+        if (!playlistId || !linkId) {
+            return NextResponse.json({ error: 'Missing playlistId or linkId' }, { status: 400 })
+        }
+
+        const { label } = await request.json()
+        const trimmedLabel = typeof label === 'string' ? label.trim() : ''
+        if (!trimmedLabel) {
+            return NextResponse.json({ error: 'Label is required' }, { status: 400 })
+        }
+        if (trimmedLabel.length > SHARING_LINK_CONFIG.maxLabelLength) {
+            return NextResponse.json({ error: `Label must be ${SHARING_LINK_CONFIG.maxLabelLength} characters or fewer` }, { status: 400 })
+        }
+
+        const owned = await getOwnedSharingLink(session, playlistId, linkId)
+        if ('response' in owned) {
+            return owned.response
+        }
+
+        const renameResult = await renameSharingLink(linkId, trimmedLabel)
+        if (!renameResult.success) {
+            return NextResponse.json({ error: renameResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ success: true, sharingLinkId: owned.link.id, label: trimmedLabel })
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
+
+/**
+ * @description Deactivates a sharing link so it no longer accepts visitors. Other links keep working.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Deactivation result or error response.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const session = await validateSession()
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { playlistId, linkId } = await params
+        if (!playlistId || !linkId) {
+            return NextResponse.json({ error: 'Missing playlistId or linkId' }, { status: 400 })
+        }
+
+        const owned = await getOwnedSharingLink(session, playlistId, linkId)
+        if ('response' in owned) {
+            return owned.response
+        }
+
+        const deactivateResult = await deactivateSharingLink(linkId)
+        if (!deactivateResult.success) {
+            return NextResponse.json({ error: deactivateResult.error }, { status: 500 })
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+    }
+}
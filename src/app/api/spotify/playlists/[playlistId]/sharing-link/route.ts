@@ -1,7 +1,12 @@
 /**
- * @fileoverview API route to get the sharing link for a playlist (server-side, Admin SDK).
+ * @fileoverview API route to get the sharing links for a playlist (server-side, Admin SDK).
+ *
+ * Owners and co-owners get every active link plus the playlist's primary link. Everyone else only gets the owner's
+ * name: a slug is a working invite, so handing it out would get around deactivated links and per-link limits.
  */
 import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getPlaylistAccess } from '@/lib/playlist-access'
 import { getSharingLinksByPlaylist } from '@/services/firebase/sharing-links'
 
 export async function GET(
@@ -12,11 +17,35 @@ export async function GET(
     if (!playlistId) {
         return NextResponse.json({ error: 'Missing playlistId' }, { status: 400 })
     }
+    const session = await validateSession()
+    const accessResult = await getPlaylistAccess(playlistId, session?.user.id)
+    if (!accessResult.success || !accessResult.data) {
+        return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
+    }
+
     const result = await getSharingLinksByPlaylist(playlistId)
     if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 500 })
     }
-    const links = result.data || []
-    const sharingLink = links[0] || null
-    return NextResponse.json({ sharingLink })
-} 
\ No newline at end of file
+
+    // Serialize timestamps
+    const serializeLink = (link: any) => ({
+        ...link,
+        createdAt: link.createdAt?.toDate ? link.createdAt.toDate().toISOString() : link.createdAt,
+        updatedAt: link.updatedAt?.toDate ? link.updatedAt.toDate().toISOString() : link.updatedAt,
+        lastUsedAt: link.lastUsedAt?.toDate ? link.lastUsedAt.toDate().toISOString() : link.lastUsedAt,
+        expiresAt: link.expiresAt?.toDate ? link.expiresAt.toDate().toISOString() : link.expiresAt,
+    })
+    const links = (result.data || []).map(serializeLink)
+    const primaryLinkId = accessResult.data.playlist.sharingLinkId
+    const sharingLink = links.find((link: any) => link.id === primaryLinkId) || links[0] || null
+
+    // Public view: who owns the playlist, but no invite
+    if (!accessResult.data.isOwner) {
+        return NextResponse.json({
+            sharingLink: sharingLink ? { ownerName: sharingLink.ownerName } : null,
+        })
+    }
+
+    return NextResponse.json({ sharingLink, sharingLinks: links })
+}
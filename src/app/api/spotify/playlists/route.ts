@@ -1,26 +1,112 @@
 /**
- * @fileoverview Playlist API route - Creates or retrieves user's SMAS playlist and syncs metadata with Firestore.
+ * @fileoverview Playlist API route - Lists, creates, or retrieves the user's SMAS playlists and syncs metadata with Firestore.
  *
- * Handles playlist creation in Spotify and Firestore, and generates sharing links for the SMAS app.
+ * Owners can keep several playlists (e.g. "Road trip", "Gym", "Chill"), each with its own Spotify playlist, sharing
+ * link, contributions, and cooldown, and can share a playlist with co-owners. Flags a Firestore playlist as orphaned
+ * when its Spotify playlist has been deleted, so the dashboard can offer to recreate it.
  */
 import { NextRequest, NextResponse } from 'next/server'
-import {
-  createPlaylist as createSpotifyPlaylist,
-  getPlaylistTracks,
-  uploadPlaylistCoverImage,
-  SpotifyAPIError
-} from '@/lib/spotify'
+import { getPlaylistTracks, isFollowingPlaylist, SpotifyAPIError } from '@/lib/spotify'
 import { validateApiRequest } from '@/lib/auth'
-import { SPOTIFY_CONFIG, APP_CONFIG } from '@/lib/constants'
+import { SPOTIFY_CONFIG, APP_CONFIG, PLAYLIST_CONFIG } from '@/lib/constants'
+import { createSmasPlaylist, getOwnerPlaylists, getSongAttributions, toStorePlaylist } from '@/lib/playlist-setup'
 import type { Playlist as StorePlaylist } from '@/stores/playlist-store'
-import { getOrCreatePlaylist, updatePlaylist, getPlaylistsByOwner } from '@/services/firebase/playlists'
-import smasCoverBase64 from '@/public/smas-cover-base64'
-import { createSharingLink, generateUniqueLinkSlug, getSharingLinkByOwner, updateSharingLink } from '@/services/firebase/sharing-links'
+import {
+  getPlaylistById,
+  getPlaylistsByCoOwner,
+  isPlaylistOwner,
+  markPlaylistOrphaned,
+  relinkSpotifyPlaylist,
+} from '@/services/firebase/playlists'
+import { getContributionsByPlaylist, isLiveContribution } from '@/services/firebase/contributions'
+import { getPrimarySharingLink, getSharingLinksByPlaylist } from '@/services/firebase/sharing-links'
 import { getUserByNextAuthId } from '@/services/firebase/users'
+import type { Playlist } from '@/types/firebase'
 
 /**
- * @description Creates or retrieves the user's SMAS playlist and syncs with Firestore.
+ * @description Loads an existing playlist's tracks with who added them and its primary sharing link, flagging it if
+ * it was deleted on Spotify.
+ * @param {string} accessToken - Signed-in owner's or co-owner's Spotify access token.
+ * @param {string} spotifyUserId - Signed-in owner's or co-owner's Spotify user ID.
+ * @param {Playlist} firestorePlaylist - Firestore playlist.
+ * @returns {Promise<StorePlaylist>} The playlist for the dashboard.
+ */
+async function loadSmasPlaylist(accessToken: string, spotifyUserId: string, firestorePlaylist: Playlist): Promise<StorePlaylist> {
+  let isOnSpotify = !firestorePlaylist.orphanedAt
+
+  // Deleting a playlist in Spotify unfollows it; flag it so the owner can recreate it. Only the primary owner's
+  // follow counts, since co-owners may never have followed it.
+  if (firestorePlaylist.spotifyUserId === spotifyUserId) {
+    isOnSpotify = await isFollowingPlaylist(accessToken, firestorePlaylist.spotifyPlaylistId, spotifyUserId)
+    if (!isOnSpotify && !firestorePlaylist.orphanedAt) {
+      await markPlaylistOrphaned(firestorePlaylist.id)
+    } else if (isOnSpotify && firestorePlaylist.orphanedAt) {
+      // The owner restored the playlist in Spotify
+      await relinkSpotifyPlaylist(firestorePlaylist.id, firestorePlaylist.spotifyPlaylistId)
+    }
+  }
+
+  // Fetch every page of the playlist's tracks from Spotify
+  const spotifyPlaylist = isOnSpotify
+    ? await getPlaylistTracks(accessToken, firestorePlaylist.spotifyPlaylistId)
+    : null
+
+  const linkResult = await getPrimarySharingLink(firestorePlaylist)
+  const shareLink = linkResult.success && linkResult.data ? `${APP_CONFIG.url}/share/${linkResult.data.linkSlug}` : ''
+
+  // Credit each track to the friend who added it, and the link it came through
+  const [contributionsResult, linksResult] = await Promise.all([
+    getContributionsByPlaylist(firestorePlaylist.id),
+    getSharingLinksByPlaylist(firestorePlaylist.id, true),
+  ])
+  const contributions = (contributionsResult.data || []).filter(isLiveContribution)
+  const attributions = getSongAttributions(firestorePlaylist, contributions, linksResult.data || [])
+
+  return toStorePlaylist(firestorePlaylist, spotifyPlaylist?.items || [], shareLink, !isOnSpotify, spotifyUserId, attributions)
+}
+
+/**
+ * @description Lists the user's active SMAS playlists, oldest first, followed by the group playlists they co-own.
  * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The playlist summaries or error response.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authData = await validateApiRequest(request)
+    if (!authData) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userResult = await getUserByNextAuthId(authData.session.user.id)
+    if (!userResult.success || !userResult.data) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const spotifyUserId = userResult.data.spotifyUserId
+    const coOwnedResult = await getPlaylistsByCoOwner(spotifyUserId)
+    const playlists = [...await getOwnerPlaylists(spotifyUserId), ...(coOwnedResult.data || [])]
+
+    return NextResponse.json({
+      playlists: playlists.map(playlist => ({
+        id: playlist.id,
+        spotifyPlaylistId: playlist.spotifyPlaylistId,
+        name: playlist.name,
+        description: playlist.description,
+        trackCount: playlist.trackCount,
+        createdAt: playlist.createdAt.toDate().toISOString(),
+        isOrphaned: !!playlist.orphanedAt,
+        isCoOwned: playlist.spotifyUserId !== spotifyUserId,
+      }))
+    })
+  } catch (error) {
+    return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+  }
+}
+
+/**
+ * @description Creates or retrieves one of the user's SMAS playlists. With `name`, creates a new playlist; with
+ * `playlistId`, loads that playlist; otherwise loads the oldest one, creating the first "SMAS" playlist if needed.
+ * @param {NextRequest} request - The incoming request with optional `{ playlistId?, name?, description? }`.
  * @returns {Promise<NextResponse>} The playlist data or error response.
  */
 export async function POST(request: NextRequest) {
@@ -31,6 +117,13 @@ export async function POST(request: NextRequest) {
     }
     const { accessToken, session } = authData
     const internalUserId = session.user.id
+    const ownerName = session.user.name || 'User'
+
+    // The dashboard's first load sends no body
+    const body = await request.json().catch(() => ({}))
+    const { playlistId } = body
+    const name = typeof body.name === 'string' ? body.name.trim() : undefined
+    const description = typeof body.description === 'string' ? body.description.trim() : ''
 
     // Get user profile to get spotifyUserId - check both users and accounts collections
     const userResult = await getUserByNextAuthId(internalUserId)
@@ -40,135 +133,50 @@ export async function POST(request: NextRequest) {
     }
     const spotifyUserId = userResult.data.spotifyUserId
 
-    // 0. Check if user already has any SMAS playlists in Firestore
-    const userPlaylistsResult = await getPlaylistsByOwner(spotifyUserId)
-    const existingFirestorePlaylists = userPlaylistsResult.success && userPlaylistsResult.data ? userPlaylistsResult.data : []
+    // Create a new named playlist alongside the owner's others
+    if (name !== undefined) {
+      if (!name || name.length > PLAYLIST_CONFIG.maxNameLength) {
+        return NextResponse.json({ error: `Name must be 1-${PLAYLIST_CONFIG.maxNameLength} characters` }, { status: 400 })
+      }
+      if (description.length > PLAYLIST_CONFIG.maxDescriptionLength) {
+        return NextResponse.json({ error: `Description must be ${PLAYLIST_CONFIG.maxDescriptionLength} characters or fewer` }, { status: 400 })
+      }
+      const ownerPlaylists = await getOwnerPlaylists(spotifyUserId)
+      if (ownerPlaylists.length >= PLAYLIST_CONFIG.maxActivePlaylists) {
+        return NextResponse.json({ error: `You can have up to ${PLAYLIST_CONFIG.maxActivePlaylists} playlists` }, { status: 400 })
+      }
 
-    // Check if any of the user's Firestore playlists are SMAS playlists
-    const existingSmasPlaylist = existingFirestorePlaylists.find(playlist =>
-      playlist.name === SPOTIFY_CONFIG.playlistName
-    )
+      const playlist = await createSmasPlaylist(accessToken, spotifyUserId, ownerName, name, description || SPOTIFY_CONFIG.playlistDescription)
+      return NextResponse.json(playlist, { status: 201 })
+    }
 
-    if (existingSmasPlaylist) {
-      // Fetch the existing playlist from Spotify
-      const existingSpotifyPlaylist = await getPlaylistTracks(accessToken, existingSmasPlaylist.spotifyPlaylistId)
-
-      // Return the existing playlist data
-      const playlist: StorePlaylist = {
-        id: existingSmasPlaylist.spotifyPlaylistId,
-        name: existingSmasPlaylist.name,
-        songs: existingSpotifyPlaylist?.items?.map((item: any) => ({
-          id: item.track.id,
-          name: item.track.name,
-          artist: item.track.artists[0]?.name || 'Unknown Artist',
-          album: item.track.album?.name || 'Unknown Album',
-          imageUrl: item.track.album?.images[0]?.url,
-          contributorId: undefined
-        })) || [],
-        contributors: [],
-        shareLink: '', // Will be populated below
-        firestoreId: existingSmasPlaylist.id,
+    // Load the playlist the owner selected on the dashboard
+    if (playlistId) {
+      const playlistResult = await getPlaylistById(playlistId)
+      if (!playlistResult.success || !playlistResult.data || !playlistResult.data.isActive) {
+        return NextResponse.json({ error: 'Playlist not found' }, { status: 404 })
       }
-
-      // Generate sharing link for existing playlist
-      const existingLinkResult = await getSharingLinkByOwner(spotifyUserId)
-      if (existingLinkResult.success && existingLinkResult.data) {
-        playlist.shareLink = `${APP_CONFIG.url}/share/${existingLinkResult.data.linkSlug}`
+      if (!isPlaylistOwner(playlistResult.data, spotifyUserId)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
       }
-
-      return NextResponse.json(playlist)
+      return NextResponse.json(await loadSmasPlaylist(accessToken, spotifyUserId, playlistResult.data))
     }
 
+    // Every Firestore playlist was created by SMAS, so default to the oldest stored record rather than
+    // matching on the name, which the owner can change
+    const [defaultPlaylist] = await getOwnerPlaylists(spotifyUserId)
+    if (defaultPlaylist) {
+      return NextResponse.json(await loadSmasPlaylist(accessToken, spotifyUserId, defaultPlaylist))
+    }
 
-    // 1. Create new SMAS playlist on Spotify
-    const smasPlaylist = await createSpotifyPlaylist(
+    // First visit: create the owner's first SMAS playlist
+    const playlist = await createSmasPlaylist(
       accessToken,
       spotifyUserId,
+      ownerName,
       SPOTIFY_CONFIG.playlistName,
-      SPOTIFY_CONFIG.playlistDescription,
-      true
+      SPOTIFY_CONFIG.playlistDescription
     )
-    smasPlaylist.tracks = { items: [] }
-
-    // 2. Upload the static SMAS cover image
-    try {
-      console.log(`Uploading SMAS cover image to playlist ${smasPlaylist.id}`)
-      await uploadPlaylistCoverImage(accessToken, smasPlaylist.id, smasCoverBase64)
-    } catch (err) {
-      console.error('Failed to upload SMAS cover image:', err)
-    }
-
-    // 3. Create new Firestore playlist record
-    const firestoreResult = await getOrCreatePlaylist({
-      spotifyPlaylistId: smasPlaylist.id,
-      spotifyUserId: spotifyUserId,
-      name: smasPlaylist.name,
-      description: smasPlaylist.description,
-    })
-
-    // 4. If playlist metadata has changed, update Firestore
-    if (
-      firestoreResult.success &&
-      firestoreResult.data &&
-      (firestoreResult.data.name !== smasPlaylist.name ||
-        firestoreResult.data.description !== smasPlaylist.description)
-    ) {
-      await updatePlaylist(firestoreResult.data.id, {
-        name: smasPlaylist.name,
-        description: smasPlaylist.description,
-      })
-    }
-
-    // 5. Generate or fetch sharing link for this playlist
-    let shareLink = ''
-    if (firestoreResult.success && firestoreResult.data) {
-      // Check if user already has an existing sharing link
-      const existingLinkResult = await getSharingLinkByOwner(spotifyUserId)
-
-      if (existingLinkResult.success && existingLinkResult.data) {
-        // User already has a sharing link, update it to point to the new playlist if needed
-        if (existingLinkResult.data.playlistId !== firestoreResult.data.id) {
-          await updateSharingLink(existingLinkResult.data.id, {
-            playlistId: firestoreResult.data.id,
-            ownerName: session.user.name || 'User',
-          })
-        }
-        shareLink = `${APP_CONFIG.url}/share/${existingLinkResult.data.linkSlug}`
-      } else {
-        // User doesn't have a sharing link, create a new one
-        const slugResult = await generateUniqueLinkSlug()
-        if (slugResult.success && typeof slugResult.data === 'string') {
-          const linkResult = await createSharingLink({
-            playlistId: firestoreResult.data.id,
-            spotifyUserId: spotifyUserId,
-            ownerName: session.user.name || 'User',
-            linkSlug: slugResult.data,
-          })
-          if (linkResult.success && linkResult.data) {
-            shareLink = `${APP_CONFIG.url}/share/${linkResult.data.linkSlug}`
-          }
-        }
-      }
-    }
-
-    // 6. Transform to SMAS format (merge Firestore metadata + Spotify tracks)
-    const playlist: StorePlaylist = {
-      id: smasPlaylist.id,
-      name: smasPlaylist.name,
-      songs: smasPlaylist.tracks?.items?.map((item: any) => ({
-        id: item.track.id,
-        name: item.track.name,
-        artist: item.track.artists[0]?.name || 'Unknown Artist',
-        album: item.track.album?.name || 'Unknown Album',
-        imageUrl: item.track.album?.images[0]?.url,
-        contributorId: undefined // Will be updated when contributors are added
-      })) || [],
-      contributors: [],
-      shareLink,
-      firestoreId: firestoreResult.success && firestoreResult.data ? firestoreResult.data.id : undefined,
-    }
-
-
     return NextResponse.json(playlist)
   } catch (error) {
     // console.error('Error creating playlist:', error)
@@ -183,4 +191,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
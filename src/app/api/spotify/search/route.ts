@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Track search API route - Proxies Spotify catalog search for the signed-in user.
+ *
+ * Lets contributors find a specific song to send, formatted for the SMAS app.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { searchTracks, SpotifyAPIError } from '@/lib/spotify'
+import { validateApiRequest } from '@/lib/auth'
+import { SPOTIFY_CONFIG } from '@/lib/constants'
+import type { Song } from '@/stores/playlist-store'
+
+const MIN_QUERY_LENGTH = 2
+
+/**
+ * @description Searches Spotify for tracks matching the `q` query param.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} Matching songs or error response.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authData = await validateApiRequest(request)
+
+    if (!authData) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim() || ''
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json({ error: 'Search query is too short' }, { status: 400 })
+    }
+
+    const searchData = await searchTracks(authData.accessToken, query, SPOTIFY_CONFIG.searchLimit)
+    const songs: Song[] = (searchData.tracks?.items || []).map((track: any) => ({
+      id: track.id,
+      name: track.name,
+      artist: track.artists[0]?.name || 'Unknown Artist',
+      album: track.album?.name || 'Unknown Album',
+      imageUrl: track.album?.images[0]?.url,
+    }))
+
+    return NextResponse.json(songs)
+  } catch (error) {
+    if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+      return NextResponse.json(
+        { error: 'Token expired, please refresh the page' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to search tracks' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview My contributions API route - Lists every playlist the signed-in user has contributed to.
+ *
+ * For each playlist, returns the tracks they sent and when, whether each track is still in the playlist, and when
+ * their cooldown ends.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { SpotifyAPIError } from '@/lib/spotify'
+import { validateApiRequest } from '@/lib/auth'
+import { buildContributionHistory, getPlaylistTrackUris, getTrackDetails } from '@/lib/contribution-history'
+import { checkUserContribution, getContributionsByUser } from '@/services/firebase/contributions'
+import { getPlaylistById } from '@/services/firebase/playlists'
+import { getPrimarySharingLink } from '@/services/firebase/sharing-links'
+import type { Contribution } from '@/types/firebase'
+
+/**
+ * @description Fetches the signed-in user's contributions, grouped by playlist, most recent first.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {Promise<NextResponse>} The contributed playlists or error response.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authData = await validateApiRequest(request)
+    if (!authData) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const { session, accessToken } = authData
+
+    const contributionsResult = await getContributionsByUser(session.user.id)
+    if (!contributionsResult.success) {
+      return NextResponse.json({ error: 'Failed to get contributions' }, { status: 500 })
+    }
+    const contributions = (contributionsResult.data || []).filter(contribution => contribution.status !== 'processing')
+
+    const contributionsByPlaylist = new Map<string, Contribution[]>()
+    contributions.forEach(contribution => {
+      contributionsByPlaylist.set(contribution.playlistId, [...(contributionsByPlaylist.get(contribution.playlistId) || []), contribution])
+    })
+
+    // Look up every track once, with the contributor's own token
+    const trackDetails = await getTrackDetails(accessToken, contributions.flatMap(contribution => contribution.spotifyTrackUris))
+
+    const playlists = await Promise.all([...contributionsByPlaylist.entries()].map(async ([playlistId, playlistContributions]) => {
+      const playlistResult = await getPlaylistById(playlistId)
+      const playlist = playlistResult.data
+      const [playlistTrackUris, linkResult, cooldownResult] = await Promise.all([
+        playlist ? getPlaylistTrackUris(playlist) : Promise.resolve(null),
+        playlist ? getPrimarySharingLink(playlist) : Promise.resolve(null),
+        checkUserContribution(playlistId, session.user.id),
+      ])
+      const history = buildContributionHistory(playlistContributions, trackDetails, playlistTrackUris)
+
+      return {
+        playlistId,
+        playlistName: playlist?.name || 'Deleted playlist',
+        ownerName: linkResult?.data?.ownerName || '',
+        // Archived playlists no longer take contributions
+        linkSlug: playlist?.isActive ? linkResult?.data?.linkSlug : undefined,
+        cooldownUntil: cooldownResult.data?.cooldownUntil,
+        lastContributedAt: history[0]?.createdAt,
+        contributions: history,
+      }
+    }))
+
+    playlists.sort((a, b) => (b.lastContributedAt || '').localeCompare(a.lastContributedAt || ''))
+
+    return NextResponse.json({ playlists })
+  } catch (error) {
+    if (error instanceof SpotifyAPIError && error.code === 'TOKEN_EXPIRED') {
+      return NextResponse.json({ error: 'Token expired, please refresh the page' }, { status: 401 })
+    }
+    return NextResponse.json({ error: `Internal server error: ${error}` }, { status: 500 })
+  }
+}
@@ -1,16 +1,19 @@
 /**
- * @fileoverview Top songs API route - Fetches user's top 5 songs from Spotify.
+ * @fileoverview Top songs API route - Fetches user's top songs from Spotify.
  *
- * Uses Spotify Web API to get user's top tracks and formats them for the SMAS app.
+ * Uses Spotify Web API to get user's top tracks for a time range and formats them for the SMAS app.
  */
 import { NextRequest, NextResponse } from 'next/server'
 import { getTopTracks, SpotifyAPIError } from '@/lib/spotify'
 import { validateApiRequest } from '@/lib/auth'
+import { SPOTIFY_CONFIG } from '@/lib/constants'
 import type { Song } from '@/stores/playlist-store'
 
+const MAX_TOP_TRACKS = 50
+
 /**
- * @description Fetches user's top 5 songs from Spotify API.
- * @param {NextRequest} request - The incoming request.
+ * @description Fetches user's top songs from Spotify API.
+ * @param {NextRequest} request - The incoming request, with optional `time_range` and `limit` query params.
  * @returns {Promise<NextResponse>} The top songs data or error response.
  */
 export async function GET(request: NextRequest) {
@@ -23,8 +26,18 @@ export async function GET(request: NextRequest) {
 
     const { accessToken } = authData
 
+    const searchParams = request.nextUrl.searchParams
+    const timeRange = searchParams.get('time_range') || SPOTIFY_CONFIG.timeRange
+    if (!(SPOTIFY_CONFIG.timeRanges as readonly string[]).includes(timeRange)) {
+      return NextResponse.json({ error: 'Invalid time_range' }, { status: 400 })
+    }
+    const limit = Number(searchParams.get('limit') || SPOTIFY_CONFIG.topTracksLimit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TOP_TRACKS) {
+      return NextResponse.json({ error: 'Invalid limit' }, { status: 400 })
+    }
+
     // Fetch top tracks from Spotify API
-    const topTracksData = await getTopTracks(accessToken)
+    const topTracksData = await getTopTracks(accessToken, limit, timeRange)
     // Transform Spotify data to SMAS format
     const songs: Song[] = topTracksData.items.map((track: any) => ({
       id: track.id,
@@ -31,6 +31,9 @@ const knewave = Knewave({
   variable: '--font-knewave',
 });
 
+// Render every page per request, so Next's scripts carry the nonce the middleware puts in the CSP
+export const dynamic = 'force-dynamic';
+
 export const metadata: Metadata = {
   title: APP_CONFIG.name,
   description: APP_CONFIG.description,
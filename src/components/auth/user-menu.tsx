@@ -1,10 +1,12 @@
 /**
  * @fileoverview User menu component with sign out functionality.
  *
- * Displays user information and provides sign out option in a dropdown menu.
+ * Displays user information, links to the dashboard and the user's contributions, and provides sign out option in
+ * a dropdown menu.
  */
 'use client'
 
+import Link from 'next/link'
 import { signOut, useSession } from 'next-auth/react'
 import {
     DropdownMenu,
@@ -13,7 +15,7 @@ import {
     DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu'
 import { Button } from '@/components/ui/button'
-import { LogOut, User } from 'lucide-react'
+import { LayoutDashboard, LogOut, Music, User } from 'lucide-react'
 
 /**
  * @description User menu component with sign out functionality.
@@ -50,6 +52,18 @@ export function UserMenu() {
                 </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem asChild>
+                    <Link href="/dashboard">
+                        <LayoutDashboard className="mr-2 h-4 w-4" />
+                        Dashboard
+                    </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                    <Link href="/contributions">
+                        <Music className="mr-2 h-4 w-4" />
+                        My Contributions
+                    </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem
                     onClick={handleSignOut}
                     className="text-red-600 focus:text-red-700 focus:bg-red-50"
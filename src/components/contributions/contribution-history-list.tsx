@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Contribution history list - the tracks sent in each contribution and whether they're still in the
+ * playlist.
+ *
+ * Shared by the "my contributions" page and the owner's contributor detail view.
+ */
+'use client'
+
+import Image from 'next/image'
+import { format } from 'date-fns'
+import type { ContributionHistoryEntry, ContributionHistoryTrack } from '@/lib/contribution-history'
+
+interface ContributionHistoryListProps {
+  contributions: ContributionHistoryEntry[]
+}
+
+/**
+ * @description Renders whether a track is still in the playlist.
+ * @param {ContributionHistoryTrack} track - The track.
+ * @returns {JSX.Element | null} The status badge, or null if it's unknown.
+ */
+function TrackStatus({ track }: { track: ContributionHistoryTrack }) {
+  if (track.isInPlaylist === null) return null
+
+  return track.isInPlaylist ? (
+    <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">In playlist</span>
+  ) : (
+    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-500">Removed</span>
+  )
+}
+
+/**
+ * @description Renders contributions newest first, with their tracks.
+ * @param {ContributionHistoryListProps} props - Component props.
+ * @returns {JSX.Element} The contribution history list.
+ */
+export function ContributionHistoryList({ contributions }: ContributionHistoryListProps) {
+  return (
+    <ol className="space-y-4">
+      {contributions.map(contribution => (
+        <li key={contribution.id}>
+          <p className="text-sm font-medium text-gray-700 mb-2">
+            {format(new Date(contribution.createdAt), 'MMM d, yyyy')}
+            {contribution.status === 'revoked' && <span className="ml-2 text-xs text-red-600">Removed by the owner</span>}
+            {contribution.status === 'pending' && <span className="ml-2 text-xs text-amber-700">Waiting for the owner&apos;s approval</span>}
+            {contribution.status === 'rejected' && <span className="ml-2 text-xs text-red-600">Declined by the owner</span>}
+          </p>
+          <ul className="space-y-2">
+            {contribution.tracks.map(track => (
+              <li key={track.uri} className="flex items-center gap-3">
+                {track.imageUrl && (
+                  <Image src={track.imageUrl} alt={`${track.name} cover`} className="w-10 h-10 rounded object-cover" loading="lazy" width={40} height={40} />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 truncate">{track.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{track.artist}</p>
+                </div>
+                <TrackStatus track={track} />
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview My contributions content - every playlist the signed-in user has sent songs to.
+ *
+ * Shows which tracks they sent and when, whether each is still in the playlist, and when they can contribute again.
+ */
+'use client'
+
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardHeader, CardContent, LoadingState, ErrorMessage } from '@/components/ui'
+import { ContributionHistoryList } from '@/components/contributions/contribution-history-list'
+import { UserMenu } from '@/components/auth/user-menu'
+import { useMyContributions, type MyContributionsPlaylist } from '@/hooks/use-spotify-queries'
+import type { Session } from 'next-auth'
+
+interface MyContributionsContentProps {
+  session: Session
+}
+
+/**
+ * @description Describes when the user can next contribute to a playlist.
+ * @param {MyContributionsPlaylist} playlist - The contributed playlist.
+ * @returns {JSX.Element} The cooldown status.
+ */
+function CooldownStatus({ playlist }: { playlist: MyContributionsPlaylist }) {
+  if (playlist.cooldownUntil) {
+    return (
+      <p className="text-sm text-gray-600">
+        You can send more songs on {format(new Date(playlist.cooldownUntil), 'MMM d, yyyy')}
+      </p>
+    )
+  }
+
+  if (!playlist.linkSlug) {
+    return <p className="text-sm text-gray-500">This playlist no longer takes contributions</p>
+  }
+
+  return (
+    <Link href={`/share/${playlist.linkSlug}`} className="text-sm text-green-700 hover:underline">
+      Send more songs now
+    </Link>
+  )
+}
+
+/**
+ * @description Renders the signed-in user's contributions grouped by playlist.
+ * @param {MyContributionsContentProps} props - Component props.
+ * @returns {JSX.Element} The my contributions content.
+ */
+export function MyContributionsContent({ session }: MyContributionsContentProps) {
+  const { data, isLoading, error } = useMyContributions(session)
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <LoadingState isLoading={true} text="Loading your contributions..." size="lg" variant="spinner" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <ErrorMessage message="Failed to load your contributions. Please try again." onRetry={() => window.location.reload()} />
+      </div>
+    )
+  }
+
+  const playlists = data?.playlists || []
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <header className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-green-700 mb-2">My Contributions</h1>
+          <p className="text-gray-600">Every playlist you&apos;ve sent songs to</p>
+        </div>
+        <UserMenu />
+      </header>
+
+      {playlists.length === 0 ? (
+        <Card>
+          <CardContent>
+            <p className="text-gray-500 text-center py-4">
+              You haven&apos;t sent any songs yet. Open a friend&apos;s SMAS link to send them your favorites.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {playlists.map(playlist => (
+            <Card key={playlist.playlistId}>
+              <CardHeader>
+                <h2 className="text-xl font-semibold text-gray-800">{playlist.playlistName}</h2>
+                {playlist.ownerName && <p className="text-sm text-gray-600">{playlist.ownerName}&apos;s playlist</p>}
+                <CooldownStatus playlist={playlist} />
+              </CardHeader>
+              <CardContent>
+                <ContributionHistoryList contributions={playlist.contributions} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 /**
  * @fileoverview Activity timeline component showing recent playlist contributions.
  *
- * Displays a visual timeline of recent contributions with dates and contributor names.
+ * Displays a visual timeline of recent contributions with dates and contributor names, with a link to send songs back
+ * to contributors who shared their own playlist.
  */
 'use client'
 
@@ -13,14 +14,16 @@ import { toDate } from '@/lib/utils'
 
 interface ActivityTimelineProps {
   contributions: Contribution[]
+  onSelectContributor?: (contributorId: string) => void
 }
 
 /**
  * @description Renders an activity timeline showing recent contributions.
- * @param {ActivityTimelineProps} props - Props containing contributions data.
+ * @param {ActivityTimelineProps} props - Props containing contributions data and an optional handler for opening a
+ * contributor's details.
  * @returns {JSX.Element} The activity timeline component.
  */
-export function ActivityTimeline({ contributions }: ActivityTimelineProps) {
+export function ActivityTimeline({ contributions, onSelectContributor }: ActivityTimelineProps) {
   // Get recent contributions (last 7)
   const recentContributions = useMemo(() => {
     return contributions
@@ -59,9 +62,19 @@ export function ActivityTimeline({ contributions }: ActivityTimelineProps) {
               {/* Content */}
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between">
-                  <p className="text-sm font-medium text-gray-900">
-                    {contribution.contributorName}
-                  </p>
+                  {onSelectContributor ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelectContributor(contribution.contributorId)}
+                      className="text-sm font-medium text-gray-900 hover:underline hover:cursor-pointer"
+                    >
+                      {contribution.contributorName}
+                    </button>
+                  ) : (
+                    <p className="text-sm font-medium text-gray-900">
+                      {contribution.contributorName}
+                    </p>
+                  )}
                   <span className="text-xs text-gray-500">
                     {format(toDate(contribution.createdAt), 'MMM d')}
                   </span>
@@ -69,6 +82,14 @@ export function ActivityTimeline({ contributions }: ActivityTimelineProps) {
                 <p className="text-sm text-gray-600">
                   Added {contribution.spotifyTrackUris.length} track{contribution.spotifyTrackUris.length !== 1 ? 's' : ''}
                 </p>
+                {contribution.sendBackLinkSlug && (
+                  <a
+                    href={`/share/${contribution.sendBackLinkSlug}`}
+                    className="text-sm text-green-700 hover:underline"
+                  >
+                    Send songs back
+                  </a>
+                )}
               </div>
             </div>
           ))}
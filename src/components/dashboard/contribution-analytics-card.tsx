@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Contribution analytics card charting playlist activity over time.
+ *
+ * Fetches pre-grouped analytics from the server and draws them as simple bar charts, switchable between
+ * days, weeks and months and between contributions, tracks, contributors, and link conversions.
+ */
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Card, CardHeader, CardContent, LoadingState } from '@/components/ui'
+import { useContributionAnalytics } from '@/hooks/use-spotify-queries'
+import { ANALYTICS_GRANULARITIES, type AnalyticsBucket, type AnalyticsGranularity } from '@/lib/analytics'
+import { cn } from '@/lib/utils'
+
+type AnalyticsMetric = 'contributions' | 'tracks' | 'contributors' | 'conversions'
+
+interface ChartSeries {
+  label: string
+  className: string
+  getValue: (bucket: AnalyticsBucket) => number
+}
+
+interface ContributionAnalyticsCardProps {
+  playlistId: string
+}
+
+const METRICS: Record<AnalyticsMetric, { label: string; stacked: boolean; series: ChartSeries[] }> = {
+  contributions: {
+    label: 'Contributions',
+    stacked: true,
+    series: [{ label: 'Contributions', className: 'bg-green-600', getValue: bucket => bucket.contributions }],
+  },
+  tracks: {
+    label: 'Tracks',
+    stacked: true,
+    series: [{ label: 'Tracks', className: 'bg-green-600', getValue: bucket => bucket.tracks }],
+  },
+  contributors: {
+    label: 'Contributors',
+    stacked: true,
+    series: [
+      { label: 'New', className: 'bg-green-600', getValue: bucket => bucket.newContributors },
+      { label: 'Returning', className: 'bg-green-300', getValue: bucket => bucket.returningContributors },
+    ],
+  },
+  conversions: {
+    label: 'Link conversions',
+    stacked: false,
+    series: [
+      { label: 'Visits', className: 'bg-gray-300', getValue: bucket => bucket.visits },
+      { label: 'Sign-ins', className: 'bg-green-300', getValue: bucket => bucket.signIns },
+      { label: 'Contributions', className: 'bg-green-600', getValue: bucket => bucket.contributions },
+    ],
+  },
+}
+
+const GRANULARITY_LABELS: Record<AnalyticsGranularity, string> = { day: 'Days', week: 'Weeks', month: 'Months' }
+
+/**
+ * @description Formats a period's start for the chart axis and tooltips.
+ * @param {string} periodStart - UTC day the period starts on.
+ * @param {AnalyticsGranularity} granularity - Period length.
+ * @returns {string} Label such as "Mar 3" or "Mar 2025".
+ */
+function formatPeriod(periodStart: string, granularity: AnalyticsGranularity): string {
+  const date = new Date(`${periodStart}T00:00:00`)
+  if (granularity === 'month') return format(date, 'MMM yyyy')
+  return granularity === 'week' ? `Week of ${format(date, 'MMM d')}` : format(date, 'MMM d')
+}
+
+/**
+ * @description Renders a row of toggle buttons.
+ */
+function ToggleGroup<T extends string>({ options, value, onChange, label }: {
+  options: Array<{ value: T; label: string }>
+  value: T
+  onChange: (value: T) => void
+  label: string
+}) {
+  return (
+    <div className="flex flex-wrap gap-1" role="group" aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={value === option.value}
+          className={cn(
+            'px-2 py-1 rounded-md text-xs hover:cursor-pointer',
+            value === option.value ? 'bg-green-700 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * @description Renders the analytics card with its period and metric switches.
+ * @param {ContributionAnalyticsCardProps} props - Component props.
+ * @returns {JSX.Element} The contribution analytics card.
+ */
+export function ContributionAnalyticsCard({ playlistId }: ContributionAnalyticsCardProps) {
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>('week')
+  const [metric, setMetric] = useState<AnalyticsMetric>('contributions')
+  const { data: analytics, isLoading, error } = useContributionAnalytics(playlistId, granularity)
+
+  const { series, stacked } = METRICS[metric]
+  const buckets = analytics?.buckets || []
+  const maxValue = Math.max(1, ...buckets.map(bucket =>
+    stacked
+      ? series.reduce((sum, item) => sum + item.getValue(bucket), 0)
+      : Math.max(...series.map(item => item.getValue(bucket)))
+  ))
+  const conversionRate = analytics && analytics.totals.visits > 0
+    ? Math.round((analytics.totals.contributions / analytics.totals.visits) * 100)
+    : null
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold text-gray-800">Activity Over Time</h3>
+          <ToggleGroup
+            label="Group by"
+            options={ANALYTICS_GRANULARITIES.map(value => ({ value, label: GRANULARITY_LABELS[value] }))}
+            value={granularity}
+            onChange={setGranularity}
+          />
+        </div>
+        <ToggleGroup
+          label="Metric"
+          options={(Object.keys(METRICS) as AnalyticsMetric[]).map(value => ({ value, label: METRICS[value].label }))}
+          value={metric}
+          onChange={setMetric}
+        />
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <LoadingState isLoading={true} text="Loading activity..." size="sm" />
+        ) : error || !analytics ? (
+          <p className="text-sm text-gray-500 text-center py-4">Couldn&apos;t load activity right now.</p>
+        ) : (
+          <>
+            <div className="flex items-end h-40 gap-px" role="img" aria-label={`${METRICS[metric].label} per ${granularity}`}>
+              {buckets.map(bucket => (
+                <div
+                  key={bucket.periodStart}
+                  className={cn('flex-1 h-full flex items-end', stacked ? 'flex-col-reverse justify-start' : 'gap-px')}
+                  title={`${formatPeriod(bucket.periodStart, granularity)}: ${series.map(item => `${item.getValue(bucket)} ${item.label.toLowerCase()}`).join(', ')}`}
+                >
+                  {series.map(item => (
+                    <div
+                      key={item.label}
+                      className={cn(item.className, stacked ? 'w-full' : 'flex-1')}
+                      style={{ height: `${(item.getValue(bucket) / maxValue) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>{buckets.length > 0 && formatPeriod(buckets[0].periodStart, granularity)}</span>
+              <span>{buckets.length > 0 && formatPeriod(buckets[buckets.length - 1].periodStart, granularity)}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600 mt-3">
+              {series.length > 1 && series.map(item => (
+                <span key={item.label} className="flex items-center gap-1">
+                  <span className={cn('inline-block w-2 h-2 rounded-sm', item.className)} />
+                  {item.label}
+                </span>
+              ))}
+              <span className="ml-auto">
+                {analytics.totals.contributions} contributions · {analytics.totals.tracks} tracks · {analytics.totals.newContributors} new,{' '}
+                {analytics.totals.returningContributors} returning
+                {conversionRate !== null && ` · ${conversionRate}% of visits converted`}
+              </span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Contributor detail card - everything one friend has sent to the owner's playlist over time.
+ *
+ * Opened from the activity timeline. Shows every contribution, including ones the owner removed, and which of the
+ * friend's songs are still in the playlist.
+ */
+'use client'
+
+import { format } from 'date-fns'
+import { Card, CardHeader, CardContent, LoadingState } from '@/components/ui'
+import { ContributionHistoryList } from '@/components/contributions/contribution-history-list'
+import { useContributorDetail } from '@/hooks/use-spotify-queries'
+
+interface ContributorDetailCardProps {
+  playlistId: string
+  contributorId: string
+  onClose: () => void
+}
+
+/**
+ * @description Renders one contributor's history on the playlist.
+ * @param {ContributorDetailCardProps} props - Component props.
+ * @returns {JSX.Element} The contributor detail card.
+ */
+export function ContributorDetailCard({ playlistId, contributorId, onClose }: ContributorDetailCardProps) {
+  const { data: contributor, isLoading, error } = useContributorDetail(playlistId, contributorId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">{contributor?.contributorName || 'Contributor'}</h3>
+            {contributor && (
+              <p className="text-sm text-gray-600">
+                {contributor.totalTracks} song{contributor.totalTracks !== 1 ? 's' : ''} sent
+                {contributor.firstContributedAt && ` since ${format(new Date(contributor.firstContributedAt), 'MMM d, yyyy')}`}
+                {' · '}{contributor.tracksInPlaylist} still in the playlist
+              </p>
+            )}
+            {contributor?.isBlocked && <p className="text-sm text-red-600">Blocked from contributing</p>}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:cursor-pointer"
+            aria-label="Close contributor details"
+          >
+            Close
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingState isLoading={true} text="Loading contributions..." variant="spinner" />
+        ) : error || !contributor ? (
+          <p className="text-sm text-red-600">Failed to load this contributor&apos;s songs.</p>
+        ) : (
+          <ContributionHistoryList contributions={contributor.contributions} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,18 +1,28 @@
 /**
  * @fileoverview Dashboard content component for the main user interface.
  *
- * Handles playlist management, top songs display, and sharing functionality.
+ * Handles playlist management, top songs display, and sharing functionality for the playlist selected in the
+ * switcher, and prompts the owner to recreate their playlist if it was deleted on Spotify.
  */
 'use client'
 
+import { useState } from 'react'
 import { LoadingState, ErrorMessage } from '@/components/ui'
 import { PlaylistCard } from '@/components/playlist/playlist-card'
+import { PlaylistDetailsCard } from '@/components/playlist/playlist-details-card'
+import { CoOwnersCard } from '@/components/playlist/co-owners-card'
 import { TopSongsCard } from '@/components/playlist/top-songs-card'
 import { ShareLinkCard } from '@/components/sharing/share-link-card'
-import { DashboardMetrics } from '@/components/dashboard/dashboard-metrics'
+import { SharingLinksPanel } from '@/components/sharing/sharing-links-panel'
+import { DashboardMetrics, type LinkFunnel } from '@/components/dashboard/dashboard-metrics'
+import { ContributionAnalyticsCard } from '@/components/dashboard/contribution-analytics-card'
 import { ActivityTimeline } from '@/components/dashboard/activity-timeline'
+import { ContributorDetailCard } from '@/components/dashboard/contributor-detail-card'
+import { ReviewQueueCard } from '@/components/dashboard/review-queue-card'
+import { RecreatePlaylistPrompt } from '@/components/dashboard/recreate-playlist-prompt'
+import { PlaylistSwitcher } from '@/components/dashboard/playlist-switcher'
 import { UserMenu } from '@/components/auth/user-menu'
-import { useTopSongs, useSMASPlaylist } from '@/hooks/use-spotify-queries'
+import { useTopSongs, useSMASPlaylist, useSharingLinks } from '@/hooks/use-spotify-queries'
 import { useQuery } from '@tanstack/react-query'
 import type { Contribution } from '@/types/firebase'
 import type { Session } from 'next-auth'
@@ -27,6 +37,7 @@ interface DashboardContentProps {
  * @returns {JSX.Element} The dashboard content component.
  */
 export function DashboardContent({ session }: DashboardContentProps) {
+  const [selectedContributorId, setSelectedContributorId] = useState<string | null>(null)
 
   // TanStack Query hooks
   const {
@@ -58,21 +69,12 @@ export function DashboardContent({ session }: DashboardContentProps) {
     enabled: !!playlist?.firestoreId,
   })
 
-  // Fetch sharing link usage using TanStack Query
+  // Fetch sharing link counts across all of the playlist's links
   const {
     data: sharingLinkData,
     isLoading: isLoadingSharingLink,
     error: sharingLinkError
-  } = useQuery({
-    queryKey: ['playlist-sharing-link', playlist?.firestoreId],
-    queryFn: async () => {
-      if (!playlist?.firestoreId) return { sharingLink: null }
-      const res = await fetch(`/api/spotify/playlists/${playlist.firestoreId}/sharing-link`)
-      if (!res.ok) throw new Error('Failed to fetch sharing link')
-      return res.json()
-    },
-    enabled: !!playlist?.firestoreId,
-  })
+  } = useSharingLinks(playlist?.firestoreId)
 
   const handleRetry = () => {
     window.location.reload()
@@ -82,7 +84,11 @@ export function DashboardContent({ session }: DashboardContentProps) {
   const hasError = topSongsError || playlistError || contributionsError || sharingLinkError
 
   const contributions = contributionsData?.contributions || []
-  const shareLinkUsage = sharingLinkData?.sharingLink?.usageCount || 0
+  const linkFunnel = (sharingLinkData?.sharingLinks || []).reduce<LinkFunnel>((funnel, link) => ({
+    visits: funnel.visits + (link.visitCount || 0),
+    signIns: funnel.signIns + (link.signInCount || 0),
+    contributions: funnel.contributions + (link.usageCount || 0),
+  }), { visits: 0, signIns: 0, contributions: 0 })
 
   if (isLoading) {
     return (
@@ -125,20 +131,39 @@ export function DashboardContent({ session }: DashboardContentProps) {
         <UserMenu />
       </header>
 
+      {playlist?.firestoreId && <PlaylistSwitcher session={session} currentPlaylistId={playlist.firestoreId} />}
+
+      {playlist?.isOrphaned && !playlist.isCoOwned && playlist.firestoreId && <RecreatePlaylistPrompt playlistId={playlist.firestoreId} />}
+
       {/* Dashboard Metrics */}
       <DashboardMetrics
         contributions={contributions}
         totalTracks={totalTracks}
-        shareLinkUsage={shareLinkUsage}
+        linkFunnel={linkFunnel}
       />
 
+      {/* Activity charts, grouped on the server */}
+      {playlist?.firestoreId && <ContributionAnalyticsCard playlistId={playlist.firestoreId} />}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="space-y-6">
           <PlaylistCard contributions={contributions} session={session} />
+          <PlaylistDetailsCard session={session} />
+          <CoOwnersCard session={session} />
         </div>
         <div className="space-y-6">
+          {playlist?.firestoreId && <ReviewQueueCard playlistId={playlist.firestoreId} requiresApproval={playlist.requiresApproval} />}
           <ShareLinkCard session={session} />
-          <ActivityTimeline contributions={contributions} />
+          {playlist?.firestoreId && <SharingLinksPanel playlistId={playlist.firestoreId} />}
+          <ActivityTimeline contributions={contributions} onSelectContributor={setSelectedContributorId} />
+          {/* Only for contributors to the playlist being shown, so switching playlists closes it */}
+          {playlist?.firestoreId && selectedContributorId && contributions.some((contribution: Contribution) => contribution.contributorId === selectedContributorId) && (
+            <ContributorDetailCard
+              playlistId={playlist.firestoreId}
+              contributorId={selectedContributorId}
+              onClose={() => setSelectedContributorId(null)}
+            />
+          )}
           <TopSongsCard songs={topSongs || []} isLoading={isLoadingTopSongs} />
         </div>
       </div>
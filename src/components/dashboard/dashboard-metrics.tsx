@@ -1,7 +1,8 @@
 /**
  * @fileoverview Dashboard metrics component displaying key playlist statistics.
  *
- * Shows total tracks, unique contributors, recent activity, and share link usage.
+ * Shows total tracks, unique contributors, recent activity, and the sharing link funnel
+ * (visits → sign-ins → contributions).
  */
 'use client'
 
@@ -11,10 +12,32 @@ import { type Contribution } from '@/types/firebase'
 import { format } from 'date-fns'
 import { toDate } from '@/lib/utils'
 
+/**
+ * @description Sharing link counts summed across a playlist's links.
+ */
+export interface LinkFunnel {
+  visits: number
+  signIns: number
+  contributions: number
+}
+
 interface DashboardMetricsProps {
   contributions: Contribution[]
   totalTracks: number
-  shareLinkUsage?: number
+  linkFunnel?: LinkFunnel
+}
+
+const EMPTY_FUNNEL: LinkFunnel = { visits: 0, signIns: 0, contributions: 0 }
+
+/**
+ * @description Formats how many of one funnel step made it to the next, e.g. "40%".
+ * @param {number} count - Count at the later step.
+ * @param {number} total - Count at the earlier step.
+ * @returns {string} The conversion percentage, or "-" when the earlier step is empty.
+ */
+function formatConversion(count: number, total: number): string {
+  if (total === 0) return '-'
+  return `${Math.round((count / total) * 100)}%`
 }
 
 /**
@@ -22,7 +45,7 @@ interface DashboardMetricsProps {
  * @param {DashboardMetricsProps} props - Props containing metrics data.
  * @returns {JSX.Element} The dashboard metrics component.
  */
-export function DashboardMetrics({ contributions, totalTracks, shareLinkUsage = 0 }: DashboardMetricsProps) {
+export function DashboardMetrics({ contributions, totalTracks, linkFunnel = EMPTY_FUNNEL }: DashboardMetricsProps) {
   // Calculate unique contributors
   const uniqueContributors = useMemo(() => {
     const contributorIds = new Set(contributions.map(c => c.contributorId))
@@ -98,16 +121,43 @@ export function DashboardMetrics({ contributions, totalTracks, shareLinkUsage =
         </CardContent>
       </Card>
 
-      {/* Share Link Usage */}
+      {/* Sharing Link Funnel */}
       <Card>
         <CardHeader className="pb-2">
-          <h3 className="text-sm font-medium text-gray-600">Link Usage</h3>
+          <h3 className="text-sm font-medium text-gray-600">Link Funnel</h3>
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold text-green-700">{shareLinkUsage}</div>
-          <p className="text-xs text-gray-500 mt-1">
-            {shareLinkUsage > 0 ? 'visits to your link' : 'No visits yet'}
-          </p>
+          {linkFunnel.visits > 0 ? (
+            <dl className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Visits</dt>
+                <dd className="font-bold text-green-700">{linkFunnel.visits}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Sign-ins</dt>
+                <dd className="font-bold text-green-700">
+                  {linkFunnel.signIns}
+                  <span className="ml-1 text-xs font-normal text-gray-500">
+                    {formatConversion(linkFunnel.signIns, linkFunnel.visits)}
+                  </span>
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Contributions</dt>
+                <dd className="font-bold text-green-700">
+                  {linkFunnel.contributions}
+                  <span className="ml-1 text-xs font-normal text-gray-500">
+                    {formatConversion(linkFunnel.contributions, linkFunnel.visits)}
+                  </span>
+                </dd>
+              </div>
+            </dl>
+          ) : (
+            <>
+              <div className="text-2xl font-bold text-gray-400">-</div>
+              <p className="text-xs text-gray-500 mt-1">No visits yet</p>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
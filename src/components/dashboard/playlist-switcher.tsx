@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Playlist switcher for the dashboard - lets owners keep several playlists, like "Road trip" or "Gym".
+ *
+ * Each playlist has its own Spotify playlist, sharing link, contributions, and cooldown. Owners can switch between
+ * them and the group playlists they co-own, create a new one, or archive one of their own.
+ */
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { Card, CardContent, LoadingButton, useToast } from '@/components/ui'
+import { useOwnerPlaylists, useCreatePlaylist, useArchivePlaylist } from '@/hooks/use-spotify-queries'
+import { PLAYLIST_CONFIG } from '@/lib/constants'
+import { usePlaylistStore } from '@/stores/playlist-store'
+import type { Session } from 'next-auth'
+
+interface PlaylistSwitcherProps {
+  session: Session
+  currentPlaylistId: string
+}
+
+/**
+ * @description Renders the playlist picker with create and archive actions.
+ * @param {PlaylistSwitcherProps} props - Component props.
+ * @returns {JSX.Element} The playlist switcher.
+ */
+export function PlaylistSwitcher({ session, currentPlaylistId }: PlaylistSwitcherProps) {
+  const { data } = useOwnerPlaylists(session)
+  const setSelectedPlaylistId = usePlaylistStore(state => state.setSelectedPlaylistId)
+  const { mutate: createPlaylist, isPending: isCreating } = useCreatePlaylist()
+  const { mutate: archivePlaylist, isPending: isArchiving } = useArchivePlaylist()
+  const { addToast } = useToast()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+
+  const playlists = data?.playlists || []
+  const ownPlaylists = playlists.filter(playlist => !playlist.isCoOwned)
+  const currentPlaylist = playlists.find(playlist => playlist.id === currentPlaylistId)
+  const canCreate = ownPlaylists.length < PLAYLIST_CONFIG.maxActivePlaylists
+  // Owners can't archive their only playlist, and co-owners can't archive someone else's
+  const canArchive = ownPlaylists.length > 1 && !!currentPlaylist && !currentPlaylist.isCoOwned
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+
+    createPlaylist(
+      { name: newName },
+      {
+        onSuccess: (playlist) => {
+          setNewName('')
+          setIsCreateOpen(false)
+          addToast({
+            type: 'success',
+            title: 'Playlist Created',
+            message: `"${playlist.name}" is ready with its own sharing link.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Create Failed',
+            message: error instanceof Error ? error.message : 'Failed to create playlist'
+          })
+        }
+      }
+    )
+  }
+
+  const handleArchive = () => {
+    const name = currentPlaylist?.name || 'this playlist'
+    if (!window.confirm(`Archive "${name}"? Its sharing links will stop working, but the playlist stays in your Spotify library.`)) return
+
+    archivePlaylist(
+      { playlistId: currentPlaylistId },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Playlist Archived',
+            message: `"${name}" was archived.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Archive Failed',
+            message: error instanceof Error ? error.message : 'Failed to archive playlist'
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="playlist-switcher" className="text-sm font-medium text-gray-700">Playlist</label>
+          <select
+            id="playlist-switcher"
+            value={currentPlaylistId}
+            onChange={event => setSelectedPlaylistId(event.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm"
+          >
+            {/* Keep the current playlist selectable while the list loads */}
+            {!currentPlaylist && <option value={currentPlaylistId}>Current playlist</option>}
+            {playlists.map(playlist => (
+              <option key={playlist.id} value={playlist.id}>
+                {playlist.name} ({playlist.trackCount} song{playlist.trackCount !== 1 ? 's' : ''}){playlist.isCoOwned ? ' · shared with you' : ''}
+              </option>
+            ))}
+          </select>
+          {canCreate && (
+            <button
+              type="button"
+              onClick={() => setIsCreateOpen(open => !open)}
+              className="px-3 py-1 text-sm text-green-700 border border-green-700 rounded-md hover:cursor-pointer"
+            >
+              New Playlist
+            </button>
+          )}
+          {canArchive && (
+            <LoadingButton
+              onClick={handleArchive}
+              isLoading={isArchiving}
+              loadingText="Archiving..."
+              className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded-md bg-white hover:cursor-pointer"
+            >
+              Archive
+            </LoadingButton>
+          )}
+        </div>
+
+        {isCreateOpen && (
+          <form onSubmit={handleCreate} className="mt-4 flex space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              maxLength={PLAYLIST_CONFIG.maxNameLength}
+              placeholder='Name, e.g. "Road trip"'
+              aria-label="New playlist name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            />
+            <LoadingButton
+              type="submit"
+              isLoading={isCreating}
+              loadingText="Creating..."
+              className="px-3 py-2 bg-green-700 text-white rounded-md text-sm hover:cursor-pointer"
+            >
+              Create
+            </LoadingButton>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Prompt shown when the owner's SMAS playlist was deleted on Spotify.
+ *
+ * Offers to recreate the playlist with every song friends have contributed. Sharing links keep working.
+ */
+'use client'
+
+import { Card, CardHeader, CardContent, LoadingButton, useToast } from '@/components/ui'
+import { useRecreatePlaylist } from '@/hooks/use-spotify-queries'
+
+interface RecreatePlaylistPromptProps {
+  playlistId: string
+}
+
+/**
+ * @description Renders the "Recreate your SMAS playlist?" prompt.
+ * @param {RecreatePlaylistPromptProps} props - Component props.
+ * @returns {JSX.Element} The recreate playlist prompt.
+ */
+export function RecreatePlaylistPrompt({ playlistId }: RecreatePlaylistPromptProps) {
+  const { mutate: recreatePlaylist, isPending } = useRecreatePlaylist()
+  const { addToast } = useToast()
+
+  const handleRecreate = () => {
+    recreatePlaylist(
+      { playlistId },
+      {
+        onSuccess: (result) => {
+          addToast({
+            type: 'success',
+            title: 'Playlist Recreated',
+            message: `Your SMAS playlist is back with ${result.trackCount} song${result.trackCount !== 1 ? 's' : ''}.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Recreate Failed',
+            message: error instanceof Error ? error.message : 'Failed to recreate playlist'
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card className="mb-6 border border-yellow-300">
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-gray-800">Recreate your SMAS playlist?</h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-600 mb-4">
+          Your SMAS playlist was deleted on Spotify. Recreate it to bring back every song your friends have sent.
+          Your sharing links will keep working, and friends can&apos;t add songs until it&apos;s back.
+        </p>
+        <LoadingButton
+          onClick={handleRecreate}
+          isLoading={isPending}
+          loadingText="Recreating..."
+          className="px-4 py-2 bg-green-700 text-white rounded-md hover:cursor-pointer"
+        >
+          Recreate Playlist
+        </LoadingButton>
+      </CardContent>
+    </Card>
+  )
+}
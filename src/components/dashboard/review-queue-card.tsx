@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Review queue card - contributions held back for the owner's approval.
+ *
+ * Contributions land here when they looked like spam, or when the playlist is in approval mode. Lists each held
+ * contribution's songs and any spam signals, so the owner can add them to the playlist or turn them down. Hidden when
+ * nothing is waiting.
+ */
+'use client'
+
+import Image from 'next/image'
+import { format } from 'date-fns'
+import { Card, CardHeader, CardContent, Button, useToast } from '@/components/ui'
+import { useReviewQueue, useReviewContribution } from '@/hooks/use-spotify-queries'
+import type { SpamReason } from '@/types/firebase'
+
+interface ReviewQueueCardProps {
+  playlistId: string
+  requiresApproval?: boolean // The playlist holds every contribution, not just suspicious ones
+}
+
+/**
+ * @description Describes why a contribution was held, for the owner.
+ * @param {SpamReason} reason - The spam signal.
+ * @returns {string} A short description.
+ */
+function describeSpamReason(reason: SpamReason): string {
+  switch (reason) {
+    case 'new_account':
+      return 'New to SMAS'
+    case 'cross_playlist_burst':
+      return 'Sent songs to many playlists in the last hour'
+    case 'repeated_track_set':
+      return 'Sent the same songs to many playlists'
+    case 'link_burst':
+      return 'Arrived in a burst of contributions through this link'
+  }
+}
+
+/**
+ * @description Renders the playlist's held contributions with approve and reject actions.
+ * @param {ReviewQueueCardProps} props - Component props.
+ * @returns {JSX.Element | null} The review queue card, or null when nothing is waiting.
+ */
+export function ReviewQueueCard({ playlistId, requiresApproval }: ReviewQueueCardProps) {
+  const { data } = useReviewQueue(playlistId)
+  const { mutate: reviewContribution, isPending: isReviewing } = useReviewContribution()
+  const { addToast } = useToast()
+
+  const contributions = data?.contributions || []
+  if (contributions.length === 0) return null
+
+  const handleReview = (contributionId: string, contributorName: string, decision: 'approve' | 'reject') => {
+    reviewContribution(
+      { playlistId, contributionId, decision },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: decision === 'approve' ? 'Songs Added' : 'Songs Declined',
+            message: decision === 'approve'
+              ? `${contributorName}'s songs were added to your playlist.`
+              : `${contributorName}'s songs won't be added.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Review Failed',
+            message: error instanceof Error ? error.message : 'Failed to review contribution'
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-800">Waiting for Review</h3>
+        <p className="text-sm text-gray-600">
+          {requiresApproval
+            ? 'Songs from friends wait here until you add them.'
+            : <>These songs looked unusual, so they weren&apos;t added yet.</>}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-6">
+          {contributions.map(contribution => (
+            <li key={contribution.id}>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm font-medium text-gray-900">{contribution.contributorName}</p>
+                <span className="text-xs text-gray-500">{format(new Date(contribution.createdAt), 'MMM d')}</span>
+              </div>
+              {contribution.spamReasons.length > 0 && (
+                <p className="text-xs text-amber-700 mb-2">{contribution.spamReasons.map(describeSpamReason).join(' · ')}</p>
+              )}
+              <ul className="space-y-2 mb-3">
+                {contribution.tracks.map(track => (
+                  <li key={track.uri} className="flex items-center gap-3">
+                    {track.imageUrl && (
+                      <Image src={track.imageUrl} alt={`${track.name} cover`} className="w-10 h-10 rounded object-cover" loading="lazy" width={40} height={40} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{track.name}</p>
+                      <p className="text-xs text-gray-500 truncate">{track.artist}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={isReviewing}
+                  onClick={() => handleReview(contribution.id, contribution.contributorName, 'approve')}
+                  aria-label={`Add songs from ${contribution.contributorName}`}
+                >
+                  Add to playlist
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  disabled={isReviewing}
+                  onClick={() => handleReview(contribution.id, contribution.contributorName, 'reject')}
+                  aria-label={`Decline songs from ${contribution.contributorName}`}
+                >
+                  Decline
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Co-owners card for group playlists.
+ *
+ * The primary owner adds friends who have signed in to SMAS by their Spotify username, so they can share their own
+ * links and moderate contributions. Co-owners see who else owns the playlist and can leave it. Owners who signed in
+ * before co-owners existed are asked to sign in again, to grant the scopes a private playlist needs.
+ */
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { signIn } from 'next-auth/react'
+import { Card, CardHeader, CardContent, LoadingButton, useToast } from '@/components/ui'
+import { useSMASPlaylist, useAddCoOwner, useRemoveCoOwner } from '@/hooks/use-spotify-queries'
+import { PLAYLIST_CONFIG } from '@/lib/constants'
+import { usePlaylistStore } from '@/stores/playlist-store'
+import type { Session } from 'next-auth'
+
+interface CoOwnersCardProps {
+  session: Session
+}
+
+/**
+ * @description Renders the playlist's co-owners with add, remove, and leave actions.
+ * @param {CoOwnersCardProps} props - Component props.
+ * @returns {JSX.Element | null} The co-owners card, or null until the playlist has loaded.
+ */
+export function CoOwnersCard({ session }: CoOwnersCardProps) {
+  const { data: playlist } = useSMASPlaylist(session)
+  const setSelectedPlaylistId = usePlaylistStore(state => state.setSelectedPlaylistId)
+  const { mutate: addCoOwner, isPending: isAdding } = useAddCoOwner()
+  const { mutate: removeCoOwner, isPending: isRemoving } = useRemoveCoOwner()
+  const { addToast } = useToast()
+  const [spotifyUserId, setSpotifyUserId] = useState('')
+
+  if (!playlist?.firestoreId) return null
+  const playlistId: string = playlist.firestoreId
+  const coOwnerIds: string[] = playlist.coOwnerIds || []
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault()
+    if (!spotifyUserId.trim()) return
+    if (coOwnerIds.length === 0 && !window.confirm(
+      `Adding a co-owner makes "${playlist.name}" a collaborative playlist on Spotify, which Spotify keeps private. ` +
+      'It will no longer show on your Spotify profile. Your sharing links keep working. Continue?'
+    )) return
+
+    addCoOwner(
+      { playlistId, spotifyUserId: spotifyUserId.trim() },
+      {
+        onSuccess: () => {
+          setSpotifyUserId('')
+          addToast({
+            type: 'success',
+            title: 'Co-owner Added',
+            message: 'They can now share their own link and moderate contributions.'
+          })
+        },
+        onError: (error) => {
+          if ((error as any).reauthRequired) {
+            if (window.confirm(`${error.message}. Sign in now?`)) {
+              signIn('spotify', { callbackUrl: window.location.href })
+            }
+            return
+          }
+          addToast({
+            type: 'error',
+            title: 'Add Failed',
+            message: error instanceof Error ? error.message : 'Failed to add co-owner'
+          })
+        }
+      }
+    )
+  }
+
+  const handleRemove = (coOwnerId: string) => {
+    const isLeaving = coOwnerId === 'me'
+    const prompt = isLeaving
+      ? `Leave "${playlist.name}"? You won't be able to manage its links or contributions anymore.`
+      : `Remove ${coOwnerId} as a co-owner?`
+    if (!window.confirm(prompt)) return
+
+    removeCoOwner(
+      { playlistId, spotifyUserId: coOwnerId },
+      {
+        onSuccess: () => {
+          if (isLeaving) {
+            setSelectedPlaylistId(null)
+          }
+          addToast({
+            type: 'success',
+            title: isLeaving ? 'Left Playlist' : 'Co-owner Removed',
+            message: isLeaving ? `You're no longer a co-owner of "${playlist.name}".` : `${coOwnerId} was removed.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Remove Failed',
+            message: error instanceof Error ? error.message : 'Failed to remove co-owner'
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-gray-800">Co-owners</h2>
+        <p className="text-sm text-gray-600">Co-owners share their own links into this playlist and can remove songs.</p>
+      </CardHeader>
+      <CardContent>
+        {coOwnerIds.length === 0 ? (
+          <p className="text-sm text-gray-500">No co-owners yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {coOwnerIds.map(coOwnerId => (
+              <li key={coOwnerId} className="flex items-center justify-between text-sm text-gray-700">
+                <span>{coOwnerId}</span>
+                {!playlist.isCoOwned && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(coOwnerId)}
+                    disabled={isRemoving}
+                    className="text-red-600 hover:cursor-pointer"
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {playlist.isCoOwned ? (
+          <LoadingButton
+            onClick={() => handleRemove('me')}
+            isLoading={isRemoving}
+            loadingText="Leaving..."
+            className="mt-4 px-3 py-2 text-sm text-red-600 border border-red-300 rounded-md bg-white hover:cursor-pointer"
+          >
+            Leave Playlist
+          </LoadingButton>
+        ) : coOwnerIds.length < PLAYLIST_CONFIG.maxCoOwners && (
+          <form onSubmit={handleAdd} className="mt-4 space-y-2">
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={spotifyUserId}
+                onChange={event => setSpotifyUserId(event.target.value)}
+                placeholder="Friend's Spotify username"
+                aria-label="Co-owner Spotify username"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                required
+              />
+              <LoadingButton
+                type="submit"
+                isLoading={isAdding}
+                loadingText="Adding..."
+                className="px-3 py-2 bg-green-700 text-white rounded-md text-sm hover:cursor-pointer"
+              >
+                Add
+              </LoadingButton>
+            </div>
+            {coOwnerIds.length === 0 && (
+              <p className="text-xs text-gray-500">
+                Adding a co-owner makes the Spotify playlist collaborative, which Spotify keeps private. It will no longer
+                show on your Spotify profile.
+              </p>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,21 +1,24 @@
 /**
  * @fileoverview Playlist card component for displaying user's SMAS playlist.
  *
- * Shows playlist songs with contributor attribution and management options.
+ * Shows playlist songs with contributor attribution and management options. Attribution comes from the playlists
+ * API, which stores who added each track, so the contributor filter matches songs by contributor ID.
  */
 'use client'
 
-import { Card, CardHeader, CardContent, LoadingState } from '@/components/ui'
+import { Card, CardHeader, CardContent, LoadingState, Button, useToast } from '@/components/ui'
 import { SongItem } from './song-item'
 import { useState, useMemo } from 'react'
 import { type Contribution } from '@/types/firebase'
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from '@/components/ui/dropdown-menu'
 import { format } from 'date-fns'
-import { useSMASPlaylist } from '@/hooks/use-spotify-queries'
+import { useSMASPlaylist, useRemoveContribution } from '@/hooks/use-spotify-queries'
 import { toDate } from '@/lib/utils';
 import { Song } from '@/stores/playlist-store'
 import type { Session } from 'next-auth'
 
+const SONGS_PAGE_SIZE = 20
+
 interface PlaylistCardProps {
   contributions: Contribution[]
   session: Session
@@ -29,40 +32,32 @@ interface PlaylistCardProps {
  */
 export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
   const { data: playlist, isLoading } = useSMASPlaylist(session)
-
-  // Build a map from track ID to contributor name
-  const trackIdToContributor: Record<string, string> = useMemo(() => {
-    const map: Record<string, string> = {};
-    contributions.forEach(contribution => {
-      contribution.spotifyTrackUris.forEach(uri => {
-        const match = uri.match(/^spotify:track:(.+)$/);
-        if (match) {
-          map[match[1]] = contribution.contributorName;
-        }
-      });
-    });
-    return map;
-  }, [contributions]);
+  const { mutate: removeContribution, isPending: isRemoving } = useRemoveContribution()
+  const { addToast } = useToast()
 
   const [selectedContributor, setSelectedContributor] = useState<string | null>(null)
+  const [visibleSongCount, setVisibleSongCount] = useState(SONGS_PAGE_SIZE)
 
-  // Filtered songs from Spotify playlist
-  const filteredSongs = useMemo(() => {
+  // Songs come from the API already credited to the friend who added them
+  const filteredSongs: Song[] = useMemo(() => {
     if (!playlist?.songs) return [];
-    let songs = playlist.songs.map((song: { id: string | number }) => ({
-      ...song,
-      contributorName: trackIdToContributor[song.id],
-    }));
-    if (selectedContributor) {
-      songs = songs.filter((song: { contributorName: string }) => song.contributorName === selectedContributor);
-    }
-    return songs;
-  }, [playlist, trackIdToContributor, selectedContributor]);
+    if (!selectedContributor) return playlist.songs;
+    return playlist.songs.filter((song: Song) => song.contributorId === selectedContributor);
+  }, [playlist, selectedContributor]);
+
+  const visibleSongs = filteredSongs.slice(0, visibleSongCount)
+  const remainingSongCount = filteredSongs.length - visibleSongs.length
+
+  const handleSelectContributor = (contributorId: string | null) => {
+    setSelectedContributor(contributorId)
+    setVisibleSongCount(SONGS_PAGE_SIZE)
+  }
 
   // Build unique contributors list from contributions
   const contributors = useMemo(() => {
     const contributionList = contributions.map(c => ({
       id: c.contributorId,
+      contributionId: c.id,
       name: c.contributorName,
       date: c.createdAt,
     }))
@@ -70,6 +65,46 @@ export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
     return [...contributionList];
   }, [contributions]);
 
+  // One filter option per friend, however many times they contributed
+  const filterContributors = useMemo(() => {
+    const seen = new Set<string>()
+    return contributors.filter(contributor => {
+      if (seen.has(contributor.id)) return false
+      seen.add(contributor.id)
+      return true
+    })
+  }, [contributors]);
+
+  const handleRemove = (contributionId: string, contributorName: string, shouldBlock: boolean) => {
+    if (!playlist?.firestoreId) return
+    const prompt = shouldBlock
+      ? `Remove ${contributorName}'s songs and block them from contributing again?`
+      : `Remove ${contributorName}'s songs from your playlist?`
+    if (!window.confirm(prompt)) return
+
+    removeContribution(
+      { playlistId: playlist.firestoreId, contributionId, shouldBlock },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Songs Removed',
+            message: shouldBlock
+              ? `${contributorName}'s songs were removed and they can no longer contribute.`
+              : `${contributorName}'s songs were removed from your playlist.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Removal Failed',
+            message: error instanceof Error ? error.message : 'Failed to remove songs'
+          })
+        }
+      }
+    )
+  }
+
   if (isLoading) {
     return (
       <Card>
@@ -95,7 +130,7 @@ export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-gray-800">SMAS Playlist</h2>
+          <h2 className="text-xl font-semibold text-gray-800">{playlist.name || 'SMAS Playlist'}</h2>
           <span className="text-sm text-gray-500">{filteredSongs.length} songs</span>
         </div>
       </CardHeader>
@@ -115,13 +150,13 @@ export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
               </button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="start">
-              <DropdownMenuItem onSelect={() => setSelectedContributor(null)}>
+              <DropdownMenuItem onSelect={() => handleSelectContributor(null)}>
                 All contributors
               </DropdownMenuItem>
-              {contributors.map(contributor => (
+              {filterContributors.map(contributor => (
                 <DropdownMenuItem
                   key={contributor.id}
-                  onSelect={() => setSelectedContributor(contributor.id)}
+                  onSelect={() => handleSelectContributor(contributor.id)}
                 >
                   {contributor.name}
                 </DropdownMenuItem>
@@ -146,9 +181,20 @@ export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
           </div>
         ) : (
           <div className="space-y-3">
-            {filteredSongs.map((song: Song) => (
+            {visibleSongs.map((song: Song) => (
               <SongItem key={song.id} song={song} />
             ))}
+            {remainingSongCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => setVisibleSongCount(count => count + SONGS_PAGE_SIZE)}
+                aria-label="Load more songs"
+              >
+                Load more ({remainingSongCount} remaining)
+              </Button>
+            )}
           </div>
         )}
 
@@ -160,7 +206,7 @@ export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
               <span className="text-xs text-gray-500">No contributors yet.</span>
             ) : (
               contributors.map(contributor => (
-                <div key={contributor.id} className="flex items-center gap-2">
+                <div key={contributor.contributionId} className="flex items-center gap-2">
                   <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
                     {contributor.name}
                   </span>
@@ -169,6 +215,27 @@ export function PlaylistCard({ contributions, session }: PlaylistCardProps) {
                       {format(toDate(contributor.date), 'MMM d')}
                     </span>
                   )}
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isRemoving}
+                      onClick={() => handleRemove(contributor.contributionId, contributor.name, false)}
+                      aria-label={`Remove songs from ${contributor.name}`}
+                    >
+                      Remove songs
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      disabled={isRemoving}
+                      onClick={() => handleRemove(contributor.contributionId, contributor.name, true)}
+                      aria-label={`Remove songs from ${contributor.name} and block`}
+                    >
+                      Remove &amp; block
+                    </Button>
+                  </div>
                 </div>
               ))
             )}
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Playlist details card for renaming the playlist, editing its description, and uploading a cover.
+ *
+ * Changes are saved to both Spotify and Firestore by the playlist API routes.
+ */
+'use client'
+
+import { useEffect, useState, type ChangeEvent, type FormEvent } from 'react'
+import { Card, CardHeader, CardContent, LoadingButton, useToast } from '@/components/ui'
+import { useSMASPlaylist, useUpdatePlaylistSettings, useUploadPlaylistCover } from '@/hooks/use-spotify-queries'
+import { PLAYLIST_CONFIG } from '@/lib/constants'
+import type { Session } from 'next-auth'
+
+interface PlaylistDetailsCardProps {
+  session: Session
+}
+
+/**
+ * @description Renders the form for customizing the playlist's name, description, and cover.
+ * @param {PlaylistDetailsCardProps} props - Component props.
+ * @returns {JSX.Element | null} The playlist details card, or null until the playlist has loaded or for co-owners.
+ */
+export function PlaylistDetailsCard({ session }: PlaylistDetailsCardProps) {
+  const { data: playlist } = useSMASPlaylist(session)
+  const { mutate: updateSettings, isPending: isSaving } = useUpdatePlaylistSettings()
+  const { mutate: uploadCover, isPending: isUploading } = useUploadPlaylistCover()
+  const { addToast } = useToast()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [cover, setCover] = useState<File | null>(null)
+
+  // Start from the saved details, and pick up changes saved elsewhere
+  useEffect(() => {
+    setName(playlist?.name || '')
+    setDescription(playlist?.description || '')
+  }, [playlist?.name, playlist?.description])
+
+  // Only the primary owner can change the Spotify playlist's details
+  if (!playlist?.firestoreId || playlist.isCoOwned) return null
+  const playlistId: string = playlist.firestoreId
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+
+    updateSettings(
+      { playlistId, name, description },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Playlist Updated',
+            message: 'Your playlist details were saved to Spotify.'
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Update Failed',
+            message: error instanceof Error ? error.message : 'Failed to update playlist'
+          })
+        }
+      }
+    )
+  }
+
+  const handleCoverChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null
+    if (file && file.size > PLAYLIST_CONFIG.maxCoverUploadBytes) {
+      addToast({
+        type: 'error',
+        title: 'Image Too Large',
+        message: `Choose a JPEG under ${PLAYLIST_CONFIG.maxCoverUploadBytes / (1024 * 1024)}MB.`
+      })
+      event.target.value = ''
+      return
+    }
+    setCover(file)
+  }
+
+  const handleUpload = () => {
+    if (!cover) return
+
+    uploadCover(
+      { playlistId, cover },
+      {
+        onSuccess: () => {
+          setCover(null)
+          addToast({
+            type: 'success',
+            title: 'Cover Uploaded',
+            message: 'Spotify may take a moment to show your new cover.'
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Upload Failed',
+            message: error instanceof Error ? error.message : 'Failed to upload cover'
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-gray-800">Customize Playlist</h2>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-3">
+          <div>
+            <label htmlFor="playlist-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              id="playlist-name"
+              type="text"
+              value={name}
+              onChange={event => setName(event.target.value)}
+              maxLength={PLAYLIST_CONFIG.maxNameLength}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="playlist-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              id="playlist-description"
+              value={description}
+              onChange={event => setDescription(event.target.value)}
+              maxLength={PLAYLIST_CONFIG.maxDescriptionLength}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <LoadingButton type="submit" isLoading={isSaving} loadingText="Saving..." className="px-3 py-2 bg-green-700 text-white rounded-md text-sm hover:cursor-pointer">
+            Save Details
+          </LoadingButton>
+        </form>
+
+        <div className="mt-6 pt-4 border-t border-gray-200 space-y-2">
+          <label htmlFor="playlist-cover" className="block text-sm font-medium text-gray-700">Cover image (JPEG)</label>
+          <input
+            id="playlist-cover"
+            type="file"
+            accept="image/jpeg"
+            onChange={handleCoverChange}
+            className="block w-full text-sm text-gray-600"
+          />
+          <p className="text-xs text-gray-500">We&apos;ll crop it to a square and shrink it to fit Spotify&apos;s limits.</p>
+          <LoadingButton
+            onClick={handleUpload}
+            isLoading={isUploading}
+            loadingText="Uploading..."
+            disabled={!cover || isUploading}
+            className="px-3 py-2 bg-green-700 text-white rounded-md text-sm hover:cursor-pointer"
+          >
+            Upload Cover
+          </LoadingButton>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -6,11 +6,22 @@
 import { useState } from 'react'
 import { type Song } from '@/stores/playlist-store'
 import Image from 'next/image'
+import { format } from 'date-fns'
 
 interface SongItemProps {
   song: Song
 }
 
+/**
+ * @description Describes when a contributed song was added and through which link.
+ * @param {Song} song - The contributed song.
+ * @returns {string} The description, e.g. "Added Mar 1, 2025 via Group chat".
+ */
+function getAttributionTitle(song: Song): string {
+  const added = song.addedAt ? `Added ${format(new Date(song.addedAt), 'MMM d, yyyy')}` : 'Added'
+  return song.linkLabel ? `${added} via ${song.linkLabel}` : added
+}
+
 /**
  * @description Renders a single song item with metadata and contributor information.
  * @param {SongItemProps} props - Props containing the song data.
@@ -59,7 +70,10 @@ export function SongItem({ song }: SongItemProps) {
       </div>
 
       {song.contributorName && (
-        <span className="ml-2 px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
+        <span
+          className="ml-2 px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full"
+          title={getAttributionTitle(song)}
+        >
           {song.contributorName}
         </span>
       )}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Contribution success card - shown on the share page once the visitor's songs were sent.
+ *
+ * Lists the songs that were added and the ones skipped as duplicates. Songs held for the owner's review are listed
+ * as waiting instead, and the send-back offer only appears once songs are actually in the playlist.
+ */
+'use client'
+
+import { Card, CardHeader, CardContent } from '@/components/ui'
+import { SongItem } from '@/components/playlist/song-item'
+import { SendBackPanel } from '@/components/sharing/send-back-panel'
+import type { Song } from '@/stores/playlist-store'
+import type { Session } from 'next-auth'
+
+interface ContributionSuccessCardProps {
+  linkSlug: string
+  ownerName: string
+  session: Session
+  successTracks?: Song[]
+  skippedTracks?: Song[]
+  isPendingReview: boolean // The songs are waiting for the owner's approval
+}
+
+/**
+ * @description Renders the result of a contribution.
+ * @param {ContributionSuccessCardProps} props - Component props.
+ * @returns {JSX.Element} The contribution success card.
+ */
+export function ContributionSuccessCard({
+  linkSlug,
+  ownerName,
+  session,
+  successTracks,
+  skippedTracks,
+  isPendingReview,
+}: ContributionSuccessCardProps) {
+  return (
+    <div className="flex justify-center text-center mt-12 bg-green-50">
+      <Card className='lg:w-3xl'>
+        <CardHeader>
+          <h2 className="text-xl font-semibold text-green-700 mb-4">
+            {isPendingReview ? 'Your Songs Are Waiting for Approval' : 'Success! Your Songs Have Been Added'}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            <p className="text-gray-700 mb-4">
+              {isPendingReview
+                ? <>{ownerName} will check your songs before they&apos;re added to the playlist.</>
+                : <>You&apos;ve just sent your top songs to {ownerName}&apos;s playlist! 🎶</>}
+            </p>
+
+            {successTracks && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-800">{isPendingReview ? 'Songs Sent:' : 'Songs Added:'}</h3>
+                {successTracks.map((song: Song) => (
+                  <SongItem key={song.id} song={song} />
+                ))}
+              </div>
+            )}
+
+            {skippedTracks && skippedTracks.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-800">Already in the Playlist (Skipped):</h3>
+                {skippedTracks.map((song: Song) => (
+                  <SongItem key={song.id} song={song} />
+                ))}
+              </div>
+            )}
+
+            {!isPendingReview && <SendBackPanel linkSlug={linkSlug} ownerName={ownerName} session={session} />}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Friend match preview for the share page.
+ *
+ * Shows a signed-in visitor how similar their listening is to the link owner's, with the artists and genres they
+ * share, before they pick songs to send.
+ */
+'use client'
+
+import { useFriendMatch } from '@/hooks/use-spotify-queries'
+
+interface FriendMatchCardProps {
+  linkSlug: string
+  ownerName: string
+}
+
+/**
+ * @description Describes a match score in a few words.
+ * @param {number} score - Match score from 0 to 100.
+ * @returns {string} The description.
+ */
+function describeScore(score: number): string {
+  if (score >= 70) return 'Music soulmates'
+  if (score >= 40) return 'Lots in common'
+  if (score >= 15) return 'Some overlap'
+  return 'Fresh ears for each other'
+}
+
+/**
+ * @description Renders the visitor's match score with the link owner. Renders nothing while loading or if the
+ * match isn't available, so it never blocks contributing.
+ * @param {FriendMatchCardProps} props - Component props.
+ * @returns {JSX.Element | null} The friend match preview.
+ */
+export function FriendMatchCard({ linkSlug, ownerName }: FriendMatchCardProps) {
+  const { data: match } = useFriendMatch(linkSlug, true)
+
+  if (!match) return null
+
+  return (
+    <div className="p-4 bg-white border border-green-200 rounded-md space-y-2" aria-label="Friend match">
+      <p className="text-gray-800">
+        You and {ownerName} are a <span className="text-2xl font-semibold text-green-700">{match.score}%</span> match
+      </p>
+      <p className="text-sm text-gray-600">{describeScore(match.score)}</p>
+      {match.sharedArtists.length > 0 && (
+        <p className="text-sm text-gray-600">You both love {match.sharedArtists.join(', ')}</p>
+      )}
+      {match.sharedGenres.length > 0 && (
+        <p className="text-sm text-gray-600">Shared genres: {match.sharedGenres.join(', ')}</p>
+      )}
+      {match.sharedTrackCount > 0 && (
+        <p className="text-sm text-gray-600">
+          {match.sharedTrackCount} of your top songs {match.sharedTrackCount === 1 ? 'is' : 'are'} on their list too
+        </p>
+      )}
+    </div>
+  )
+}
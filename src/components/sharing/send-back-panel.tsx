@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Send-back panel shown after a successful contribution.
+ *
+ * Visitors who already have a SMAS playlist get the owner's top songs added to it in one click. Everyone else gets
+ * their own playlist and sharing link created on the spot, with a ready-made message to send the owner so they can
+ * contribute back.
+ */
+'use client'
+
+import { useState } from 'react'
+import { Button, LoadingButton, useToast } from '@/components/ui'
+import { useOwnerPlaylists, useSendBack, type SendBackResult } from '@/hooks/use-spotify-queries'
+import type { Session } from 'next-auth'
+
+interface SendBackPanelProps {
+  linkSlug: string
+  ownerName: string
+  session: Session
+}
+
+/**
+ * @description Renders the reciprocal "send songs back" action and its outcome.
+ * @param {SendBackPanelProps} props - Component props.
+ * @returns {JSX.Element} The send-back panel.
+ */
+export function SendBackPanel({ linkSlug, ownerName, session }: SendBackPanelProps) {
+  const { data, isLoading: isLoadingPlaylists } = useOwnerPlaylists(session)
+  const { mutate: sendBack, isPending } = useSendBack()
+  const { addToast } = useToast()
+  const [result, setResult] = useState<SendBackResult | null>(null)
+  const [hasCopied, setHasCopied] = useState(false)
+
+  const hasPlaylist = (data?.playlists || []).some(playlist => !playlist.isCoOwned)
+
+  const handleSendBack = () => {
+    sendBack(
+      { linkSlug },
+      {
+        onSuccess: (sendBackResult) => {
+          setResult(sendBackResult)
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Send Back Failed',
+            message: error instanceof Error ? error.message : 'Failed to send songs back'
+          })
+        }
+      }
+    )
+  }
+
+  if (result?.mode === 'added') {
+    return (
+      <p className="text-gray-700">
+        {result.addedCount > 0
+          ? `Added ${result.addedCount} of ${ownerName}'s top song${result.addedCount !== 1 ? 's' : ''} to "${result.playlistName}"! 🎧`
+          : `${ownerName}'s top songs are already in "${result.playlistName}".`}
+      </p>
+    )
+  }
+
+  if (result?.mode === 'created') {
+    const message = `I just sent you some songs on SMAS! Send me yours back: ${result.shareLink}`
+
+    const handleCopy = async () => {
+      try {
+        await navigator.clipboard.writeText(message)
+        setHasCopied(true)
+        setTimeout(() => setHasCopied(false), 2000)
+      } catch (error) {
+        console.warn(error)
+        addToast({
+          type: 'error',
+          title: 'Copy Failed',
+          message: 'Failed to copy message. Please try again.'
+        })
+      }
+    }
+
+    return (
+      <div className="space-y-3">
+        <p className="text-gray-700">
+          Your playlist &quot;{result.playlistName}&quot; is ready, and {ownerName} will see your link next to your songs.
+          Send them this message too:
+        </p>
+        <p className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-800 break-all">{message}</p>
+        <div className="flex gap-3 justify-center">
+          <Button onClick={handleCopy} aria-label="Copy message">
+            {hasCopied ? 'Copied!' : 'Copy Message'}
+          </Button>
+          <Button onClick={() => window.location.assign('/dashboard')} aria-label="Go to your dashboard">
+            Go to Dashboard
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-gray-600">
+        Want their favorite tracks back in your own playlist?
+      </p>
+      <div className="flex gap-3 justify-center">
+        <LoadingButton
+          onClick={handleSendBack}
+          isLoading={isPending}
+          loadingText={hasPlaylist ? 'Adding...' : 'Creating...'}
+          disabled={isLoadingPlaylists || isPending}
+          className="px-4 py-2 bg-green-700 text-white rounded-md hover:cursor-pointer"
+        >
+          {hasPlaylist ? `Add ${ownerName}'s Top Songs to My Playlist` : `Create My SMAS & Send ${ownerName} My Link`}
+        </LoadingButton>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,16 @@
 /**
  * @fileoverview Share link card component for displaying sharing functionality.
  *
- * Shows the user's unique sharing link with copy-to-clipboard functionality.
+ * Shows the user's unique sharing link with copy-to-clipboard functionality and the contribution cooldown, max songs
+ * and approval settings, which only the playlist's primary owner can change.
  */
 'use client'
 
-import { useState } from 'react'
+import { useState, type ChangeEvent } from 'react'
 import { Card, CardHeader, CardContent, Button, LoadingState, useToast } from '@/components/ui'
-import { useSMASPlaylist } from '@/hooks/use-spotify-queries'
+import { useSMASPlaylist, useUpdatePlaylistSettings } from '@/hooks/use-spotify-queries'
+import { CONTRIBUTION_CONFIG } from '@/lib/constants'
+import { formatCooldown } from '@/lib/utils'
 import type { Session } from 'next-auth'
 
 interface ShareLinkCardProps {
@@ -21,9 +24,90 @@ interface ShareLinkCardProps {
  */
 export function ShareLinkCard({ session }: ShareLinkCardProps) {
   const { data: playlist, isLoading } = useSMASPlaylist(session)
+  const { mutate: updateSettings, isPending: isUpdatingSettings } = useUpdatePlaylistSettings()
   const { addToast } = useToast()
   const [hasCopied, setHasCopied] = useState(false)
 
+  const cooldownDays: number = playlist?.contributionCooldownDays ?? CONTRIBUTION_CONFIG.defaultCooldownDays
+  const maxTracks: number = playlist?.maxTracksPerContribution ?? CONTRIBUTION_CONFIG.defaultMaxTracks
+
+  const handleCooldownChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    if (!playlist?.firestoreId) return
+    const contributionCooldownDays = Number(event.target.value)
+
+    updateSettings(
+      { playlistId: playlist.firestoreId, contributionCooldownDays },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Cooldown Updated',
+            message: `Friends can now contribute ${formatCooldown(contributionCooldownDays)}.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Update Failed',
+            message: error instanceof Error ? error.message : 'Failed to update cooldown'
+          })
+        }
+      }
+    )
+  }
+
+  const handleMaxTracksChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    if (!playlist?.firestoreId) return
+    const maxTracksPerContribution = Number(event.target.value)
+
+    updateSettings(
+      { playlistId: playlist.firestoreId, maxTracksPerContribution },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Limit Updated',
+            message: `Friends can now send up to ${maxTracksPerContribution} song${maxTracksPerContribution !== 1 ? 's' : ''} at a time.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Update Failed',
+            message: error instanceof Error ? error.message : 'Failed to update song limit'
+          })
+        }
+      }
+    )
+  }
+
+  const handleRequiresApprovalChange = (event: ChangeEvent<HTMLInputElement>) => {
+    if (!playlist?.firestoreId) return
+    const requiresApproval = event.target.checked
+
+    updateSettings(
+      { playlistId: playlist.firestoreId, requiresApproval },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Approval Updated',
+            message: requiresApproval
+              ? 'Friends\' songs will wait for your approval before they\'re added.'
+              : 'Friends\' songs will be added straight away.'
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Update Failed',
+            message: error instanceof Error ? error.message : 'Failed to update approval setting'
+          })
+        }
+      }
+    )
+  }
+
   const handleCopy = async () => {
     if (!playlist?.shareLink) return
 
@@ -98,15 +182,64 @@ export function ShareLinkCard({ session }: ShareLinkCardProps) {
             </h3>
             <ul className="text-sm text-green-700 space-y-1">
               <li>• Share this link with your friends</li>
-              <li>• They&apos;ll add their top 5 songs to your playlist</li>
+              <li>• They&apos;ll pick up to {maxTracks} of their favorite songs to add to your playlist</li>
+              {playlist.requiresApproval && <li>• Their songs wait in your review queue until you add them</li>}
               <li>• You can contribute back to their playlists too!</li>
             </ul>
           </div>
 
-          <div className="text-center">
-            <p className="text-sm text-gray-600">
-              Friends can contribute once every 4 weeks
-            </p>
+          <div className="flex items-center justify-center gap-2">
+            <label htmlFor="contribution-cooldown" className="text-sm text-gray-600">
+              Friends can contribute
+            </label>
+            <select
+              id="contribution-cooldown"
+              value={cooldownDays}
+              onChange={handleCooldownChange}
+              disabled={isUpdatingSettings || playlist.isCoOwned}
+              className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              {CONTRIBUTION_CONFIG.cooldownDayOptions.map(days => (
+                <option key={days} value={days}>{formatCooldown(days)}</option>
+              ))}
+              {!(CONTRIBUTION_CONFIG.cooldownDayOptions as readonly number[]).includes(cooldownDays) && (
+                <option value={cooldownDays}>{formatCooldown(cooldownDays)}</option>
+              )}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-center gap-2">
+            <label htmlFor="max-tracks-per-contribution" className="text-sm text-gray-600">
+              Max songs per friend
+            </label>
+            <select
+              id="max-tracks-per-contribution"
+              value={maxTracks}
+              onChange={handleMaxTracksChange}
+              disabled={isUpdatingSettings || playlist.isCoOwned}
+              className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              {CONTRIBUTION_CONFIG.maxTracksOptions.map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+              {!(CONTRIBUTION_CONFIG.maxTracksOptions as readonly number[]).includes(maxTracks) && (
+                <option value={maxTracks}>{maxTracks}</option>
+              )}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-center gap-2">
+            <input
+              id="requires-approval"
+              type="checkbox"
+              className="accent-green-700"
+              checked={playlist.requiresApproval ?? false}
+              onChange={handleRequiresApprovalChange}
+              disabled={isUpdatingSettings || playlist.isCoOwned}
+            />
+            <label htmlFor="requires-approval" className="text-sm text-gray-600">
+              Approve songs before they&apos;re added
+            </label>
           </div>
         </div>
       </CardContent>
@@ -8,8 +8,25 @@
 import React, { useEffect, useState } from 'react'
 import { Card, CardHeader, CardContent, Button, LoadingState, useToast, LoadingButton } from '@/components/ui'
 import { SongItem } from '@/components/playlist/song-item'
-import { useTopSongs, useContributeSongs, useSharingLink } from '@/hooks/use-spotify-queries'
+import { TrackPicker } from '@/components/sharing/track-picker'
+import { ContributionSuccessCard } from '@/components/sharing/contribution-success-card'
+import { FriendMatchCard } from '@/components/sharing/friend-match-card'
+import {
+  useTopSongs,
+  useContributeSongs,
+  useSharingLink,
+  useContributionEligibility,
+  useRecordSharingLinkEvent,
+  type TopSongsTimeRange,
+} from '@/hooks/use-spotify-queries'
+import { CONTRIBUTION_CONFIG } from '@/lib/constants'
+import { formatCooldown } from '@/lib/utils'
+import { format } from 'date-fns'
 import type { Song } from '@/stores/playlist-store'
+import type { SharingLinkUnavailableReason } from '@/types/firebase'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+const TOP_SONGS_TO_PICK_FROM = 10
 
 interface ShareLinkContributionPanelProps {
   linkSlug: string
@@ -26,23 +43,74 @@ export function ShareLinkContributionPanel({
 }: ShareLinkContributionPanelProps) {
   const { addToast } = useToast()
 
+  const [timeRange, setTimeRange] = useState<TopSongsTimeRange>('short_term')
+  const [selectedSongs, setSelectedSongs] = useState<Song[]>([])
+  const [hasDefaultSelection, setHasDefaultSelection] = useState(false)
+
   // TanStack Query hooks
-  const { data: topSongs, isLoading: isLoadingTopSongs } = useTopSongs()
+  const { data: topSongs, isLoading: isLoadingTopSongs } = useTopSongs(timeRange, TOP_SONGS_TO_PICK_FROM)
   const { mutate: contributeSongs, isPending: isContributing } = useContributeSongs()
   const { data: sharingLink, isLoading: isLoadingLink, error: linkError } = useSharingLink(linkSlug)
+  const { data: eligibility, isLoading: isLoadingEligibility } = useContributionEligibility(linkSlug, !!session?.user?.id)
+  const { mutate: recordLinkEvent } = useRecordSharingLinkEvent()
+
+  const maxTracks: number = sharingLink?.maxTracksPerContribution ?? CONTRIBUTION_CONFIG.defaultMaxTracks
 
   const [state, setState] = useState({
     isValid: false,
     ownerName: undefined as string | undefined,
     error: undefined as string | undefined,
     isSuccess: false,
+    isPendingReview: false,
     successTracks: undefined as Song[] | undefined,
+    skippedTracks: undefined as Song[] | undefined,
     cooldownDays: undefined as number | undefined,
     noTopTracks: false,
     allDuplicates: false,
     cooldownUntil: undefined as string | undefined,
+    isBlocked: false,
+    unavailableReason: undefined as SharingLinkUnavailableReason | undefined,
   })
 
+  /**
+   * @description Switches the panel to the cooldown screen for the given end date.
+   * @param {string} cooldownUntil - ISO date the visitor can contribute again.
+   */
+  const showCooldown = (cooldownUntil: string) => {
+    const until = new Date(cooldownUntil)
+    setState(s => ({
+      ...s,
+      cooldownDays: Math.max(1, Math.ceil((until.getTime() - Date.now()) / DAY_IN_MS)),
+      cooldownUntil: format(until, 'MMM d, yyyy'),
+    }))
+  }
+
+  // Pre-select the visitor's top songs once, up to the playlist's limit
+  useEffect(() => {
+    if (hasDefaultSelection || !sharingLink || !topSongs) return
+    setSelectedSongs(topSongs.slice(0, maxTracks))
+    setHasDefaultSelection(true)
+  }, [hasDefaultSelection, sharingLink, topSongs, maxTracks])
+
+  const handleToggleSong = (song: Song) => {
+    setSelectedSongs(songs => {
+      if (songs.some(selected => selected.id === song.id)) {
+        return songs.filter(selected => selected.id !== song.id)
+      }
+      return songs.length < maxTracks ? [...songs, song] : songs
+    })
+  }
+
+  // Show the cooldown or blocked screen before the visitor tries to contribute
+  useEffect(() => {
+    if (!eligibility || eligibility.canContribute) return
+    if (eligibility.reason === 'blocked') {
+      setState(s => ({ ...s, isBlocked: true }))
+    } else if (eligibility.cooldownUntil) {
+      showCooldown(eligibility.cooldownUntil)
+    }
+  }, [eligibility])
+
   // Update state when sharing link data changes
   useEffect(() => {
     if (sharingLink && sharingLink.isActive) {
@@ -60,13 +128,27 @@ export function ShareLinkContributionPanel({
     }
   }, [sharingLink])
 
+  // Count one visit per browser session, so refreshes and the sign-in round trip aren't counted twice
+  useEffect(() => {
+    if (!state.isValid) return
+    const visitedKey = `smas-visited-${linkSlug}`
+    try {
+      if (sessionStorage.getItem(visitedKey)) return
+      sessionStorage.setItem(visitedKey, '1')
+    } catch {
+      // Storage can be unavailable (e.g. private browsing); count the visit anyway
+    }
+    recordLinkEvent({ linkSlug, event: 'visit' })
+  }, [state.isValid, linkSlug, recordLinkEvent])
+
   // Handle link error
   useEffect(() => {
     if (linkError) {
       setState(s => ({
         ...s,
         isValid: false,
-        error: 'invalid or expired sharing link'
+        error: 'invalid or expired sharing link',
+        unavailableReason: (linkError as any).reason
       }))
     }
   }, [linkError])
@@ -74,6 +156,7 @@ export function ShareLinkContributionPanel({
   const handleContribute = async () => {
     if (!session) {
       if (typeof window !== 'undefined') {
+        recordLinkEvent({ linkSlug, event: 'sign_in' })
         const { signIn } = await import('next-auth/react')
         signIn('spotify')
       }
@@ -90,13 +173,21 @@ export function ShareLinkContributionPanel({
     }
 
     try {
-      if (!topSongs.length) {
-        setState(s => ({ ...s, noTopTracks: true }))
+      if (!selectedSongs.length) {
+        if (!topSongs.length) {
+          setState(s => ({ ...s, noTopTracks: true }))
+          return
+        }
+        addToast({
+          type: 'error',
+          title: 'No Songs Selected',
+          message: 'Pick at least one song to send.'
+        })
         return
       }
 
       // Prepare tracks for contribution
-      const trackUris = topSongs.map(song => `spotify:track:${song.id}`)
+      const trackUris = selectedSongs.map(song => `spotify:track:${song.id}`)
 
       // Contribute songs using TanStack Query mutation
       contributeSongs(
@@ -106,19 +197,44 @@ export function ShareLinkContributionPanel({
           linkSlug: linkSlug
         },
         {
-          onSuccess: () => {
+          onSuccess: (result) => {
+            // Songs held for the owner's review count as sent
+            const addedUris = new Set(result.pending ? result.pendingTrackUris : result.addedTrackUris)
+            const skippedUris = new Set(result.skippedTrackUris)
+            const successTracks = selectedSongs.filter(song => addedUris.has(`spotify:track:${song.id}`))
+            const skippedTracks = selectedSongs.filter(song => skippedUris.has(`spotify:track:${song.id}`))
+
+            if (successTracks.length === 0) {
+              setState(s => ({ ...s, allDuplicates: true, skippedTracks }))
+              return
+            }
+
             setState(s => ({
               ...s,
               isSuccess: true,
-              successTracks: topSongs
+              isPendingReview: !!result.pending,
+              successTracks,
+              skippedTracks
             }))
             addToast({
               type: 'success',
-              title: 'Songs Added!',
-              message: `Your top songs have been added to ${state.ownerName}&apos;s playlist.`
+              title: result.pending ? 'Songs Sent!' : 'Songs Added!',
+              message: result.pending
+                ? `${state.ownerName} will review your songs before adding them.`
+                : `Your top songs have been added to ${state.ownerName}'s playlist.`
             })
           },
           onError: (error) => {
+            const cooldown = (error as any).cooldown
+            if (cooldown?.cooldownUntil) {
+              showCooldown(cooldown.cooldownUntil)
+              return
+            }
+            const unavailableReason = (error as any).reason
+            if (unavailableReason === 'expired' || unavailableReason === 'used_up') {
+              setState(s => ({ ...s, unavailableReason }))
+              return
+            }
             addToast({
               type: 'error',
               title: 'Contribution Failed',
@@ -136,7 +252,8 @@ export function ShareLinkContributionPanel({
     }
   }
 
-  const isLoading = isLoadingLink || isLoadingTopSongs
+  // Switching time range reloads only the picker, not the whole panel
+  const isLoading = isLoadingLink || (isLoadingTopSongs && !hasDefaultSelection) || (!!session?.user?.id && isLoadingEligibility)
 
   if (isLoading) {
     return (
@@ -146,6 +263,27 @@ export function ShareLinkContributionPanel({
     )
   }
 
+  if (state.unavailableReason) {
+    return (
+      <div className="flex text-center justify-center mt-12 bg-green-50">
+        <Card className='lg:w-3xl'>
+          <CardHeader>
+            <h2 className="text-xl font-semibold text-yellow-600">This Link Has Expired</h2>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-gray-700">
+              {state.unavailableReason === 'used_up'
+                ? 'This sharing link has already been used the maximum number of times.'
+                : 'This sharing link is no longer accepting songs.'}
+              {' '}Ask {state.ownerName || 'your friend'} for a new link.
+            </p>
+            <Button onClick={() => window.location.assign('/')} aria-label="Go to home">Go to Home</Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (!state.isValid) {
     return (
       <div className="flex text-center justify-center mt-12 bg-green-50">
@@ -162,6 +300,26 @@ export function ShareLinkContributionPanel({
     )
   }
 
+  if (state.isBlocked) {
+    return (
+      <div className="flex justify-center text-center mt-12 bg-green-50">
+        <Card className='lg:w-3xl'>
+          <CardHeader>
+            <h2 className="text-xl font-semibold text-yellow-600 mb-4">Contributions Unavailable</h2>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <p className="text-gray-700 mb-4">
+                You can no longer send songs to {state.ownerName}&apos;s playlist.
+              </p>
+              <Button onClick={() => window.location.assign('/')} aria-label="Go to home">Go to Home</Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (state.cooldownDays && state.cooldownDays > 0) {
     return (
       <div className="flex justify-center text-center mt-12 bg-green-50">
@@ -206,40 +364,27 @@ export function ShareLinkContributionPanel({
     )
   }
 
-  if (state.isSuccess) {
+  if (state.allDuplicates) {
     return (
       <div className="flex justify-center text-center mt-12 bg-green-50">
         <Card className='lg:w-3xl'>
           <CardHeader>
-            <h2 className="text-xl font-semibold text-green-700 mb-4">
-              Success! Your Songs Have Been Added
-            </h2>
+            <h2 className="text-xl font-semibold text-yellow-600 mb-4">Already in the Playlist</h2>
           </CardHeader>
           <CardContent>
             <div className="space-y-6">
               <p className="text-gray-700 mb-4">
-                You&apos;ve just sent your top songs to {state.ownerName}&apos;s playlist! 🎶
+                All of your top songs are already in {state.ownerName}&apos;s playlist, so nothing new was added.
               </p>
-
-              {state.successTracks && (
+              {state.skippedTracks && state.skippedTracks.length > 0 && (
                 <div className="space-y-3">
-                  <h3 className="font-medium text-gray-800">Songs Added:</h3>
-                  {state.successTracks.map((song: Song) => (
+                  <h3 className="font-medium text-gray-800">Skipped as Duplicates:</h3>
+                  {state.skippedTracks.map((song: Song) => (
                     <SongItem key={song.id} song={song} />
                   ))}
                 </div>
               )}
-
-              <div className="space-y-3">
-                <p className="text-gray-600">
-                  Want their favorite tracks back in your own playlist?
-                </p>
-                <div className="flex gap-3 justify-center">
-                  <Button onClick={() => window.location.assign('/')} aria-label="Create your own playlist">
-                    Create Your Own SMAS
-                  </Button>
-                </div>
-              </div>
+              <Button onClick={() => window.location.assign('/')} aria-label="Go to home">Go to Home</Button>
             </div>
           </CardContent>
         </Card>
@@ -247,6 +392,19 @@ export function ShareLinkContributionPanel({
     )
   }
 
+  if (state.isSuccess) {
+    return (
+      <ContributionSuccessCard
+        linkSlug={linkSlug}
+        ownerName={state.ownerName || 'the owner'}
+        session={session}
+        successTracks={state.successTracks}
+        skippedTracks={state.skippedTracks}
+        isPendingReview={state.isPendingReview}
+      />
+    )
+  }
+
   return (
     <div className="flex justify-center text-center mt-12 bg-green-50">
       <Card className='lg:w-3xl'>
@@ -267,23 +425,18 @@ export function ShareLinkContributionPanel({
               </>
             }
 
-            {topSongs && topSongs.length > 0 && (
-              <div className="space-y-3">
-
-
-                <h3 className="text-xl font-semibold text-gray-800">Your Spotify Top Songs:</h3>
-                {topSongs.map((song: Song, index: number) => (
-                  <div key={song.id} className="flex items-center space-x-3">
-                    <span
-                      className="flex-shrink-0 w-6 h-6 bg-green-100 text-green-800 rounded-full flex items-center justify-center text-xs font-medium"
-                      aria-label={`Rank ${index + 1}`}
-                    >
-                      {index + 1}
-                    </span>
-                    <SongItem song={song} />
-                  </div>
-                ))}
-              </div>
+            {session && <FriendMatchCard linkSlug={linkSlug} ownerName={state.ownerName || 'the owner'} />}
+
+            {session && (
+              <TrackPicker
+                topSongs={topSongs || []}
+                isLoadingTopSongs={isLoadingTopSongs}
+                timeRange={timeRange}
+                onTimeRangeChange={setTimeRange}
+                selectedSongs={selectedSongs}
+                onToggleSong={handleToggleSong}
+                maxTracks={maxTracks}
+              />
             )}
 
             <LoadingButton
@@ -298,6 +451,16 @@ export function ShareLinkContributionPanel({
             <p className="text-gray-700 mb-4">
               Discover new music through your friends
             </p>
+            {typeof sharingLink?.contributionCooldownDays === 'number' && (
+              <p className="text-sm text-gray-500">
+                You can send songs to {state.ownerName} {formatCooldown(sharingLink.contributionCooldownDays)}.
+              </p>
+            )}
+            {sharingLink?.requiresApproval && (
+              <p className="text-sm text-gray-500">
+                {state.ownerName} approves songs before they&apos;re added.
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Sharing links panel for the dashboard - lets owners manage several labeled links per playlist.
+ *
+ * Lists each active link with its own usage stats, and supports creating (optionally expiring or limited-use),
+ * renaming, copying, and deactivating links.
+ */
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { format } from 'date-fns'
+import { Card, CardHeader, CardContent, Button, LoadingState, LoadingButton, useToast } from '@/components/ui'
+import {
+  useSharingLinks,
+  useCreateSharingLink,
+  useRenameSharingLink,
+  useDeactivateSharingLink,
+  type SharingLinkSummary,
+} from '@/hooks/use-spotify-queries'
+import { SHARING_LINK_CONFIG } from '@/lib/constants'
+import { toDate } from '@/lib/utils'
+
+interface SharingLinksPanelProps {
+  playlistId: string
+}
+
+interface SharingLinkRowProps {
+  playlistId: string
+  link: SharingLinkSummary
+  isPrimary: boolean
+}
+
+/**
+ * @description Builds the full share URL for a link slug.
+ * @param {string} linkSlug - Unique link slug.
+ * @returns {string} The share URL.
+ */
+function getShareUrl(linkSlug: string): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : ''
+  return `${origin}/share/${linkSlug}`
+}
+
+/**
+ * @description Describes a link's visits, uses, and expiry, e.g. "12 visits · 2 of 5 uses · expires Mar 3".
+ * @param {SharingLinkSummary} link - The sharing link.
+ * @returns {string} Human-readable usage summary.
+ */
+function describeLinkUsage(link: SharingLinkSummary): string {
+  const visitCount = link.visitCount || 0
+  const parts: string[] = [`${visitCount} visit${visitCount !== 1 ? 's' : ''}`]
+
+  if (link.maxUses !== undefined) {
+    parts.push(link.usageCount >= link.maxUses ? 'used up' : `${link.usageCount} of ${link.maxUses} uses`)
+  } else {
+    parts.push(`${link.usageCount} use${link.usageCount !== 1 ? 's' : ''}`)
+  }
+
+  if (link.expiresAt) {
+    const expiresAt = toDate(link.expiresAt)
+    parts.push(expiresAt.getTime() <= Date.now() ? 'expired' : `expires ${format(expiresAt, 'MMM d')}`)
+  }
+
+  if (link.lastUsedAt) {
+    parts.push(`last used ${format(toDate(link.lastUsedAt), 'MMM d')}`)
+  }
+
+  return parts.join(' · ')
+}
+
+/**
+ * @description Renders one sharing link with its stats and rename, copy, and deactivate actions.
+ * @param {SharingLinkRowProps} props - Component props.
+ * @returns {JSX.Element} The sharing link row.
+ */
+function SharingLinkRow({ playlistId, link, isPrimary }: SharingLinkRowProps) {
+  const { addToast } = useToast()
+  const { mutate: renameLink, isPending: isRenaming } = useRenameSharingLink()
+  const { mutate: deactivateLink, isPending: isDeactivating } = useDeactivateSharingLink()
+  const [isEditing, setIsEditing] = useState(false)
+  const [label, setLabel] = useState(link.label || '')
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault()
+    if (!label.trim()) return
+
+    renameLink(
+      { playlistId, linkId: link.id, label },
+      {
+        onSuccess: () => setIsEditing(false),
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Rename Failed',
+            message: error instanceof Error ? error.message : 'Failed to rename link'
+          })
+        }
+      }
+    )
+  }
+
+  const handleDeactivate = () => {
+    if (!window.confirm(`Deactivate "${link.label || link.linkSlug}"? Friends with this link won't be able to contribute anymore.`)) return
+
+    deactivateLink(
+      { playlistId, linkId: link.id },
+      {
+        onSuccess: () => {
+          addToast({
+            type: 'success',
+            title: 'Link Deactivated',
+            message: `"${link.label || link.linkSlug}" no longer accepts songs.`
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Deactivate Failed',
+            message: error instanceof Error ? error.message : 'Failed to deactivate link'
+          })
+        }
+      }
+    )
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.linkSlug))
+      addToast({
+        type: 'success',
+        title: 'Link Copied!',
+        message: `"${link.label || link.linkSlug}" has been copied to clipboard.`
+      })
+    } catch (error) {
+      console.warn(error)
+      addToast({
+        type: 'error',
+        title: 'Copy Failed',
+        message: 'Failed to copy link. Please try again.'
+      })
+    }
+  }
+
+  return (
+    <li className="p-3 border border-gray-200 rounded-lg space-y-2">
+      {isEditing ? (
+        <form onSubmit={handleRename} className="flex space-x-2">
+          <input
+            type="text"
+            value={label}
+            onChange={event => setLabel(event.target.value)}
+            maxLength={SHARING_LINK_CONFIG.maxLabelLength}
+            className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label="Link label"
+            autoFocus
+          />
+          <LoadingButton type="submit" isLoading={isRenaming} loadingText="Saving..." className="px-3 py-1 bg-green-700 text-white rounded-md text-sm hover:cursor-pointer">
+            Save
+          </LoadingButton>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+        </form>
+      ) : (
+        <div className="flex items-center justify-between">
+          <div className="font-medium text-gray-800">
+            {link.label || link.linkSlug}
+            {isPrimary && <span className="ml-2 text-xs text-green-700">Primary</span>}
+          </div>
+          <div className="flex space-x-1">
+            <Button variant="outline" size="sm" onClick={handleCopy} aria-label={`Copy ${link.label || link.linkSlug}`}>
+              Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+              Rename
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDeactivate} disabled={isDeactivating}>
+              Deactivate
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="text-xs text-gray-500">
+        /share/{link.linkSlug} · {describeLinkUsage(link)}
+      </div>
+    </li>
+  )
+}
+
+/**
+ * @description Renders the dashboard panel for managing a playlist's sharing links.
+ * @param {SharingLinksPanelProps} props - Component props.
+ * @returns {JSX.Element} The sharing links panel.
+ */
+export function SharingLinksPanel({ playlistId }: SharingLinksPanelProps) {
+  const { data, isLoading } = useSharingLinks(playlistId)
+  const { mutate: createLink, isPending: isCreating } = useCreateSharingLink()
+  const { addToast } = useToast()
+  const [newLabel, setNewLabel] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState('')
+  const [maxUses, setMaxUses] = useState('')
+
+  const sharingLinks = data?.sharingLinks || []
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault()
+
+    createLink(
+      {
+        playlistId,
+        label: newLabel,
+        expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+        maxUses: maxUses ? Number(maxUses) : undefined,
+      },
+      {
+        onSuccess: () => {
+          setNewLabel('')
+          setExpiresInDays('')
+          setMaxUses('')
+          addToast({
+            type: 'success',
+            title: 'Link Created',
+            message: 'Your new sharing link is ready to share.'
+          })
+        },
+        onError: (error) => {
+          addToast({
+            type: 'error',
+            title: 'Create Failed',
+            message: error instanceof Error ? error.message : 'Failed to create link'
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-gray-800">Your Sharing Links</h2>
+        <p className="text-sm text-gray-600">Use a separate link for each place you share, and see which one brings in friends.</p>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          {isLoading ? (
+            <LoadingState isLoading={true} text="Loading your links..." size="sm" />
+          ) : sharingLinks.length === 0 ? (
+            <p className="text-sm text-gray-500">No active links. Create one below.</p>
+          ) : (
+            <ul className="space-y-2">
+              {sharingLinks.map(link => (
+                <SharingLinkRow
+                  key={link.id}
+                  playlistId={playlistId}
+                  link={link}
+                  isPrimary={link.id === data?.sharingLink?.id}
+                />
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-2">
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={newLabel}
+                onChange={event => setNewLabel(event.target.value)}
+                maxLength={SHARING_LINK_CONFIG.maxLabelLength}
+                placeholder='e.g. "Group chat" or "Instagram bio"'
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                aria-label="New link label"
+              />
+              <LoadingButton type="submit" isLoading={isCreating} loadingText="Creating..." className="px-3 py-2 bg-green-700 text-white rounded-md text-sm whitespace-nowrap hover:cursor-pointer">
+                New Link
+              </LoadingButton>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <label htmlFor="new-link-expiry">Expires</label>
+              <select
+                id="new-link-expiry"
+                value={expiresInDays}
+                onChange={event => setExpiresInDays(event.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">Never</option>
+                {SHARING_LINK_CONFIG.expiryDayOptions.map(days => (
+                  <option key={days} value={days}>in {days} day{days !== 1 ? 's' : ''}</option>
+                ))}
+              </select>
+              <label htmlFor="new-link-max-uses">Uses</label>
+              <select
+                id="new-link-max-uses"
+                value={maxUses}
+                onChange={event => setMaxUses(event.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">Unlimited</option>
+                {SHARING_LINK_CONFIG.maxUsesOptions.map(count => (
+                  <option key={count} value={count}>{count === 1 ? 'Single use' : `${count} uses`}</option>
+                ))}
+              </select>
+            </div>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
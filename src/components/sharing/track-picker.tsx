@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Track picker for the share page - lets contributors choose which songs to send.
+ *
+ * Shows the visitor's top songs for a chosen time range plus Spotify search results, with a selection limit.
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button, LoadingState } from '@/components/ui'
+import { SongItem } from '@/components/playlist/song-item'
+import { useTrackSearch, type TopSongsTimeRange } from '@/hooks/use-spotify-queries'
+import { cn } from '@/lib/utils'
+import type { Song } from '@/stores/playlist-store'
+
+const TIME_RANGE_LABELS: Record<TopSongsTimeRange, string> = {
+  short_term: 'Last 4 weeks',
+  medium_term: 'Last 6 months',
+  long_term: 'All time',
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+interface TrackPickerProps {
+  topSongs: Song[]
+  isLoadingTopSongs: boolean
+  timeRange: TopSongsTimeRange
+  onTimeRangeChange: (timeRange: TopSongsTimeRange) => void
+  selectedSongs: Song[]
+  onToggleSong: (song: Song) => void
+  maxTracks: number
+}
+
+interface SelectableSongProps {
+  song: Song
+  rank?: number
+  isSelected: boolean
+  isDisabled: boolean
+  onToggle: (song: Song) => void
+}
+
+/**
+ * @description Renders a song row that can be toggled in or out of the selection.
+ * @param {SelectableSongProps} props - Component props.
+ * @returns {JSX.Element} The selectable song row.
+ */
+function SelectableSong({ song, rank, isSelected, isDisabled, onToggle }: SelectableSongProps) {
+  return (
+    <label
+      className={cn(
+        'flex items-center space-x-3 rounded-lg hover:cursor-pointer',
+        isSelected && 'ring-2 ring-green-500',
+        isDisabled && 'opacity-50 hover:cursor-not-allowed'
+      )}
+    >
+      <input
+        type="checkbox"
+        className="ml-2 accent-green-700"
+        checked={isSelected}
+        disabled={isDisabled}
+        onChange={() => onToggle(song)}
+        aria-label={`Select ${song.name}`}
+      />
+      {rank !== undefined && (
+        <span
+          className="flex-shrink-0 w-6 h-6 bg-green-100 text-green-800 rounded-full flex items-center justify-center text-xs font-medium"
+          aria-label={`Rank ${rank}`}
+        >
+          {rank}
+        </span>
+      )}
+      <SongItem song={song} />
+    </label>
+  )
+}
+
+/**
+ * @description Renders the time range switcher, top songs, search, and selection count.
+ * @param {TrackPickerProps} props - Component props.
+ * @returns {JSX.Element} The track picker component.
+ */
+export function TrackPicker({
+  topSongs,
+  isLoadingTopSongs,
+  timeRange,
+  onTimeRangeChange,
+  selectedSongs,
+  onToggleSong,
+  maxTracks,
+}: TrackPickerProps) {
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const { data: searchResults, isFetching: isSearching } = useTrackSearch(searchQuery)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const selectedIds = new Set(selectedSongs.map(song => song.id))
+  const isFull = selectedSongs.length >= maxTracks
+  const topSongIds = new Set(topSongs.map(song => song.id))
+  const otherSelectedSongs = selectedSongs.filter(song => !topSongIds.has(song.id))
+
+  const renderSong = (song: Song, rank?: number) => {
+    const isSelected = selectedIds.has(song.id)
+    return (
+      <SelectableSong
+        key={song.id}
+        song={song}
+        rank={rank}
+        isSelected={isSelected}
+        isDisabled={!isSelected && isFull}
+        onToggle={onToggleSong}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6 text-left">
+      <div className="space-y-3">
+        <h3 className="text-xl font-semibold text-gray-800">Your Spotify Top Songs:</h3>
+        <div className="flex gap-2" role="group" aria-label="Top songs time range">
+          {(Object.keys(TIME_RANGE_LABELS) as TopSongsTimeRange[]).map(range => (
+            <Button
+              key={range}
+              variant={range === timeRange ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onTimeRangeChange(range)}
+              aria-pressed={range === timeRange}
+            >
+              {TIME_RANGE_LABELS[range]}
+            </Button>
+          ))}
+        </div>
+        {isLoadingTopSongs ? (
+          <LoadingState isLoading={true} text="Loading your top songs..." size="sm" />
+        ) : topSongs.length === 0 ? (
+          <p className="text-sm text-gray-500">No top songs for this period. Try another one or search below.</p>
+        ) : (
+          topSongs.map((song, index) => renderSong(song, index + 1))
+        )}
+      </div>
+
+      {otherSelectedSongs.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-800">Also selected:</h3>
+          {otherSelectedSongs.map(song => renderSong(song))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <label htmlFor="track-search" className="block font-medium text-gray-800">
+          Or search for a song
+        </label>
+        <input
+          id="track-search"
+          type="search"
+          value={searchInput}
+          onChange={event => setSearchInput(event.target.value)}
+          placeholder="Song or artist name"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        {isSearching && <LoadingState isLoading={true} text="Searching..." size="sm" />}
+        {!isSearching && searchResults?.filter(song => !selectedIds.has(song.id)).map(song => renderSong(song))}
+      </div>
+
+      <p className="text-sm text-gray-600" aria-live="polite">
+        {selectedSongs.length} of {maxTracks} song{maxTracks !== 1 ? 's' : ''} selected
+      </p>
+    </div>
+  )
+}
@@ -64,8 +64,8 @@ export const useDashboardData = (userId?: string) => {
               const linkResponse = await fetch(`/api/spotify/playlists/${playlist.firestoreId}/sharing-link`)
               if (linkResponse.ok) {
                 const linkData = await linkResponse.json()
-                if (isMounted && linkData.sharingLink) {
-                  setShareLinkUsage(linkData.sharingLink.usageCount || 0)
+                if (isMounted && Array.isArray(linkData.sharingLinks)) {
+                  setShareLinkUsage(linkData.sharingLinks.reduce((sum: number, link: { usageCount?: number }) => sum + (link.usageCount || 0), 0))
                 }
               }
             }
@@ -5,17 +5,29 @@
  */
 'use client'
 
+import { useRef } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useSession } from 'next-auth/react'
 import { useToast } from '@/components/ui'
+import type { AnalyticsGranularity, ContributionAnalytics } from '@/lib/analytics'
+import type { ContributionHistoryEntry, ContributionHistoryTrack } from '@/lib/contribution-history'
+import type { FriendMatch } from '@/lib/friend-match'
 import { checkPermissionError, handlePermissionError } from '@/lib/permissions'
-import type { Song } from '@/stores/playlist-store'
+import { usePlaylistStore, type Playlist, type Song } from '@/stores/playlist-store'
+import type { SharingLinkEvent, SpamReason } from '@/types/firebase'
 import type { Session } from 'next-auth'
 
+/**
+ * @description Spotify's top-items time windows: ~4 weeks, ~6 months, or ~1 year.
+ */
+export type TopSongsTimeRange = 'short_term' | 'medium_term' | 'long_term'
+
 /**
  * @description Fetches user's top songs with caching and error handling.
+ * @param {TopSongsTimeRange} timeRange - Spotify time range (default: short_term).
+ * @param {number} limit - Number of songs to fetch (default: 5).
  */
-export function useTopSongs() {
+export function useTopSongs(timeRange: TopSongsTimeRange = 'short_term', limit: number = 5) {
     const { data: session } = useSession()
     const { addToast } = useToast()
 
@@ -26,9 +38,9 @@ export function useTopSongs() {
     }
 
     return useQuery({
-        queryKey: ['top-songs', session?.user?.id],
+        queryKey: ['top-songs', session?.user?.id, timeRange, limit],
         queryFn: async (): Promise<Song[]> => {
-            const response = await fetch('/api/spotify/users/top-songs')
+            const response = await fetch(`/api/spotify/users/top-songs?time_range=${timeRange}&limit=${limit}`)
 
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}))
@@ -58,10 +70,11 @@ export function useTopSongs() {
 }
 
 /**
- * @description Fetches or creates user's SMAS playlist.
+ * @description Fetches the owner's selected SMAS playlist, defaulting to their oldest and creating it on first use.
  */
 export function useSMASPlaylist(session: Session) {
     const { addToast } = useToast()
+    const selectedPlaylistId = usePlaylistStore(state => state.selectedPlaylistId)
 
     const handleReconnect = () => {
         if (typeof window !== 'undefined') {
@@ -70,11 +83,12 @@ export function useSMASPlaylist(session: Session) {
     }
 
     return useQuery({
-        queryKey: ['smas-playlist', session?.user?.id],
+        queryKey: ['smas-playlist', session?.user?.id, selectedPlaylistId],
         queryFn: async () => {
             const response = await fetch('/api/spotify/playlists', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' }
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(selectedPlaylistId ? { playlistId: selectedPlaylistId } : {})
             })
 
             if (!response.ok) {
@@ -105,22 +119,146 @@ export function useSMASPlaylist(session: Session) {
 }
 
 /**
- * @description Mutation for contributing songs to a playlist.
+ * @description One of the owner's playlists as listed by the API, with timestamps serialized to ISO strings.
+ */
+export interface PlaylistSummary {
+    id: string
+    spotifyPlaylistId: string
+    name: string
+    description?: string
+    trackCount: number
+    createdAt: string
+    isOrphaned: boolean
+    isCoOwned: boolean
+}
+
+/**
+ * @description Fetches the owner's active playlists, oldest first.
+ */
+export function useOwnerPlaylists(session: Session) {
+    return useQuery({
+        queryKey: ['smas-playlists', session?.user?.id],
+        queryFn: async (): Promise<{ playlists: PlaylistSummary[] }> => {
+            const response = await fetch('/api/spotify/playlists')
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch playlists')
+            }
+
+            return response.json()
+        },
+        enabled: !!session?.user?.id,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+    })
+}
+
+/**
+ * @description Mutation for creating another named playlist, with its own Spotify playlist and sharing link.
+ * Selects the new playlist on success.
+ */
+export function useCreatePlaylist() {
+    const queryClient = useQueryClient()
+    const setSelectedPlaylistId = usePlaylistStore(state => state.setSelectedPlaylistId)
+
+    return useMutation({
+        mutationFn: async ({ name, description }: { name: string; description?: string }): Promise<Playlist> => {
+            const response = await fetch('/api/spotify/playlists', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name, description })
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to create playlist')
+            }
+
+            return response.json()
+        },
+        onSuccess: (playlist) => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlists'] })
+            if (playlist.firestoreId) {
+                setSelectedPlaylistId(playlist.firestoreId)
+            }
+        },
+    })
+}
+
+/**
+ * @description Mutation for archiving one of the owner's playlists. Falls back to the oldest playlist if the
+ * archived one was selected.
+ */
+export function useArchivePlaylist() {
+    const queryClient = useQueryClient()
+    const { selectedPlaylistId, setSelectedPlaylistId } = usePlaylistStore()
+
+    return useMutation({
+        mutationFn: async ({ playlistId }: { playlistId: string }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}`, {
+                method: 'DELETE'
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to archive playlist')
+            }
+
+            return response.json()
+        },
+        onSuccess: (_result, { playlistId }) => {
+            if (selectedPlaylistId === playlistId) {
+                setSelectedPlaylistId(null)
+            }
+            queryClient.invalidateQueries({ queryKey: ['smas-playlists'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+        },
+    })
+}
+
+/**
+ * @description Result of a contribution, split into added and duplicate-skipped track URIs. Contributions held for
+ * the owner's review list their tracks in `pendingTrackUris` instead.
+ */
+export interface ContributeSongsResult {
+    success: boolean
+    message: string
+    addedTrackUris: string[]
+    skippedTrackUris: string[]
+    pending?: boolean
+    pendingTrackUris?: string[]
+}
+
+/**
+ * @description Mutation for contributing songs to a playlist. Submissions made while one is in flight reuse its
+ * idempotency key, so the server adds the songs only once.
  */
 export function useContributeSongs() {
     const queryClient = useQueryClient()
+    const idempotencyKeyRef = useRef<string | null>(null)
 
     return useMutation({
-        mutationFn: async ({ playlistId, trackUris, linkSlug }: { playlistId: string; trackUris: string[]; linkSlug?: string }) => {
+        mutationFn: async ({ playlistId, trackUris, linkSlug }: { playlistId: string; trackUris: string[]; linkSlug?: string }): Promise<ContributeSongsResult> => {
+            if (!idempotencyKeyRef.current) {
+                idempotencyKeyRef.current = crypto.randomUUID()
+            }
+
             const response = await fetch('/api/spotify/contribute', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Idempotency-Key': idempotencyKeyRef.current
+                },
                 body: JSON.stringify({ playlistId, trackUris, linkSlug })
             })
 
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}))
-                throw new Error(errorData.error || 'Failed to contribute songs')
+                const error = new Error(errorData.error || 'Failed to contribute songs')
+                    ; (error as any).status = response.status
+                    ; (error as any).cooldown = errorData.cooldown
+                    ; (error as any).reason = errorData.reason
+                throw error
             }
 
             return response.json()
@@ -128,10 +266,274 @@ export function useContributeSongs() {
         onSuccess: () => {
             // Invalidate and refetch playlist data
             queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['my-contributions'] })
         },
         onError: (error) => {
             console.log(error)
         },
+        onSettled: () => {
+            // The next submission is a new contribution
+            idempotencyKeyRef.current = null
+        },
+    })
+}
+
+/**
+ * @description Mutation for removing a contribution's songs from the owner's playlist.
+ */
+export function useRemoveContribution() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, contributionId, shouldBlock = false }: { playlistId: string; contributionId: string; shouldBlock?: boolean }) => {
+            const query = shouldBlock ? '?block=true' : ''
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/contributions/${contributionId}${query}`, {
+                method: 'DELETE'
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to remove contribution')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['playlist-contributions'] })
+            queryClient.invalidateQueries({ queryKey: ['contribution-analytics'] })
+            queryClient.invalidateQueries({ queryKey: ['contributor-detail'] })
+        },
+        onError: (error) => {
+            console.log(error)
+        },
+    })
+}
+
+/**
+ * @description Mutation for recreating a SMAS playlist that was deleted on Spotify, with its contributed songs.
+ */
+export function useRecreatePlaylist() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId }: { playlistId: string }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/recreate`, {
+                method: 'POST'
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to recreate playlist')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlists'] })
+        },
+    })
+}
+
+/**
+ * @description Mutation for updating an owner's playlist settings (name, description, contribution cooldown, max tracks,
+ * approval mode).
+ */
+export function useUpdatePlaylistSettings() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, ...settings }: {
+            playlistId: string
+            name?: string
+            description?: string
+            contributionCooldownDays?: number
+            maxTracksPerContribution?: number
+            requiresApproval?: boolean
+        }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(settings)
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to update playlist settings')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlists'] })
+        },
+        onError: (error) => {
+            console.log(error)
+        },
+    })
+}
+
+/**
+ * @description Mutation for uploading a custom JPEG cover for an owner's playlist.
+ */
+export function useUploadPlaylistCover() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, cover }: { playlistId: string; cover: File }) => {
+            const formData = new FormData()
+            formData.append('cover', cover)
+
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/cover`, {
+                method: 'POST',
+                body: formData
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to upload cover')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+        },
+    })
+}
+
+/**
+ * @description Mutation for adding a co-owner to the owner's playlist by their Spotify user ID.
+ */
+export function useAddCoOwner() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, spotifyUserId }: { playlistId: string; spotifyUserId: string }): Promise<{ coOwnerIds: string[] }> => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/co-owners`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ spotifyUserId })
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                const error = new Error(errorData.error || 'Failed to add co-owner')
+                    ; (error as any).reauthRequired = !!errorData.reauthRequired
+                throw error
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+        },
+    })
+}
+
+/**
+ * @description Mutation for removing a co-owner from a playlist, or for a co-owner leaving it.
+ */
+export function useRemoveCoOwner() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, spotifyUserId }: { playlistId: string; spotifyUserId: string }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/co-owners/${encodeURIComponent(spotifyUserId)}`, {
+                method: 'DELETE'
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to remove co-owner')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlists'] })
+        },
+    })
+}
+
+/**
+ * @description Searches Spotify for tracks once the query is long enough.
+ */
+export function useTrackSearch(query: string) {
+    const trimmedQuery = query.trim()
+
+    return useQuery({
+        queryKey: ['track-search', trimmedQuery],
+        queryFn: async (): Promise<Song[]> => {
+            const response = await fetch(`/api/spotify/search?q=${encodeURIComponent(trimmedQuery)}`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to search tracks')
+            }
+
+            return response.json()
+        },
+        enabled: trimmedQuery.length >= 2,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+    })
+}
+
+/**
+ * @description Pre-flight result telling a signed-in visitor whether they can contribute through a link.
+ */
+export interface ContributionEligibility {
+    canContribute: boolean
+    reason?: 'cooldown' | 'blocked'
+    cooldownDays?: number
+    cooldownUntil?: string
+    daysRemaining?: number
+}
+
+/**
+ * @description Checks whether the signed-in visitor can contribute through a sharing link.
+ */
+export function useContributionEligibility(linkSlug: string, isSignedIn: boolean) {
+    return useQuery({
+        queryKey: ['contribution-eligibility', linkSlug],
+        queryFn: async (): Promise<ContributionEligibility> => {
+            const response = await fetch(`/api/sharing/${linkSlug}/eligibility`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to check contribution eligibility')
+            }
+
+            return response.json()
+        },
+        enabled: !!linkSlug && isSignedIn,
+        staleTime: 60 * 1000, // 1 minute
+        retry: false,
+    })
+}
+
+/**
+ * @description Fetches the signed-in visitor's friend match with a sharing link's owner.
+ */
+export function useFriendMatch(linkSlug: string, isSignedIn: boolean) {
+    return useQuery({
+        queryKey: ['friend-match', linkSlug],
+        queryFn: async (): Promise<FriendMatch> => {
+            const response = await fetch(`/api/sharing/${linkSlug}/match`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch friend match')
+            }
+
+            return response.json()
+        },
+        enabled: !!linkSlug && isSignedIn,
+        staleTime: 10 * 60 * 1000, // 10 minutes
+        retry: false,
     })
 }
 
@@ -147,7 +549,10 @@ export function useSharingLink(linkSlug: string) {
 
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}))
-                throw new Error(errorData.error || 'Failed to fetch sharing link')
+                const error = new Error(errorData.error || 'Failed to fetch sharing link')
+                    ; (error as any).status = response.status
+                    ; (error as any).reason = errorData.reason
+                throw error
             }
 
             return response.json()
@@ -155,10 +560,356 @@ export function useSharingLink(linkSlug: string) {
         enabled: !!linkSlug,
         staleTime: 2 * 60 * 1000, // 2 minutes
         retry: (failureCount, error) => {
-            if (error instanceof Error && error.message.includes('not found')) {
-                return false // Don't retry for not found errors
+            if (error instanceof Error && (error.message.includes('not found') || [410, 429].includes((error as any).status))) {
+                return false // Don't retry for not found, expired, or used-up links, or when rate limited
             }
             return failureCount < 2
         },
     })
-} 
\ No newline at end of file
+} 
+
+/**
+ * @description Result of sending songs back: the owner's top songs were added to the visitor's playlist, or the
+ * visitor's playlist was created with a sharing link for the owner.
+ */
+export type SendBackResult =
+    | { mode: 'added'; playlistName: string; addedCount: number; skippedCount: number }
+    | { mode: 'created'; playlistName: string; shareLink: string }
+
+/**
+ * @description Mutation for getting songs back from the owner of a sharing link the visitor just contributed through.
+ */
+export function useSendBack() {
+    const queryClient = useQueryClient()
+    const idempotencyKeyRef = useRef<string | null>(null)
+
+    return useMutation({
+        mutationFn: async ({ linkSlug }: { linkSlug: string }): Promise<SendBackResult> => {
+            if (!idempotencyKeyRef.current) {
+                idempotencyKeyRef.current = crypto.randomUUID()
+            }
+
+            const response = await fetch(`/api/sharing/${linkSlug}/send-back`, {
+                method: 'POST',
+                headers: { 'Idempotency-Key': idempotencyKeyRef.current }
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to send songs back')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlists'] })
+        },
+        onSettled: () => {
+            // The next send-back is a new request
+            idempotencyKeyRef.current = null
+        },
+    })
+}
+
+/**
+ * @description Mutation for counting a share page event (a visit or a sign-in start) on a sharing link.
+ */
+export function useRecordSharingLinkEvent() {
+    return useMutation({
+        mutationFn: async ({ linkSlug, event }: { linkSlug: string; event: SharingLinkEvent }) => {
+            const response = await fetch(`/api/sharing/${linkSlug}/events`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ event }),
+                keepalive: true // Sign-in navigates away right after
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to record sharing link event')
+            }
+
+            return response.json()
+        },
+    })
+}
+
+/**
+ * @description A playlist's sharing link as returned by the API, with timestamps serialized to ISO strings.
+ */
+export interface SharingLinkSummary {
+    id: string
+    linkSlug: string
+    label?: string
+    usageCount: number
+    visitCount?: number
+    signInCount?: number
+    isActive: boolean
+    createdAt: string
+    lastUsedAt?: string
+    expiresAt?: string
+    maxUses?: number
+}
+
+/**
+ * @description Fetches all active sharing links for a playlist, plus its primary link.
+ * @param {string} playlistId - Firestore playlist ID.
+ */
+export function useSharingLinks(playlistId?: string) {
+    return useQuery({
+        queryKey: ['playlist-sharing-link', playlistId],
+        queryFn: async (): Promise<{ sharingLink: SharingLinkSummary | null; sharingLinks: SharingLinkSummary[] }> => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/sharing-link`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch sharing links')
+            }
+
+            return response.json()
+        },
+        enabled: !!playlistId,
+    })
+}
+
+/**
+ * @description Fetches a playlist's contribution and sharing link activity grouped by day, week or month.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {AnalyticsGranularity} granularity - Period to group by.
+ */
+export function useContributionAnalytics(playlistId: string | undefined, granularity: AnalyticsGranularity) {
+    return useQuery({
+        queryKey: ['contribution-analytics', playlistId, granularity],
+        queryFn: async (): Promise<ContributionAnalytics> => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/analytics?groupBy=${granularity}`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch analytics')
+            }
+
+            return response.json()
+        },
+        enabled: !!playlistId,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+    })
+}
+
+/**
+ * @description One playlist the signed-in user has contributed to, with their contributions newest first.
+ */
+export interface MyContributionsPlaylist {
+    playlistId: string
+    playlistName: string
+    ownerName: string
+    linkSlug?: string
+    cooldownUntil?: string
+    lastContributedAt?: string
+    contributions: ContributionHistoryEntry[]
+}
+
+/**
+ * @description Fetches every playlist the signed-in user has contributed to.
+ */
+export function useMyContributions(session: Session) {
+    return useQuery({
+        queryKey: ['my-contributions', session?.user?.id],
+        queryFn: async (): Promise<{ playlists: MyContributionsPlaylist[] }> => {
+            const response = await fetch('/api/spotify/users/contributions')
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch your contributions')
+            }
+
+            return response.json()
+        },
+        enabled: !!session?.user?.id,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+    })
+}
+
+/**
+ * @description Everything one contributor has sent to a playlist, for the owner.
+ */
+export interface ContributorDetail {
+    contributorId: string
+    contributorName: string
+    isBlocked: boolean
+    totalTracks: number
+    tracksInPlaylist: number
+    firstContributedAt?: string
+    contributions: ContributionHistoryEntry[]
+}
+
+/**
+ * @description Fetches one contributor's history on a playlist.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string | null} contributorId - Contributor's internal user ID, or null when none is selected.
+ */
+export function useContributorDetail(playlistId: string | undefined, contributorId: string | null) {
+    return useQuery({
+        queryKey: ['contributor-detail', playlistId, contributorId],
+        queryFn: async (): Promise<ContributorDetail> => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/contributors/${encodeURIComponent(contributorId || '')}`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch contributor')
+            }
+
+            return response.json()
+        },
+        enabled: !!playlistId && !!contributorId,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+    })
+}
+
+/**
+ * @description A contribution held for the owner's review, with its tracks and why it was held.
+ */
+export interface ReviewQueueEntry {
+    id: string
+    contributorId: string
+    contributorName: string
+    createdAt: string
+    spamReasons: SpamReason[]
+    tracks: Omit<ContributionHistoryTrack, 'isInPlaylist'>[]
+}
+
+/**
+ * @description Fetches the contributions held for review on a playlist.
+ * @param {string} playlistId - Firestore playlist ID.
+ */
+export function useReviewQueue(playlistId?: string) {
+    return useQuery({
+        queryKey: ['review-queue', playlistId],
+        queryFn: async (): Promise<{ contributions: ReviewQueueEntry[] }> => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/review-queue`)
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to fetch review queue')
+            }
+
+            return response.json()
+        },
+        enabled: !!playlistId,
+    })
+}
+
+/**
+ * @description Mutation for approving or rejecting a contribution held for review.
+ */
+export function useReviewContribution() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, contributionId, decision }: { playlistId: string; contributionId: string; decision: 'approve' | 'reject' }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/contributions/${contributionId}/review`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ decision })
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to review contribution')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['review-queue'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+            queryClient.invalidateQueries({ queryKey: ['playlist-contributions'] })
+            queryClient.invalidateQueries({ queryKey: ['contribution-analytics'] })
+            queryClient.invalidateQueries({ queryKey: ['playlist-sharing-link'] })
+        },
+        onError: (error) => {
+            console.log(error)
+        },
+    })
+}
+
+/**
+ * @description Mutation for creating a new labeled sharing link for a playlist.
+ */
+export function useCreateSharingLink() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, ...options }: { playlistId: string; label?: string; expiresInDays?: number; maxUses?: number }) => {
+            const response = await fetch('/api/sharing/create-link', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ playlistId, ...options })
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to create sharing link')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['playlist-sharing-link'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+        },
+    })
+}
+
+/**
+ * @description Mutation for renaming one of a playlist's sharing links.
+ */
+export function useRenameSharingLink() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, linkId, label }: { playlistId: string; linkId: string; label: string }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/sharing-link/${linkId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ label })
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to rename sharing link')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['playlist-sharing-link'] })
+        },
+    })
+}
+
+/**
+ * @description Mutation for deactivating one of a playlist's sharing links.
+ */
+export function useDeactivateSharingLink() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ playlistId, linkId }: { playlistId: string; linkId: string }) => {
+            const response = await fetch(`/api/spotify/playlists/${playlistId}/sharing-link/${linkId}`, {
+                method: 'DELETE'
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || 'Failed to deactivate sharing link')
+            }
+
+            return response.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['playlist-sharing-link'] })
+            queryClient.invalidateQueries({ queryKey: ['smas-playlist'] })
+        },
+    })
+}
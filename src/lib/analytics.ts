@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Contribution analytics - groups a playlist's contributions and link activity into time periods.
+ *
+ * Periods are calendar days, weeks (starting Monday) or months in UTC, so they line up with the daily
+ * counters stored on sharing links.
+ */
+import { ANALYTICS_CONFIG } from '@/lib/constants'
+import { toDate } from '@/lib/utils'
+import type { Contribution, SharingLink } from '@/types/firebase'
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month'
+
+export const ANALYTICS_GRANULARITIES: AnalyticsGranularity[] = ['day', 'week', 'month']
+
+/**
+ * @description Activity in one period.
+ */
+export interface AnalyticsBucket {
+  periodStart: string // UTC day the period starts on, e.g. "2025-03-01"
+  contributions: number
+  tracks: number
+  newContributors: number // Contributors whose first contribution was in this period
+  returningContributors: number // Contributors who had contributed in an earlier period
+  visits: number
+  signIns: number
+}
+
+/**
+ * @description A playlist's activity over the most recent periods, oldest first.
+ */
+export interface ContributionAnalytics {
+  granularity: AnalyticsGranularity
+  buckets: AnalyticsBucket[]
+  totals: Omit<AnalyticsBucket, 'periodStart'>
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+/**
+ * @description Formats a date as its UTC day, e.g. "2025-03-01".
+ * @param {Date} date - Date to format.
+ * @returns {string} The UTC day key.
+ */
+export function getDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * @description Finds the start of the period a date falls in.
+ * @param {Date} date - Date within the period.
+ * @param {AnalyticsGranularity} granularity - Period length.
+ * @returns {Date} UTC midnight on the period's first day.
+ */
+function getPeriodStart(date: Date, granularity: AnalyticsGranularity): Date {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  if (granularity === 'day') return new Date(day)
+  if (granularity === 'week') return new Date(day - ((date.getUTCDay() + 6) % 7) * DAY_IN_MS)
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+}
+
+/**
+ * @description Moves a period start forwards or backwards by whole periods.
+ * @param {Date} periodStart - Start of a period.
+ * @param {AnalyticsGranularity} granularity - Period length.
+ * @param {number} count - Number of periods to move (negative to go back).
+ * @returns {Date} Start of the resulting period.
+ */
+function addPeriods(periodStart: Date, granularity: AnalyticsGranularity, count: number): Date {
+  if (granularity === 'month') {
+    return new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + count, 1))
+  }
+  const days = granularity === 'week' ? 7 * count : count
+  return new Date(periodStart.getTime() + days * DAY_IN_MS)
+}
+
+/**
+ * @description Groups contributions and sharing link activity into the most recent periods.
+ * @param {Contribution[]} contributions - The playlist's live contributions (all time, so returning contributors are recognised).
+ * @param {SharingLink[]} sharingLinks - The playlist's sharing links, with their daily stats.
+ * @param {AnalyticsGranularity} granularity - Group by day, week or month.
+ * @param {Date} now - Current time (default: now).
+ * @returns {ContributionAnalytics} One bucket per period, including empty ones, plus totals across them.
+ */
+export function buildContributionAnalytics(
+  contributions: Contribution[],
+  sharingLinks: SharingLink[],
+  granularity: AnalyticsGranularity,
+  now: Date = new Date()
+): ContributionAnalytics {
+  const periods = ANALYTICS_CONFIG.periods[granularity]
+  const firstPeriodStart = addPeriods(getPeriodStart(now, granularity), granularity, -(periods - 1))
+
+  const buckets = new Map<string, AnalyticsBucket>()
+  for (let index = 0; index < periods; index++) {
+    const periodStart = getDayKey(addPeriods(firstPeriodStart, granularity, index))
+    buckets.set(periodStart, {
+      periodStart,
+      contributions: 0,
+      tracks: 0,
+      newContributors: 0,
+      returningContributors: 0,
+      visits: 0,
+      signIns: 0,
+    })
+  }
+  const getBucket = (date: Date) => buckets.get(getDayKey(getPeriodStart(date, granularity)))
+
+  // A contributor is new in the period of their first-ever contribution
+  const firstContributionAt = new Map<string, number>()
+  contributions.forEach(contribution => {
+    const time = toDate(contribution.createdAt).getTime()
+    const first = firstContributionAt.get(contribution.contributorId)
+    if (first === undefined || time < first) {
+      firstContributionAt.set(contribution.contributorId, time)
+    }
+  })
+
+  const contributorsByPeriod = new Map<string, Set<string>>()
+  const windowContributors = new Set<string>()
+  contributions.forEach(contribution => {
+    const createdAt = toDate(contribution.createdAt)
+    const bucket = getBucket(createdAt)
+    if (!bucket) return
+
+    bucket.contributions++
+    bucket.tracks += contribution.spotifyTrackUris.length
+    windowContributors.add(contribution.contributorId)
+
+    const seen = contributorsByPeriod.get(bucket.periodStart) ?? new Set<string>()
+    contributorsByPeriod.set(bucket.periodStart, seen)
+    if (seen.has(contribution.contributorId)) return
+    seen.add(contribution.contributorId)
+
+    const firstPeriod = getDayKey(getPeriodStart(new Date(firstContributionAt.get(contribution.contributorId)!), granularity))
+    if (firstPeriod === bucket.periodStart) {
+      bucket.newContributors++
+    } else {
+      bucket.returningContributors++
+    }
+  })
+
+  sharingLinks.forEach(link => {
+    Object.entries(link.dailyStats ?? {}).forEach(([day, stats]) => {
+      const bucket = getBucket(new Date(`${day}T00:00:00.000Z`))
+      if (!bucket) return
+      bucket.visits += stats.visits ?? 0
+      bucket.signIns += stats.signIns ?? 0
+    })
+  })
+
+  const orderedBuckets = Array.from(buckets.values())
+  const sum = (field: keyof Omit<AnalyticsBucket, 'periodStart'>) =>
+    orderedBuckets.reduce((total, bucket) => total + bucket[field], 0)
+
+  return {
+    granularity,
+    buckets: orderedBuckets,
+    totals: {
+      contributions: sum('contributions'),
+      tracks: sum('tracks'),
+      newContributors: sum('newContributors'),
+      returningContributors: windowContributors.size - sum('newContributors'),
+      visits: sum('visits'),
+      signIns: sum('signIns'),
+    },
+  }
+}
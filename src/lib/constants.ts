@@ -15,16 +15,86 @@ export const SPOTIFY_CONFIG = {
   playlistDescription: 'A collaborative playlist created with Send Me a Song - discover music from friends!',
   topTracksLimit: 5,
   timeRange: 'short_term' as const,
+  timeRanges: ['short_term', 'medium_term', 'long_term'],
+  searchLimit: 10,
   scopes: [
     'user-top-read',
     'playlist-modify-public',
+    'playlist-modify-private',
     'playlist-read-private',
+    'playlist-read-collaborative',
     'user-read-email',
     'user-library-read',
     'ugc-image-upload'
   ].join(' '),
 } as const
 
+export const CONTRIBUTION_CONFIG = {
+  defaultCooldownDays: 28,
+  maxCooldownDays: 365,
+  cooldownDayOptions: [0, 1, 7, 14, 28],
+  defaultMaxTracks: 5,
+  maxTracksLimit: 10,
+  maxTracksOptions: [1, 3, 5, 10],
+  idempotencyKeyPattern: /^[A-Za-z0-9-]{8,64}$/, // Client-generated `Idempotency-Key` header values
+} as const
+
+export const SHARING_LINK_CONFIG = {
+  maxLabelLength: 50,
+  maxActiveLinks: 20,
+  maxExpiryDays: 365,
+  maxUsesLimit: 1000,
+  expiryDayOptions: [1, 7, 30],
+  maxUsesOptions: [1, 5, 10, 25],
+} as const
+
+export const PLAYLIST_CONFIG = {
+  maxNameLength: 100,
+  maxDescriptionLength: 300, // Spotify truncates longer descriptions
+  maxCoverUploadBytes: 5 * 1024 * 1024, // Largest image accepted before resizing
+  maxCoverPayloadBytes: 256 * 1024, // Spotify's limit for the base64-encoded JPEG
+  coverSize: 640, // Covers are cropped to a square of this many pixels
+  maxActivePlaylists: 10, // Archived playlists don't count
+  maxCoOwners: 5,
+  coOwnerScopes: ['playlist-modify-private', 'playlist-read-collaborative'], // Needed to share a collaborative playlist
+} as const
+
+export const ANALYTICS_CONFIG = {
+  periods: { day: 30, week: 12, month: 12 }, // How many of the most recent periods to return
+} as const
+
+export const MATCH_CONFIG = {
+  topItemsLimit: 50, // Top tracks and artists compared per user
+  timeRange: 'medium_term' as const,
+  cacheTtlHours: 24, // How long a user's cached top data is reused
+  maxSharedNames: 5, // Shared artists and genres shown to the visitor
+} as const
+
+export const SPAM_CONFIG = {
+  reviewThreshold: 0.5, // Contributions scoring at least this are held for the owner's review
+  weights: {
+    new_account: 0.3, // Signed up to SMAS recently
+    cross_playlist_burst: 0.5, // Contributed to many playlists in a short window
+    repeated_track_set: 0.5, // The same tracks were sent to many playlists
+    link_burst: 0.3, // The link received many contributions in a short window
+  },
+  newAccountHours: 24,
+  crossPlaylistWindowHours: 1,
+  crossPlaylistThreshold: 3, // Other playlists contributed to within the window
+  trackSetWindowDays: 7,
+  trackSetThreshold: 3, // Other playlists sent the same tracks within the window
+  linkBurstWindowMinutes: 10,
+  linkBurstThreshold: 5, // Other contributions through the link within the window
+} as const
+
+export const RATE_LIMIT_CONFIG = {
+  // By user, plus a looser per-IP limit so friends on the same Wi-Fi don't block each other
+  contribute: { name: 'contribute', limit: 1, ipLimit: 20, windowSeconds: 60 },
+  // By IP, shared by every route that looks up a slug, to stop slug enumeration
+  sharingLinkLookup: { name: 'sharing-link-lookup', limit: 30, windowSeconds: 60 },
+  createLink: { name: 'create-link', limit: 10, windowSeconds: 10 * 60 }, // By user and IP
+} as const
+
 export const API_ENDPOINTS = {
   spotify: {
     base: 'https://api.spotify.com/v1',
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Contribution history - what a contributor sent over time and whether it's still in the playlist.
+ *
+ * Used by the "my contributions" page and the owner's contributor detail view. Contributions only store track URIs,
+ * so track names are looked up on Spotify, and the playlist is read with an owner's stored token because
+ * collaborative playlists are private.
+ */
+import { getPlaylistTracks, getTracks } from '@/lib/spotify'
+import { toDate } from '@/lib/utils'
+import { getPlaylistOwnerIds } from '@/services/firebase/playlists'
+import { getFirstStoredAccessToken } from '@/services/firebase/users'
+import type { Contribution, ContributionStatus, Playlist } from '@/types/firebase'
+
+/**
+ * @description A track a contributor sent.
+ */
+export interface ContributionHistoryTrack {
+  uri: string
+  name: string
+  artist: string
+  imageUrl?: string
+  isInPlaylist: boolean | null // Null when the playlist couldn't be read
+}
+
+/**
+ * @description One contribution with its tracks, with timestamps serialized to ISO strings.
+ */
+export interface ContributionHistoryEntry {
+  id: string
+  createdAt: string
+  status: ContributionStatus
+  tracks: ContributionHistoryTrack[]
+}
+
+/**
+ * @description Track details looked up on Spotify, keyed by track URI.
+ */
+export type TrackDetails = Map<string, Pick<ContributionHistoryTrack, 'name' | 'artist' | 'imageUrl'>>
+
+/**
+ * @description Checks whether a contribution's tracks were added to the playlist at some point.
+ * @param {ContributionStatus} [status] - Contribution status; missing on older records, which were added.
+ * @returns {boolean} True for active and revoked contributions.
+ */
+function isAddedStatus(status?: ContributionStatus): boolean {
+  return status === undefined || status === 'active' || status === 'revoked'
+}
+
+/**
+ * @description Converts contributions into history entries, newest first. Tracks still being processed are left out.
+ * @param {Contribution[]} contributions - Contributions to convert.
+ * @param {TrackDetails} trackDetails - Track details by URI.
+ * @param {Set<string> | null} playlistTrackUris - URIs currently in the playlist, or null if unknown.
+ * @returns {ContributionHistoryEntry[]} The history entries.
+ */
+export function buildContributionHistory(
+  contributions: Contribution[],
+  trackDetails: TrackDetails,
+  playlistTrackUris: Set<string> | null
+): ContributionHistoryEntry[] {
+  return contributions
+    .filter(contribution => contribution.status !== 'processing')
+    .sort((a, b) => toDate(b.createdAt).getTime() - toDate(a.createdAt).getTime())
+    .map(contribution => ({
+      id: contribution.id,
+      createdAt: toDate(contribution.createdAt).toISOString(),
+      status: contribution.status ?? 'active',
+      tracks: contribution.spotifyTrackUris.map(uri => ({
+        uri,
+        name: trackDetails.get(uri)?.name || 'Unknown Track',
+        artist: trackDetails.get(uri)?.artist || 'Unknown Artist',
+        imageUrl: trackDetails.get(uri)?.imageUrl,
+        // Held and declined tracks were never added, so "Removed" would be misleading
+        isInPlaylist: playlistTrackUris && isAddedStatus(contribution.status) ? playlistTrackUris.has(uri) : null,
+      })),
+    }))
+}
+
+/**
+ * @description Looks up track names, artists and covers on Spotify.
+ * @param {string} accessToken - Any user's Spotify access token.
+ * @param {string[]} trackUris - Track URIs to look up.
+ * @returns {Promise<TrackDetails>} Track details by URI; unknown tracks are left out.
+ */
+export async function getTrackDetails(accessToken: string, trackUris: string[]): Promise<TrackDetails> {
+  const uniqueUris = [...new Set(trackUris)]
+  const tracks = await getTracks(accessToken, uniqueUris.map(uri => uri.replace('spotify:track:', '')))
+
+  const trackDetails: TrackDetails = new Map()
+  tracks.forEach(track => {
+    if (!track?.uri) return
+    trackDetails.set(track.uri, {
+      name: track.name,
+      artist: track.artists?.[0]?.name || 'Unknown Artist',
+      imageUrl: track.album?.images?.[0]?.url,
+    })
+  })
+  return trackDetails
+}
+
+/**
+ * @description Reads which tracks are currently in a playlist, using an owner's or co-owner's stored token.
+ * @param {Playlist} playlist - Firestore playlist.
+ * @returns {Promise<Set<string> | null>} The playlist's track URIs, or null if it couldn't be read.
+ */
+export async function getPlaylistTrackUris(playlist: Playlist): Promise<Set<string> | null> {
+  if (playlist.orphanedAt) return null
+
+  const tokenResult = await getFirstStoredAccessToken(getPlaylistOwnerIds(playlist))
+  if (!tokenResult.success || !tokenResult.data) return null
+
+  try {
+    const playlistTracks = await getPlaylistTracks(tokenResult.data.accessToken, playlist.spotifyPlaylistId)
+    return new Set((playlistTracks?.items || []).map((item: any) => item.track?.uri).filter(Boolean))
+  } catch (error) {
+    console.error('Failed to fetch playlist tracks:', error)
+    return null
+  }
+}
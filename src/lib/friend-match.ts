@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Friend match - scores how similar two users' listening is from their top tracks, artists, and genres.
+ *
+ * The result only names shared artists and genres, never Spotify IDs, so it's safe to show to share page visitors.
+ */
+import { MATCH_CONFIG } from '@/lib/constants'
+import type { TopArtist, TopSong, UserTopSongs } from '@/types/firebase'
+
+/**
+ * @description How similar a visitor's listening is to a playlist owner's.
+ */
+export interface FriendMatch {
+  score: number // 0-100
+  sharedArtists: string[] // Artist names, the visitor's favourites first
+  sharedGenres: string[]
+  sharedTrackCount: number
+}
+
+// Shared artists say the most about taste, genres a little less, and exact tracks rarely overlap
+const WEIGHTS = { artists: 0.5, genres: 0.3, tracks: 0.2 }
+
+/**
+ * @description Converts Spotify top tracks and artists responses into the cached top data format.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @param {any} topTracks - Spotify top tracks response.
+ * @param {any} topArtists - Spotify top artists response.
+ * @returns {Omit<UserTopSongs, 'lastFetched'>} The user's top data.
+ */
+export function toUserTopSongs(spotifyUserId: string, topTracks: any, topArtists: any): Omit<UserTopSongs, 'lastFetched'> {
+  const songs: TopSong[] = (topTracks?.items || []).filter((track: any) => track?.id).map((track: any, index: number) => ({
+    spotifyTrackId: track.id,
+    name: track.name,
+    artist: track.artists?.[0]?.name || 'Unknown Artist',
+    rank: index + 1,
+  }))
+  const artists: TopArtist[] = (topArtists?.items || []).filter((artist: any) => artist?.id).map((artist: any, index: number) => ({
+    spotifyArtistId: artist.id,
+    name: artist.name,
+    genres: artist.genres || [],
+    rank: index + 1,
+  }))
+
+  // Count each genre once per artist, then order by how many top artists share it
+  const genreCounts = new Map<string, number>()
+  artists.forEach(artist => {
+    artist.genres.forEach(genre => genreCounts.set(genre, (genreCounts.get(genre) || 0) + 1))
+  })
+  const genres = [...genreCounts.entries()].sort((a, b) => b[1] - a[1]).map(([genre]) => genre)
+
+  return { userId: spotifyUserId, songs, artists, genres }
+}
+
+/**
+ * @description Measures how much of the smaller set is shared, so a short history isn't penalized.
+ * @param {Set<string>} a - First set.
+ * @param {Set<string>} b - Second set.
+ * @returns {number} The overlap, from 0 to 1.
+ */
+function getOverlap(a: Set<string>, b: Set<string>): number {
+  const smallerSize = Math.min(a.size, b.size)
+  if (smallerSize === 0) return 0
+
+  let shared = 0
+  a.forEach(item => {
+    if (b.has(item)) shared++
+  })
+  return shared / smallerSize
+}
+
+/**
+ * @description Scores how similar a visitor's listening is to a playlist owner's.
+ * @param {Pick<UserTopSongs, 'songs' | 'artists' | 'genres'>} visitor - The visitor's top data.
+ * @param {Pick<UserTopSongs, 'songs' | 'artists' | 'genres'>} owner - The owner's top data.
+ * @returns {FriendMatch} The score and what the two have in common.
+ */
+export function computeFriendMatch(
+  visitor: Pick<UserTopSongs, 'songs' | 'artists' | 'genres'>,
+  owner: Pick<UserTopSongs, 'songs' | 'artists' | 'genres'>
+): FriendMatch {
+  const visitorArtistIds = new Set(visitor.artists.map(artist => artist.spotifyArtistId))
+  const ownerArtistIds = new Set(owner.artists.map(artist => artist.spotifyArtistId))
+  const visitorTrackIds = new Set(visitor.songs.map(song => song.spotifyTrackId))
+  const ownerTrackIds = new Set(owner.songs.map(song => song.spotifyTrackId))
+  const visitorGenres = new Set(visitor.genres)
+  const ownerGenres = new Set(owner.genres)
+
+  const score = WEIGHTS.artists * getOverlap(visitorArtistIds, ownerArtistIds)
+    + WEIGHTS.genres * getOverlap(visitorGenres, ownerGenres)
+    + WEIGHTS.tracks * getOverlap(visitorTrackIds, ownerTrackIds)
+
+  return {
+    score: Math.round(score * 100),
+    sharedArtists: visitor.artists
+      .filter(artist => ownerArtistIds.has(artist.spotifyArtistId))
+      .slice(0, MATCH_CONFIG.maxSharedNames)
+      .map(artist => artist.name),
+    sharedGenres: visitor.genres.filter(genre => ownerGenres.has(genre)).slice(0, MATCH_CONFIG.maxSharedNames),
+    sharedTrackCount: [...visitorTrackIds].filter(id => ownerTrackIds.has(id)).length,
+  }
+}
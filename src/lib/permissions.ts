@@ -107,7 +107,9 @@ export function getMissingScopes(
 export const REQUIRED_SPOTIFY_SCOPES = [
     'user-top-read',
     'playlist-modify-public',
+    'playlist-modify-private',
     'playlist-read-private',
+    'playlist-read-collaborative',
     'user-read-email',
     'user-library-read',
     'ugc-image-upload'
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Playlist access - resolves whether the signed-in user owns or co-owns a playlist.
+ *
+ * Shared by routes that only owners may use and by read routes that return a reduced public view to everyone else.
+ */
+import { getPlaylistById, isPlaylistOwner } from '@/services/firebase/playlists'
+import { getUserByNextAuthId } from '@/services/firebase/users'
+import type { DatabaseResult, Playlist, UserProfile } from '@/types/firebase'
+
+/**
+ * @description A playlist and what the viewer may see of it.
+ */
+export interface PlaylistAccess {
+  playlist: Playlist
+  user: UserProfile | null // Null for signed-out viewers or unknown users
+  isOwner: boolean // True for the primary owner and co-owners
+  isPrimaryOwner: boolean // True only for the Spotify user who owns the playlist, for actions co-owners can't take
+}
+
+/**
+ * @description Loads a playlist and checks whether a user owns or co-owns it.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string | null} [nextAuthUserId] - The viewer's NextAuth user ID, if they're signed in.
+ * @returns {Promise<DatabaseResult<PlaylistAccess>>} The playlist and the viewer's access, or an error if it doesn't exist.
+ */
+export async function getPlaylistAccess(playlistId: string, nextAuthUserId?: string | null): Promise<DatabaseResult<PlaylistAccess>> {
+  const playlistResult = await getPlaylistById(playlistId)
+  if (!playlistResult.success || !playlistResult.data) {
+    return {
+      success: false,
+      error: playlistResult.error || 'Playlist not found',
+    }
+  }
+  const playlist = playlistResult.data
+
+  const userResult = nextAuthUserId ? await getUserByNextAuthId(nextAuthUserId) : null
+  const user = userResult?.success && userResult.data ? userResult.data : null
+
+  return {
+    success: true,
+    data: {
+      playlist,
+      user,
+      isOwner: !!user && isPlaylistOwner(playlist, user.spotifyUserId),
+      isPrimaryOwner: !!user && playlist.spotifyUserId === user.spotifyUserId,
+    },
+  }
+}
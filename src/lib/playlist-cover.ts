@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Playlist cover image processing for custom cover uploads.
+ *
+ * Crops uploads to a square and re-encodes them as JPEG, lowering the quality until the base64 payload fits
+ * Spotify's 256KB limit. Server-side only.
+ */
+
+import sharp from 'sharp'
+import { PLAYLIST_CONFIG } from './constants'
+
+const JPEG_QUALITIES = [90, 80, 70, 60, 50, 40]
+
+export class CoverImageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CoverImageError'
+  }
+}
+
+/**
+ * @description Resizes a JPEG upload into a Spotify playlist cover.
+ * @param {Buffer} image - The uploaded image bytes.
+ * @returns {Promise<string>} Base64-encoded JPEG (no data URI prefix), within Spotify's size limit.
+ * @throws {CoverImageError} When the upload is too large, not a JPEG, or can't be shrunk enough.
+ */
+export async function prepareCoverImage(image: Buffer): Promise<string> {
+  if (image.length > PLAYLIST_CONFIG.maxCoverUploadBytes) {
+    throw new CoverImageError(`Cover image must be ${PLAYLIST_CONFIG.maxCoverUploadBytes / (1024 * 1024)}MB or smaller`)
+  }
+
+  const metadata = await sharp(image).metadata().catch(() => null)
+  if (metadata?.format !== 'jpeg') {
+    throw new CoverImageError('Cover image must be a JPEG')
+  }
+
+  const resized = sharp(image)
+    .rotate() // Apply EXIF orientation before cropping
+    .resize(PLAYLIST_CONFIG.coverSize, PLAYLIST_CONFIG.coverSize, { fit: 'cover' })
+
+  for (const quality of JPEG_QUALITIES) {
+    const encoded = (await resized.clone().jpeg({ quality }).toBuffer()).toString('base64')
+    if (encoded.length <= PLAYLIST_CONFIG.maxCoverPayloadBytes) {
+      return encoded
+    }
+  }
+
+  throw new CoverImageError('Cover image is too detailed to fit Spotify\'s 256KB limit')
+}
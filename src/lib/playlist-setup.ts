@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Server-side helpers for setting up SMAS playlists (Admin SDK).
+ *
+ * Shared by the playlists route and the share page's send-back flow: creates a Spotify playlist with the SMAS cover,
+ * its Firestore record and its own sharing link, and converts Firestore playlists into the dashboard's format with
+ * each track credited to the friend who added it.
+ */
+import { createPlaylist as createSpotifyPlaylist, uploadPlaylistCoverImage } from '@/lib/spotify'
+import { APP_CONFIG } from '@/lib/constants'
+import { toDate } from '@/lib/utils'
+import smasCoverBase64 from '@/public/smas-cover-base64'
+import {
+  getOrCreatePlaylist,
+  getPlaylistsByOwner,
+  getPlaylistCooldownDays,
+  getPlaylistMaxTracks,
+} from '@/services/firebase/playlists'
+import { createSharingLink, generateUniqueLinkSlug } from '@/services/firebase/sharing-links'
+import type { Playlist as StorePlaylist, Song } from '@/stores/playlist-store'
+import type { Contribution, Playlist, SharingLink } from '@/types/firebase'
+
+/**
+ * @description Retrieves the owner's active playlists, oldest first.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<Playlist[]>} The owner's playlists.
+ */
+export async function getOwnerPlaylists(spotifyUserId: string): Promise<Playlist[]> {
+  const userPlaylistsResult = await getPlaylistsByOwner(spotifyUserId)
+  const playlists = userPlaylistsResult.success && userPlaylistsResult.data ? userPlaylistsResult.data : []
+  return [...playlists].sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())
+}
+
+/**
+ * @description Who added each track, keyed by Spotify track ID, ready to merge into the dashboard's songs.
+ */
+export type SongAttributions = Record<string, Pick<Song, 'contributorId' | 'contributorName' | 'addedAt' | 'linkLabel'>>
+
+/**
+ * @description Works out who added each track to a playlist. Attributions stored with the playlist win; tracks
+ * contributed before they were recorded fall back to the earliest live contribution that sent them.
+ * @param {Playlist} firestorePlaylist - Firestore playlist.
+ * @param {Contribution[]} contributions - The playlist's live contributions.
+ * @param {SharingLink[]} sharingLinks - The playlist's sharing links, for their labels.
+ * @returns {SongAttributions} Attributions by Spotify track ID.
+ */
+export function getSongAttributions(
+  firestorePlaylist: Playlist,
+  contributions: Contribution[],
+  sharingLinks: SharingLink[]
+): SongAttributions {
+  const attributions: SongAttributions = {}
+
+  // Oldest first, so the first contributor of a track keeps the credit
+  const sortedContributions = [...contributions].sort((a, b) => toDate(a.createdAt).getTime() - toDate(b.createdAt).getTime())
+  sortedContributions.forEach(contribution => {
+    contribution.spotifyTrackUris.forEach(uri => {
+      const trackId = uri.replace('spotify:track:', '')
+      if (attributions[trackId]) return
+      attributions[trackId] = {
+        contributorId: contribution.contributorId,
+        contributorName: contribution.contributorName,
+        addedAt: toDate(contribution.createdAt).toISOString(),
+      }
+    })
+  })
+
+  const linkLabels = new Map(sharingLinks.map(link => [link.id, link.label]))
+  Object.entries(firestorePlaylist.trackAttributions || {}).forEach(([trackId, attribution]) => {
+    attributions[trackId] = {
+      contributorId: attribution.contributorId,
+      contributorName: attribution.contributorName,
+      addedAt: toDate(attribution.addedAt).toISOString(),
+      linkLabel: attribution.linkId ? linkLabels.get(attribution.linkId) : undefined,
+    }
+  })
+
+  return attributions
+}
+
+/**
+ * @description Converts a Firestore playlist and its Spotify tracks into the dashboard's playlist format.
+ * @param {Playlist} firestorePlaylist - Firestore playlist.
+ * @param {any[]} trackItems - Spotify playlist track items.
+ * @param {string} shareLink - Full URL of the playlist's primary sharing link.
+ * @param {boolean} isOrphaned - Whether the Spotify playlist was deleted.
+ * @param {string} spotifyUserId - Spotify user ID of the signed-in owner or co-owner.
+ * @param {SongAttributions} attributions - Who added each track through SMAS.
+ * @returns {StorePlaylist} The playlist for the dashboard.
+ */
+export function toStorePlaylist(
+  firestorePlaylist: Playlist,
+  trackItems: any[],
+  shareLink: string,
+  isOrphaned: boolean,
+  spotifyUserId: string,
+  attributions: SongAttributions = {}
+): StorePlaylist {
+  return {
+    id: firestorePlaylist.spotifyPlaylistId,
+    name: firestorePlaylist.name,
+    description: firestorePlaylist.description,
+    // Skip unavailable tracks, which come back as null
+    songs: trackItems.filter((item: any) => item.track).map((item: any) => ({
+      id: item.track.id,
+      name: item.track.name,
+      artist: item.track.artists[0]?.name || 'Unknown Artist',
+      album: item.track.album?.name || 'Unknown Album',
+      imageUrl: item.track.album?.images[0]?.url,
+      // Tracks added outside SMAS still show when they were added on Spotify
+      addedAt: item.added_at || undefined,
+      ...attributions[item.track.id],
+    })),
+    contributors: [],
+    shareLink,
+    firestoreId: firestorePlaylist.id,
+    contributionCooldownDays: getPlaylistCooldownDays(firestorePlaylist),
+    maxTracksPerContribution: getPlaylistMaxTracks(firestorePlaylist),
+    requiresApproval: firestorePlaylist.requiresApproval ?? false,
+    isOrphaned,
+    coOwnerIds: firestorePlaylist.coOwnerIds || [],
+    isCoOwned: firestorePlaylist.spotifyUserId !== spotifyUserId,
+  }
+}
+
+/**
+ * @description Creates a playlist on Spotify with the SMAS cover, records it in Firestore, and gives it its own sharing link.
+ * @param {string} accessToken - Owner's Spotify access token.
+ * @param {string} spotifyUserId - Owner's Spotify user ID.
+ * @param {string} ownerName - Owner's display name for the sharing link.
+ * @param {string} name - Playlist name.
+ * @param {string} description - Playlist description.
+ * @returns {Promise<StorePlaylist>} The new playlist for the dashboard.
+ */
+export async function createSmasPlaylist(
+  accessToken: string,
+  spotifyUserId: string,
+  ownerName: string,
+  name: string,
+  description: string
+): Promise<StorePlaylist> {
+  // 1. Create the playlist on Spotify
+  const smasPlaylist = await createSpotifyPlaylist(accessToken, spotifyUserId, name, description, true)
+
+  // 2. Upload the static SMAS cover image
+  try {
+    console.log(`Uploading SMAS cover image to playlist ${smasPlaylist.id}`)
+    await uploadPlaylistCoverImage(accessToken, smasPlaylist.id, smasCoverBase64)
+  } catch (err) {
+    console.error('Failed to upload SMAS cover image:', err)
+  }
+
+  // 3. Create the Firestore playlist record
+  const firestoreResult = await getOrCreatePlaylist({
+    spotifyPlaylistId: smasPlaylist.id,
+    spotifyUserId: spotifyUserId,
+    name: smasPlaylist.name,
+    description: smasPlaylist.description,
+  })
+  if (!firestoreResult.success || !firestoreResult.data) {
+    throw new Error(firestoreResult.error || 'Failed to save playlist')
+  }
+
+  // 4. Every playlist gets its own sharing link, which becomes its primary link
+  let shareLink = ''
+  const slugResult = await generateUniqueLinkSlug()
+  if (slugResult.success && typeof slugResult.data === 'string') {
+    const linkResult = await createSharingLink({
+      playlistId: firestoreResult.data.id,
+      spotifyUserId: spotifyUserId,
+      ownerName,
+      linkSlug: slugResult.data,
+    })
+    if (linkResult.success && linkResult.data) {
+      shareLink = `${APP_CONFIG.url}/share/${linkResult.data.linkSlug}`
+    }
+  }
+
+  // 5. A new playlist has no tracks yet
+  return toStorePlaylist(firestoreResult.data, [], shareLink, false, spotifyUserId)
+}
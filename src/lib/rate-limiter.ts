@@ -1,7 +1,8 @@
 /**
  * @fileoverview Rate limiting utility for Spotify API requests.
  *
- * Handles rate limiting with exponential backoff and retry logic for robust API interactions.
+ * Handles per-access-token request budgets, Spotify's Retry-After header, and exponential backoff
+ * for robust API interactions.
  */
 
 export interface RateLimitConfig {
@@ -9,12 +10,14 @@ export interface RateLimitConfig {
     baseDelay: number
     maxDelay: number
     backoffMultiplier: number
+    bucketCapacity: number // Max burst of requests per access token
+    refillRate: number // Requests per second added back to each bucket
 }
 
-export interface RateLimitState {
-    lastRequestTime: number
-    requestCount: number
-    resetTime: number
+export interface TokenBucketState {
+    tokens: number
+    lastRefillTime: number
+    blockedUntil: number // Set from Retry-After; no requests for this key before then
 }
 
 const DEFAULT_CONFIG: RateLimitConfig = {
@@ -22,17 +25,18 @@ const DEFAULT_CONFIG: RateLimitConfig = {
     baseDelay: 1000, // 1 second
     maxDelay: 30000, // 30 seconds
     backoffMultiplier: 2,
+    bucketCapacity: 10,
+    refillRate: 10,
 }
 
+const DEFAULT_KEY = 'default'
+const BUCKET_IDLE_TTL = 10 * 60 * 1000 // Drop buckets unused for 10 minutes
+
 /**
- * @description Rate limiter class for managing API request limits.
+ * @description Rate limiter class for managing API request limits, with one token bucket per key.
  */
 export class RateLimiter {
-    private state: RateLimitState = {
-        lastRequestTime: 0,
-        requestCount: 0,
-        resetTime: 0,
-    }
+    private buckets = new Map<string, TokenBucketState>()
 
     private config: RateLimitConfig
 
@@ -41,47 +45,96 @@ export class RateLimiter {
     }
 
     /**
-     * @description Updates rate limit state from API response headers.
+     * @description Updates rate limit state for a key from API response headers (honors Retry-After).
      * @param {Headers} headers - Response headers from Spotify API.
+     * @param {string} key - Bucket key, usually the access token.
      */
-    updateFromHeaders(headers: Headers): void {
+    updateFromHeaders(headers: Headers, key: string = DEFAULT_KEY): void {
         if (!headers || typeof (headers as any).get !== 'function') {
             return
         }
-        const remaining = headers.get('X-RateLimit-Remaining')
-        const reset = headers.get('X-RateLimit-Reset')
-        const limit = headers.get('X-RateLimit-Limit')
-
-        if (reset) {
-            this.state.resetTime = parseInt(reset) * 1000 // Convert to milliseconds
+        const retryAfter = headers.get('Retry-After')
+        if (!retryAfter) {
+            return
         }
 
-        if (remaining) {
-            this.state.requestCount = parseInt(limit || '0') - parseInt(remaining)
+        const retryAfterSeconds = parseInt(retryAfter, 10)
+        if (isNaN(retryAfterSeconds)) {
+            return
         }
+
+        const bucket = this.getBucket(key)
+        bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfterSeconds * 1000)
     }
 
     /**
-     * @description Checks if we should wait before making a request.
+     * @description Reserves a request from the key's bucket, waiting for Retry-After or refill if needed.
+     * @param {string} key - Bucket key, usually the access token.
      * @returns {Promise<void>} Resolves when it's safe to make a request.
      */
-    async waitIfNeeded(): Promise<void> {
+    async waitIfNeeded(key: string = DEFAULT_KEY): Promise<void> {
+        const bucket = this.getBucket(key)
         const now = Date.now()
 
-        // If we've hit the rate limit, wait until reset
-        if (this.state.resetTime > now) {
-            const waitTime = this.state.resetTime - now + 1000 // Add 1 second buffer
-            await this.delay(waitTime)
-            this.state.requestCount = 0
+        // Respect Retry-After before anything else
+        if (bucket.blockedUntil > now) {
+            await this.delay(bucket.blockedUntil - now)
+        }
+
+        // Reserve a token synchronously so concurrent callers queue up behind each other
+        this.refill(bucket)
+        bucket.tokens -= 1
+
+        if (bucket.tokens < 0) {
+            await this.delay((-bucket.tokens / this.config.refillRate) * 1000)
+        }
+    }
+
+    /**
+     * @description Returns the bucket for a key, creating it (and pruning idle ones) if needed.
+     * @param {string} key - Bucket key.
+     * @returns {TokenBucketState} The bucket state.
+     */
+    private getBucket(key: string): TokenBucketState {
+        let bucket = this.buckets.get(key)
+        if (bucket) {
+            return bucket
         }
 
-        // Add small delay between requests to be respectful
-        const timeSinceLastRequest = now - this.state.lastRequestTime
-        if (timeSinceLastRequest < 100) {
-            await this.delay(100 - timeSinceLastRequest)
+        this.pruneIdleBuckets()
+        bucket = {
+            tokens: this.config.bucketCapacity,
+            lastRefillTime: Date.now(),
+            blockedUntil: 0,
         }
+        this.buckets.set(key, bucket)
+        return bucket
+    }
 
-        this.state.lastRequestTime = Date.now()
+    /**
+     * @description Adds tokens to a bucket for the time elapsed since its last refill.
+     * @param {TokenBucketState} bucket - Bucket to refill.
+     */
+    private refill(bucket: TokenBucketState): void {
+        const now = Date.now()
+        const elapsedSeconds = (now - bucket.lastRefillTime) / 1000
+        bucket.tokens = Math.min(
+            this.config.bucketCapacity,
+            bucket.tokens + elapsedSeconds * this.config.refillRate
+        )
+        bucket.lastRefillTime = now
+    }
+
+    /**
+     * @description Removes buckets that have been idle long enough to be full again.
+     */
+    private pruneIdleBuckets(): void {
+        const now = Date.now()
+        this.buckets.forEach((bucket, key) => {
+            if (now - bucket.lastRefillTime > BUCKET_IDLE_TTL && bucket.blockedUntil < now) {
+                this.buckets.delete(key)
+            }
+        })
     }
 
     /**
@@ -106,28 +159,35 @@ export class RateLimiter {
     /**
      * @description Executes a function with rate limiting and retry logic.
      * @param {Function} fn - Function to execute.
+     * @param {string} key - Bucket key, usually the access token.
      * @returns {Promise<T>} Result of the function.
      */
-    async executeWithRetry<T>(fn: () => Promise<T>): Promise<T> {
+    async executeWithRetry<T>(fn: () => Promise<T>, key: string = DEFAULT_KEY): Promise<T> {
         let lastError: Error
 
         for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
             try {
-                await this.waitIfNeeded()
+                await this.waitIfNeeded(key)
                 return await fn()
             } catch (error) {
                 lastError = error as Error
 
-                // Check if it's a rate limit error
-                if (this.isRateLimitError(error)) {
-                    if (attempt < this.config.maxRetries) {
-                        const delay = this.calculateBackoffDelay(attempt)
-                        await this.delay(delay)
+                if (this.isRetryableError(error) && attempt < this.config.maxRetries) {
+                    const retryAfterWait = this.getBucket(key).blockedUntil - Date.now()
+
+                    // Retry-After was given: waitIfNeeded sleeps for it, unless it's too long to hold the request open
+                    if (retryAfterWait > 0) {
+                        if (retryAfterWait > this.config.maxDelay) {
+                            throw error
+                        }
                         continue
                     }
+
+                    await this.delay(this.calculateBackoffDelay(attempt))
+                    continue
                 }
 
-                // For non-rate-limit errors, don't retry
+                // For non-retryable errors, don't retry
                 throw error
             }
         }
@@ -136,26 +196,27 @@ export class RateLimiter {
     }
 
     /**
-     * @description Checks if an error is a rate limit error.
+     * @description Checks if an error is a rate limit (429) or server (5xx) error by its HTTP status.
      * @param {unknown} error - Error to check.
-     * @returns {boolean} True if it's a rate limit error.
+     * @returns {boolean} True if the request should be retried.
      */
-    private isRateLimitError(error: unknown): boolean {
-        if (error instanceof Error) {
-            return error.message.includes('429') ||
-                error.message.includes('rate limit') ||
-                error.message.includes('too many requests')
+    private isRetryableError(error: unknown): boolean {
+        const status = (error as any)?.status
+        if (typeof status !== 'number') {
+            return false
         }
-        return false
+        return status === 429 || (status >= 500 && status < 600)
     }
 }
 
 /**
- * @description Global rate limiter instance for Spotify API.
+ * @description Global rate limiter instance for Spotify API, keyed by access token.
  */
 export const spotifyRateLimiter = new RateLimiter({
     maxRetries: 3,
     baseDelay: 1000,
     maxDelay: 30000,
     backoffMultiplier: 2,
-}) 
\ No newline at end of file
+    bucketCapacity: 10,
+    refillRate: 10,
+})
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Rate limiting for incoming API requests, by user and client IP.
+ *
+ * Counts requests in fixed windows kept in a pluggable store: in memory for a single server, or in Firestore (see
+ * `services/firebase/rate-limits`) so the limit holds across serverless instances. This module has no server-only
+ * imports, so it works in route handlers and middleware. Limited requests get a 429 with a `Retry-After` header.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * @description A limit on how often one user or IP can call a route.
+ */
+export interface RateLimitRule {
+    name: string // Namespaces the counters, so each route has its own budget
+    limit: number // Requests allowed per window
+    ipLimit?: number // Requests allowed per window per IP, when people behind one address need more room than `limit`
+    windowSeconds: number
+}
+
+/**
+ * @description A counter's state after a request was counted.
+ */
+export interface RateLimitHit {
+    count: number // Requests in the current window, including this one
+    resetAt: number // Epoch millis when the window ends
+}
+
+/**
+ * @description Where request counters are kept.
+ */
+export interface RateLimitStore {
+    /**
+     * @description Counts a request against a key, starting a new window if the last one ended.
+     * @param {string} key - Counter key.
+     * @param {number} windowMs - Window length in milliseconds.
+     * @returns {Promise<RateLimitHit>} The counter after this request.
+     */
+    hit(key: string, windowMs: number): Promise<RateLimitHit>
+}
+
+/**
+ * @description Whether a request is allowed, and if not, how long the caller must wait.
+ */
+export interface RateLimitResult {
+    allowed: boolean
+    retryAfterSeconds: number // 0 when allowed
+}
+
+const MAX_MEMORY_KEYS = 10000 // Expired counters are pruned once the store grows past this
+
+/**
+ * @description Keeps counters in this server's memory. Each serverless instance has its own counters, so use the
+ * Firestore store where requests spread across instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private counters = new Map<string, RateLimitHit>()
+
+    async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+        const now = Date.now()
+        const current = this.counters.get(key)
+
+        if (current && current.resetAt > now) {
+            current.count += 1
+            return { ...current }
+        }
+
+        if (this.counters.size >= MAX_MEMORY_KEYS) {
+            this.pruneExpired(now)
+        }
+        const counter = { count: 1, resetAt: now + windowMs }
+        this.counters.set(key, counter)
+        return { ...counter }
+    }
+
+    /**
+     * @description Removes counters whose window has ended.
+     * @param {number} now - Current epoch millis.
+     */
+    private pruneExpired(now: number): void {
+        this.counters.forEach((counter, key) => {
+            if (counter.resetAt <= now) {
+                this.counters.delete(key)
+            }
+        })
+    }
+}
+
+/**
+ * @description Gets the client's IP address as seen by the hosting platform. Vercel sets `x-real-ip` itself; other
+ * proxies append the address they saw to `x-forwarded-for`, so only its last entry is trusted. Earlier entries come
+ * from the client and can be anything.
+ * @param {NextRequest} request - The incoming request.
+ * @returns {string | null} The client IP, or null if it isn't known.
+ */
+export function getClientIp(request: NextRequest): string | null {
+    const realIp = request.headers.get('x-real-ip')?.trim()
+    const lastForwardedFor = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    return realIp || lastForwardedFor || null
+}
+
+/**
+ * @description Counts a request against each identifier. It's limited if any of them is over the rule's limit.
+ * @param {RateLimitStore} store - Where counters are kept.
+ * @param {RateLimitRule} rule - The limit to apply.
+ * @param {string[]} identifiers - Who made the request, e.g. `user:<id>` and `ip:<address>`.
+ * @returns {Promise<RateLimitResult>} Whether the request is allowed.
+ */
+export async function checkRateLimit(
+    store: RateLimitStore,
+    rule: RateLimitRule,
+    identifiers: string[]
+): Promise<RateLimitResult> {
+    const now = Date.now()
+    const hits = await Promise.all(
+        identifiers.map(identifier => store.hit(`${rule.name}:${identifier}`, rule.windowSeconds * 1000))
+    )
+
+    const retryAfterMs = hits
+        .filter(hit => hit.count > rule.limit)
+        .reduce((longest, hit) => Math.max(longest, hit.resetAt - now), 0)
+
+    return {
+        allowed: retryAfterMs === 0,
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+    }
+}
+
+/**
+ * @description Builds the 429 response for a limited request.
+ * @param {number} retryAfterSeconds - Seconds until the caller can try again.
+ * @returns {NextResponse} The 429 response with a `Retry-After` header.
+ */
+export function rateLimitResponse(retryAfterSeconds: number): NextResponse {
+    return NextResponse.json(
+        {
+            error: `Too many requests, please try again in ${retryAfterSeconds} second${retryAfterSeconds !== 1 ? 's' : ''}`,
+            retryAfter: retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    )
+}
+
+/**
+ * @description Applies a rate limit to a request by client IP and, if signed in, by user.
+ * @param {NextRequest} request - The incoming request.
+ * @param {RateLimitRule} rule - The limit to apply.
+ * @param {RateLimitStore} store - Where counters are kept.
+ * @param {string} [userId] - The signed-in user's ID.
+ * @returns {Promise<NextResponse | null>} A 429 response if the request is limited, otherwise null (also when the
+ * store can't be reached).
+ */
+export async function enforceRateLimit(
+    request: NextRequest,
+    rule: RateLimitRule,
+    store: RateLimitStore,
+    userId?: string
+): Promise<NextResponse | null> {
+    const ip = getClientIp(request)
+    const checks = [
+        ...(userId ? [{ rule, identifier: `user:${userId}` }] : []),
+        // Requests without a known IP would all share one counter, so they're only limited by user
+        ...(ip ? [{ rule: { ...rule, limit: rule.ipLimit ?? rule.limit }, identifier: `ip:${ip}` }] : []),
+    ]
+    if (checks.length === 0) {
+        return null
+    }
+
+    try {
+        const results = await Promise.all(checks.map(check => checkRateLimit(store, check.rule, [check.identifier])))
+        const retryAfterSeconds = Math.max(...results.map(result => result.retryAfterSeconds))
+        return results.every(result => result.allowed) ? null : rateLimitResponse(retryAfterSeconds)
+    } catch (error) {
+        // Don't take the route down with the store; the route's own checks still apply
+        console.error('Rate limit check failed:', error)
+        return null
+    }
+}
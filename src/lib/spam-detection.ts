@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Spam detection - scores a contribution before its tracks are added to the owner's playlist.
+ *
+ * Looks at how new the contributor's account is, how many playlists they've contributed to recently, whether the same
+ * tracks were sent to many playlists, and whether the link is getting a burst of contributions. Contributions that
+ * score too high are held for the owner's review. Spotify doesn't expose account age, so "new" means the contributor
+ * signed up to SMAS recently.
+ */
+import { SPAM_CONFIG } from '@/lib/constants'
+import { toDate } from '@/lib/utils'
+import { getContributionsByField, getContributionsByUser, getTrackSetKey } from '@/services/firebase/contributions'
+import { getUserByNextAuthId } from '@/services/firebase/users'
+import type { Contribution, SpamReason } from '@/types/firebase'
+
+const MINUTE_IN_MS = 60 * 1000
+const HOUR_IN_MS = 60 * MINUTE_IN_MS
+const DAY_IN_MS = 24 * HOUR_IN_MS
+
+/**
+ * @description The contribution being scored.
+ */
+export interface SpamCheckInput {
+  contributionId: string // Left out of the counts, since it's already reserved
+  contributorId: string // Internal UUID (not Spotify ID)
+  playlistId: string
+  linkId: string
+  trackUris: string[] // As submitted, before duplicates were skipped
+}
+
+/**
+ * @description A contribution's spam score and the signals behind it.
+ */
+export interface SpamAssessment {
+  score: number
+  reasons: SpamReason[]
+  isSuspicious: boolean // True when the contribution should be held for review
+}
+
+/**
+ * @description Adds up the weights of the signals that fired.
+ * @param {SpamReason[]} reasons - Signals that fired.
+ * @returns {SpamAssessment} The assessment.
+ */
+export function scoreSpamReasons(reasons: SpamReason[]): SpamAssessment {
+  const score = reasons.reduce((total, reason) => total + SPAM_CONFIG.weights[reason], 0)
+
+  return {
+    score,
+    reasons,
+    isSuspicious: score >= SPAM_CONFIG.reviewThreshold,
+  }
+}
+
+/**
+ * @description Keeps contributions made within a window, other than the one being scored.
+ * @param {Contribution[]} contributions - Contributions to filter.
+ * @param {string} contributionId - The contribution being scored.
+ * @param {number} windowMs - Window length in milliseconds.
+ * @returns {Contribution[]} Recent contributions.
+ */
+function getRecentContributions(contributions: Contribution[], contributionId: string, windowMs: number): Contribution[] {
+  const since = Date.now() - windowMs
+  return contributions.filter(contribution =>
+    contribution.id !== contributionId && toDate(contribution.createdAt).getTime() >= since
+  )
+}
+
+/**
+ * @description Counts the distinct playlists, other than this one, among contributions.
+ * @param {Contribution[]} contributions - Contributions to count.
+ * @param {string} playlistId - The playlist being contributed to.
+ * @returns {number} Number of other playlists.
+ */
+function countOtherPlaylists(contributions: Contribution[], playlistId: string): number {
+  return new Set(
+    contributions.map(contribution => contribution.playlistId).filter(id => id !== playlistId)
+  ).size
+}
+
+/**
+ * @description Scores a contribution. Signals whose data can't be loaded don't fire, so an outage doesn't hold
+ * every contribution.
+ * @param {SpamCheckInput} input - The contribution being scored.
+ * @returns {Promise<SpamAssessment>} The assessment.
+ */
+export async function assessContributionSpam(input: SpamCheckInput): Promise<SpamAssessment> {
+  const [userResult, userContributionsResult, trackSetResult, linkResult] = await Promise.all([
+    getUserByNextAuthId(input.contributorId),
+    getContributionsByUser(input.contributorId),
+    getContributionsByField('trackSetKey', getTrackSetKey(input.trackUris)),
+    getContributionsByField('linkId', input.linkId),
+  ])
+
+  const reasons: SpamReason[] = []
+
+  const signedUpAt = userResult.data?.createdAt
+  if (signedUpAt && Date.now() - toDate(signedUpAt).getTime() < SPAM_CONFIG.newAccountHours * HOUR_IN_MS) {
+    reasons.push('new_account')
+  }
+
+  const recentUserContributions = getRecentContributions(
+    userContributionsResult.data || [], input.contributionId, SPAM_CONFIG.crossPlaylistWindowHours * HOUR_IN_MS
+  )
+  if (countOtherPlaylists(recentUserContributions, input.playlistId) >= SPAM_CONFIG.crossPlaylistThreshold) {
+    reasons.push('cross_playlist_burst')
+  }
+
+  const recentTrackSetContributions = getRecentContributions(
+    trackSetResult.data || [], input.contributionId, SPAM_CONFIG.trackSetWindowDays * DAY_IN_MS
+  )
+  if (countOtherPlaylists(recentTrackSetContributions, input.playlistId) >= SPAM_CONFIG.trackSetThreshold) {
+    reasons.push('repeated_track_set')
+  }
+
+  const recentLinkContributions = getRecentContributions(
+    linkResult.data || [], input.contributionId, SPAM_CONFIG.linkBurstWindowMinutes * MINUTE_IN_MS
+  )
+  if (recentLinkContributions.length >= SPAM_CONFIG.linkBurstThreshold) {
+    reasons.push('link_burst')
+  }
+
+  return scoreSpamReasons(reasons)
+}
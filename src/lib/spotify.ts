@@ -40,8 +40,8 @@ export async function spotifyRequest(
       },
     })
 
-    // Update rate limiter state from response headers
-    spotifyRateLimiter.updateFromHeaders(response.headers)
+    // Update this token's rate limiter state from response headers (Retry-After)
+    spotifyRateLimiter.updateFromHeaders(response.headers, accessToken)
 
     // Special case: image upload returns 202 and no body
     if (endpoint.endsWith('/images')) {
@@ -54,9 +54,13 @@ export async function spotifyRequest(
 
     let data
     try {
-      data = JSON.parse(await response.text())
+      // Some endpoints (e.g. changing playlist details) succeed with an empty body
+      const text = await response.text()
+      data = text ? JSON.parse(text) : {}
     } catch (e) {
-      throw e
+      // Error responses (e.g. 429 or 5xx from a proxy) may not have a JSON body
+      if (response.ok) throw e
+      data = {}
     }
 
     // Usual error handling for other endpoints
@@ -72,7 +76,48 @@ export async function spotifyRequest(
       )
     }
     return data
-  })
+  }, accessToken)
+}
+
+/**
+ * @description Iterates over every page of a paginated Spotify endpoint by following `next` URLs.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} endpoint - The API endpoint of the first page.
+ * @returns {AsyncGenerator<any>} Each page of results, in order.
+ * @throws {SpotifyAPIError} When any page request fails.
+ */
+export async function* iterateSpotifyPages(
+  accessToken: string,
+  endpoint: string
+): AsyncGenerator<any> {
+  let nextEndpoint: string | null = endpoint
+
+  while (nextEndpoint) {
+    const page = await spotifyRequest(accessToken, nextEndpoint)
+    yield page
+    nextEndpoint = page?.next ? page.next.replace(API_ENDPOINTS.spotify.base, '') : null
+  }
+}
+
+/**
+ * @description Fetches every page of a paginated Spotify endpoint and merges the items.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} endpoint - The API endpoint of the first page.
+ * @returns {Promise<any>} The first page's data with `items` holding all pages' items.
+ */
+export async function getAllPages(
+  accessToken: string,
+  endpoint: string
+): Promise<any> {
+  let firstPage: any
+  const items: any[] = []
+
+  for await (const page of iterateSpotifyPages(accessToken, endpoint)) {
+    if (!firstPage) firstPage = page
+    items.push(...(page?.items || []))
+  }
+
+  return { ...firstPage, items }
 }
 
 /**
@@ -94,16 +139,71 @@ export async function getTopTracks(
 }
 
 /**
- * @description Fetches user's playlists from Spotify.
+ * @description Fetches user's top artists from Spotify, including each artist's genres.
  * @param {string} accessToken - The Spotify access token.
- * @param {number} limit - Number of playlists to fetch (default: 50).
+ * @param {number} limit - Number of artists to fetch (default: 5).
+ * @param {string} timeRange - Time range for top artists (default: 'short_term').
+ * @returns {Promise<any>} The top artists data.
+ */
+export async function getTopArtists(
+  accessToken: string,
+  limit: number = 5,
+  timeRange: string = 'short_term'
+): Promise<any> {
+  return spotifyRequest(
+    accessToken,
+    `/me/top/artists?limit=${limit}&time_range=${timeRange}`
+  )
+}
+
+/**
+ * @description Searches Spotify's catalog for tracks.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} query - The search text.
+ * @param {number} limit - Number of tracks to return (default: 10).
+ * @returns {Promise<any>} The search results, with tracks under `tracks.items`.
+ */
+export async function searchTracks(
+  accessToken: string,
+  query: string,
+  limit: number = 10
+): Promise<any> {
+  return spotifyRequest(
+    accessToken,
+    `/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`
+  )
+}
+
+/**
+ * @description Fetches several tracks by ID, in batches of Spotify's maximum of 50.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string[]} trackIds - Spotify track IDs.
+ * @returns {Promise<any[]>} The tracks, in the same order; unknown IDs come back as null.
+ */
+export async function getTracks(
+  accessToken: string,
+  trackIds: string[]
+): Promise<any[]> {
+  const tracks: any[] = []
+  for (let start = 0; start < trackIds.length; start += 50) {
+    const batch = trackIds.slice(start, start + 50)
+    const data = await spotifyRequest(accessToken, `/tracks?ids=${batch.join(',')}`)
+    tracks.push(...(data?.tracks || []))
+  }
+  return tracks
+}
+
+/**
+ * @description Fetches all of the user's playlists from Spotify, following pagination.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {number} limit - Page size for each request (default: 50, Spotify's maximum).
  * @returns {Promise<any>} The user's playlists.
  */
 export async function getUserPlaylists(
   accessToken: string,
   limit: number = 50
 ): Promise<any> {
-  return spotifyRequest(
+  return getAllPages(
     accessToken,
     `/me/playlists?limit=${limit}`
   )
@@ -139,6 +239,31 @@ export async function createPlaylist(
   )
 }
 
+/**
+ * @description Changes a playlist's name, description, or visibility. Collaborative playlists must be private.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} playlistId - The playlist ID.
+ * @param {{ name?: string, description?: string, public?: boolean, collaborative?: boolean }} details - Details to change.
+ * @returns {Promise<void>} Resolves on success.
+ */
+export async function updatePlaylistDetails(
+  accessToken: string,
+  playlistId: string,
+  details: { name?: string, description?: string, public?: boolean, collaborative?: boolean }
+): Promise<void> {
+  await spotifyRequest(
+    accessToken,
+    `/playlists/${playlistId}`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(details),
+    }
+  )
+}
+
 /**
  * @description Adds tracks to a playlist.
  * @param {string} accessToken - The Spotify access token.
@@ -165,7 +290,29 @@ export async function addTracksToPlaylist(
 }
 
 /**
- * @description Fetches tracks from a playlist.
+ * @description Removes all occurrences of the given tracks from a playlist.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} playlistId - The playlist ID.
+ * @param {string[]} trackUris - Array of track URIs to remove.
+ * @returns {Promise<any>} The response from Spotify.
+ */
+export async function removeTracksFromPlaylist(
+  accessToken: string,
+  playlistId: string,
+  trackUris: string[]
+): Promise<any> {
+  return spotifyRequest(
+    accessToken,
+    `/playlists/${playlistId}/tracks`,
+    {
+      method: 'DELETE',
+      body: JSON.stringify({ tracks: trackUris.map(uri => ({ uri })) }),
+    }
+  )
+}
+
+/**
+ * @description Fetches all tracks from a playlist, following pagination.
  * @param {string} accessToken - The Spotify access token.
  * @param {string} playlistId - The playlist ID.
  * @returns {Promise<any>} The playlist tracks data.
@@ -174,12 +321,60 @@ export async function getPlaylistTracks(
   accessToken: string,
   playlistId: string
 ): Promise<any> {
-  return spotifyRequest(
+  return getAllPages(
     accessToken,
     `/playlists/${playlistId}/tracks`
   )
 }
 
+/**
+ * @description Checks whether a user still follows a playlist. Deleting a playlist in Spotify only unfollows it,
+ * so an unfollowed playlist is treated as deleted.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} playlistId - The playlist ID.
+ * @param {string} userId - The user's Spotify ID.
+ * @returns {Promise<boolean>} False if the user unfollowed the playlist or it no longer exists.
+ * @throws {SpotifyAPIError} When the request fails for any other reason.
+ */
+export async function isFollowingPlaylist(
+  accessToken: string,
+  playlistId: string,
+  userId: string
+): Promise<boolean> {
+  try {
+    const [isFollowing] = await spotifyRequest(
+      accessToken,
+      `/playlists/${playlistId}/followers/contains?ids=${encodeURIComponent(userId)}`
+    )
+    return isFollowing === true
+  } catch (error) {
+    if (error instanceof SpotifyAPIError && error.status === 404) {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * @description Follows a playlist as the current user, which lets collaborators add tracks to a collaborative playlist.
+ * @param {string} accessToken - The Spotify access token.
+ * @param {string} playlistId - The playlist ID.
+ * @returns {Promise<void>} Resolves on success.
+ */
+export async function followPlaylist(
+  accessToken: string,
+  playlistId: string
+): Promise<void> {
+  await spotifyRequest(
+    accessToken,
+    `/playlists/${playlistId}/followers`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ public: false }),
+    }
+  )
+}
+
 /**
  * @description Uploads a custom cover image to a Spotify playlist.
  * @param {string} accessToken - The Spotify access token.
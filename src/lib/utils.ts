@@ -14,3 +14,16 @@ export function toDate(val: any): Date {
   if (val?.toDate) return val.toDate();
   return new Date(val);
 }
+
+/**
+ * @description Describes a contribution cooldown in plain words, e.g. "once a week".
+ * @param {number} days - Cooldown length in days (0 means no cooldown).
+ * @returns {string} Human-readable cooldown frequency.
+ */
+export function formatCooldown(days: number): string {
+  if (days <= 0) return 'any time';
+  if (days === 1) return 'once a day';
+  if (days === 7) return 'once a week';
+  if (days % 7 === 0) return `once every ${days / 7} weeks`;
+  return `once every ${days} days`;
+}
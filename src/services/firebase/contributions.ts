@@ -1,17 +1,80 @@
 /**
  * @fileoverview Firebase contributions service for managing contribution data in Firestore.
  * 
- * Handles contribution creation, validation, and retrieval operations.
+ * Handles contribution creation, validation, and retrieval operations. New contributions are reserved in a
+ * transaction keyed by an idempotency key, so concurrent or repeated submissions can't slip past the cooldown.
+ * Suspicious contributions, and every contribution to a playlist whose owner approves songs first, are held as
+ * 'pending' until the owner approves or rejects them.
  */
 
 import admin from 'firebase-admin'
 import { adminDb as db } from '@/lib/firebaseAdmin'
+import { toDate } from '@/lib/utils'
 import {
   Contribution,
+  ContributionCooldown,
+  ContributionReservation,
   CreateContributionData,
   DatabaseResult,
+  SpamReason,
   COLLECTIONS
 } from '@/types/firebase'
+import { getPlaylistById, getPlaylistCooldownDays } from './playlists'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000 // Reservations older than this were abandoned and no longer hold the cooldown
+const ACTIVATE_ATTEMPTS = 3 // The tracks are already on Spotify by then, so a failed write is worth retrying
+const ACTIVATE_RETRY_DELAY_MS = 200
+
+/**
+ * @description Checks whether a contribution is live, i.e. neither revoked nor still being processed.
+ * @param {Contribution} contribution - Contribution to check.
+ * @returns {boolean} True if the contribution's tracks are in the playlist.
+ */
+export function isLiveContribution(contribution: Contribution): boolean {
+  return (contribution.status ?? 'active') === 'active'
+}
+
+/**
+ * @description Builds a key identifying a set of tracks regardless of the order they were picked in.
+ * @param {string[]} trackUris - Spotify track URIs.
+ * @returns {string} The sorted, de-duplicated URIs joined with commas.
+ */
+export function getTrackSetKey(trackUris: string[]): string {
+  return [...new Set(trackUris)].sort().join(',')
+}
+
+/**
+ * @description Works out a contributor's cooldown from their contributions to a playlist.
+ * @param {Contribution[]} contributions - The contributor's contributions to the playlist.
+ * @param {number} cooldownDays - Playlist's current cooldown length.
+ * @returns {ContributionCooldown} Cooldown state.
+ */
+function getCooldownFromContributions(contributions: Contribution[], cooldownDays: number): ContributionCooldown {
+  const now = Date.now()
+  const countedContributions = contributions.filter(contribution =>
+    contribution.status !== 'processing' || now - toDate(contribution.createdAt).getTime() < PROCESSING_TIMEOUT_MS
+  )
+
+  if (countedContributions.length === 0) {
+    return { hasContributed: false, cooldownDays }
+  }
+
+  // Cooldown runs from the most recent contribution using the playlist's current setting
+  const contribution = countedContributions.reduce((latest, current) =>
+    toDate(current.createdAt).getTime() > toDate(latest.createdAt).getTime() ? current : latest
+  )
+
+  const cooldownUntil = toDate(contribution.createdAt).getTime() + cooldownDays * DAY_IN_MS
+  const isExpired = cooldownUntil <= now
+
+  return {
+    hasContributed: !isExpired,
+    contribution: isExpired ? undefined : contribution,
+    cooldownDays,
+    cooldownUntil: isExpired ? undefined : new Date(cooldownUntil).toISOString(),
+  }
+}
 
 /**
  * @description Creates a new contribution in Firestore.
@@ -21,7 +84,8 @@ import {
 export async function createContribution(contributionData: CreateContributionData): Promise<DatabaseResult<Contribution>> {
   try {
     const now = admin.firestore.Timestamp.now()
-    const expiresAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + 4 * 7 * 24 * 60 * 60 * 1000) // 4 weeks
+    const cooldownDays = getPlaylistCooldownDays({ contributionCooldownDays: contributionData.cooldownDays })
+    const expiresAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + cooldownDays * DAY_IN_MS)
     const contributionRef = db.collection(COLLECTIONS.CONTRIBUTIONS).doc()
 
     const contribution: Contribution = {
@@ -32,6 +96,7 @@ export async function createContribution(contributionData: CreateContributionDat
       spotifyTrackUris: contributionData.spotifyTrackUris,
       createdAt: now,
       expiresAt,
+      status: 'active',
     }
 
     await contributionRef.set(contribution)
@@ -77,6 +142,55 @@ export async function getContributionById(contributionId: string): Promise<Datab
   }
 }
 
+/**
+ * @description Retrieves the contributions held for a playlist owner's review, oldest first.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @returns {Promise<DatabaseResult<Contribution[]>>} Held contributions or error.
+ */
+export async function getPendingContributions(playlistId: string): Promise<DatabaseResult<Contribution[]>> {
+  try {
+    const querySnap = await db.collection(COLLECTIONS.CONTRIBUTIONS)
+      .where('playlistId', '==', playlistId)
+      .where('status', '==', 'pending')
+      .get()
+
+    const contributions = querySnap.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Contribution)
+    contributions.sort((a, b) => toDate(a.createdAt).getTime() - toDate(b.createdAt).getTime())
+
+    return {
+      success: true,
+      data: contributions,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get pending contributions',
+    }
+  }
+}
+
+/**
+ * @description Retrieves contributions matching a field, for spam checks across playlists.
+ * @param {'linkId' | 'trackSetKey'} field - Field to match.
+ * @param {string} value - Value to match.
+ * @returns {Promise<DatabaseResult<Contribution[]>>} Matching contributions or error.
+ */
+export async function getContributionsByField(field: 'linkId' | 'trackSetKey', value: string): Promise<DatabaseResult<Contribution[]>> {
+  try {
+    const querySnap = await db.collection(COLLECTIONS.CONTRIBUTIONS).where(field, '==', value).get()
+
+    return {
+      success: true,
+      data: querySnap.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Contribution),
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get contributions',
+    }
+  }
+}
+
 /**
  * @description Retrieves all contributions for a playlist.
  * @param {string} playlistId - Firestore playlist ID.
@@ -134,45 +248,252 @@ export async function getContributionsByUser(contributorId: string): Promise<Dat
 }
 
 /**
- * @description Checks if a user has already contributed to a playlist within the 4-week window.
+ * @description Checks if a user is still within the playlist's contribution cooldown.
  * @param {string} playlistId - Firestore playlist ID.
- * @param {string} contributorId - Spotify user ID.
- * @returns {Promise<DatabaseResult<{hasContributed: boolean, contribution?: Contribution}>>} Contribution check result.
+ * @param {string} contributorId - Internal UUID of the contributor.
+ * @returns {Promise<DatabaseResult<ContributionCooldown>>} Contribution check result.
  */
 export async function checkUserContribution(
   playlistId: string,
   contributorId: string
-): Promise<DatabaseResult<{ hasContributed: boolean, contribution?: Contribution }>> {
+): Promise<DatabaseResult<ContributionCooldown>> {
   try {
+    const playlistResult = await getPlaylistById(playlistId)
+    const cooldownDays = getPlaylistCooldownDays(playlistResult.data)
+
     const contributionsRef = db.collection(COLLECTIONS.CONTRIBUTIONS)
     const querySnap = await contributionsRef.where('playlistId', '==', playlistId).where('contributorId', '==', contributorId).get()
+    const contributions = querySnap.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Contribution)
+
+    return {
+      success: true,
+      data: getCooldownFromContributions(contributions, cooldownDays),
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check user contribution',
+    }
+  }
+}
+
+/**
+ * @description Builds the ID of the contribution reserved for a submission, so repeats of it find the same document.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} contributorId - Internal UUID (not Spotify ID).
+ * @param {string} idempotencyKey - Client-generated key identifying the submission.
+ * @returns {string} Firestore contribution ID.
+ */
+export function getReservedContributionId(playlistId: string, contributorId: string, idempotencyKey: string): string {
+  return `${playlistId}_${contributorId}_${idempotencyKey}`
+}
+
+/**
+ * @description Atomically checks the contributor's cooldown and reserves a 'processing' contribution for an idempotency key.
+ * Repeating a key returns the contribution it already created instead of adding another.
+ * @param {CreateContributionData} contributionData - Contribution data to reserve.
+ * @param {string} idempotencyKey - Client-generated key identifying this submission.
+ * @returns {Promise<DatabaseResult<ContributionReservation>>} Reservation outcome or error.
+ */
+export async function reserveContribution(
+  contributionData: CreateContributionData,
+  idempotencyKey: string
+): Promise<DatabaseResult<ContributionReservation>> {
+  try {
+    const contributionsRef = db.collection(COLLECTIONS.CONTRIBUTIONS)
+    const contributionRef = contributionsRef.doc(
+      getReservedContributionId(contributionData.playlistId, contributionData.contributorId, idempotencyKey)
+    )
+    const contributorQuery = contributionsRef
+      .where('playlistId', '==', contributionData.playlistId)
+      .where('contributorId', '==', contributionData.contributorId)
+    const cooldownDays = getPlaylistCooldownDays({ contributionCooldownDays: contributionData.cooldownDays })
+
+    const reservation = await db.runTransaction(async (transaction): Promise<ContributionReservation> => {
+      const existingSnap = await transaction.get(contributionRef)
+      if (existingSnap.exists) {
+        return { status: 'replayed', contribution: existingSnap.data() as Contribution }
+      }
+
+      const querySnap = await transaction.get(contributorQuery)
+      const contributions = querySnap.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Contribution)
+      const cooldown = getCooldownFromContributions(contributions, cooldownDays)
+      if (cooldown.hasContributed) {
+        return { status: 'cooldown', cooldown }
+      }
+
+      const now = admin.firestore.Timestamp.now()
+      const contribution: Contribution = {
+        id: contributionRef.id,
+        playlistId: contributionData.playlistId,
+        contributorId: contributionData.contributorId,
+        contributorName: contributionData.contributorName,
+        spotifyTrackUris: contributionData.spotifyTrackUris,
+        createdAt: now,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + cooldownDays * DAY_IN_MS),
+        status: 'processing',
+        trackSetKey: getTrackSetKey(contributionData.spotifyTrackUris),
+        ...(contributionData.linkId ? { linkId: contributionData.linkId } : {}),
+      }
+      transaction.create(contributionRef, contribution)
+
+      return { status: 'reserved', contribution }
+    })
+
+    return {
+      success: true,
+      data: reservation,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reserve contribution',
+    }
+  }
+}
+
+/**
+ * @description Marks a reserved contribution as active once its tracks have been added. The write is retried, since
+ * a contribution left 'processing' would block retries of the same submission until it went stale.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @param {string[]} spotifyTrackUris - Track URIs that were actually added.
+ * @param {{ reviewed?: boolean }} [options] - Set `reviewed` when the owner approved a held contribution.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function activateContribution(
+  contributionId: string,
+  spotifyTrackUris: string[],
+  options: { reviewed?: boolean } = {}
+): Promise<DatabaseResult<void>> {
+  let lastError: unknown
+  for (let attempt = 1; attempt <= ACTIVATE_ATTEMPTS; attempt++) {
+    try {
+      await db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId).update({
+        status: 'active',
+        spotifyTrackUris,
+        ...(options.reviewed ? { reviewedAt: admin.firestore.Timestamp.now() } : {}),
+      })
 
-    if (querySnap.empty) {
       return {
         success: true,
-        data: { hasContributed: false },
+      }
+    } catch (error) {
+      lastError = error
+      if (attempt < ACTIVATE_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, ACTIVATE_RETRY_DELAY_MS * attempt))
       }
     }
+  }
 
-    const contribution = {
-      id: querySnap.docs[0].id,
-      ...querySnap.docs[0].data(),
-    } as Contribution
+  return {
+    success: false,
+    error: lastError instanceof Error ? lastError.message : 'Failed to activate contribution',
+  }
+}
 
-    const now = admin.firestore.Timestamp.now()
-    const isExpired = contribution.expiresAt.toMillis() < now.toMillis()
+/**
+ * @description Holds a reserved contribution for the owner's review instead of adding its tracks. It keeps the
+ * contributor's cooldown slot.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @param {string[]} spotifyTrackUris - Track URIs to add if the owner approves.
+ * @param {SpamReason[]} spamReasons - Why the contribution was held.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function holdContributionForReview(
+  contributionId: string,
+  spotifyTrackUris: string[],
+  spamReasons: SpamReason[]
+): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId).update({
+      status: 'pending',
+      spotifyTrackUris,
+      spamReasons,
+    })
 
     return {
       success: true,
-      data: {
-        hasContributed: !isExpired,
-        contribution: isExpired ? undefined : contribution,
-      },
     }
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to check user contribution',
+      error: error instanceof Error ? error.message : 'Failed to hold contribution for review',
+    }
+  }
+}
+
+/**
+ * @description Claims a held contribution for review by moving it to 'processing', so two owners reviewing at once
+ * can't both act on it.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @returns {Promise<DatabaseResult<Contribution | null>>} The contribution, or null if it isn't waiting for review.
+ */
+export async function claimPendingContribution(contributionId: string): Promise<DatabaseResult<Contribution | null>> {
+  try {
+    const contributionRef = db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId)
+
+    const contribution = await db.runTransaction(async (transaction): Promise<Contribution | null> => {
+      const contributionSnap = await transaction.get(contributionRef)
+      const current = contributionSnap.data() as Contribution | undefined
+      if (!current || current.status !== 'pending') {
+        return null
+      }
+
+      transaction.update(contributionRef, { status: 'processing' })
+      return { ...current, id: contributionSnap.id }
+    })
+
+    return {
+      success: true,
+      data: contribution,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to claim contribution',
+    }
+  }
+}
+
+/**
+ * @description Marks a held contribution as rejected by the owner. It keeps the contributor's cooldown slot.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function rejectContribution(contributionId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId).update({
+      status: 'rejected',
+      reviewedAt: admin.firestore.Timestamp.now(),
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reject contribution',
+    }
+  }
+}
+
+/**
+ * @description Deletes a reserved contribution that didn't go through, freeing the contributor's cooldown slot.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @returns {Promise<DatabaseResult<void>>} Deletion result.
+ */
+export async function releaseContribution(contributionId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId).delete()
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to release contribution',
     }
   }
 }
@@ -192,7 +513,7 @@ export async function getActiveContributions(playlistId: string): Promise<Databa
 
     const now = admin.firestore.Timestamp.now()
     const activeContributions = contributions.data.filter(
-      contribution => contribution.expiresAt.toMillis() > now.toMillis()
+      contribution => isLiveContribution(contribution) && contribution.expiresAt.toMillis() > now.toMillis()
     )
 
     return {
@@ -207,6 +528,54 @@ export async function getActiveContributions(playlistId: string): Promise<Databa
   }
 }
 
+/**
+ * @description Marks a contribution as revoked after its tracks were removed by the playlist owner.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @returns {Promise<DatabaseResult<void>>} Revocation result.
+ */
+export async function revokeContribution(contributionId: string): Promise<DatabaseResult<void>> {
+  try {
+    const contributionRef = db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId)
+
+    await contributionRef.update({
+      status: 'revoked',
+      revokedAt: admin.firestore.Timestamp.now(),
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke contribution',
+    }
+  }
+}
+
+/**
+ * @description Attaches the contributor's own sharing link to a contribution, so the owner can send songs back.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @param {string} linkSlug - The contributor's sharing link slug.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function setContributionSendBackLink(contributionId: string, linkSlug: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.CONTRIBUTIONS).doc(contributionId).update({
+      sendBackLinkSlug: linkSlug,
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save send-back link',
+    }
+  }
+}
+
 /**
  * @description Gets all tracks from all contributions for a playlist.
  * @param {string} playlistId - Firestore playlist ID.
@@ -14,4 +14,10 @@ export * from './playlists'
 export * from './contributions'
 
 // Sharing link services
-export * from './sharing-links' 
\ No newline at end of file
+export * from './sharing-links' 
+
+// Top songs services
+export * from './top-songs'
+
+// Rate limit services
+export * from './rate-limits'
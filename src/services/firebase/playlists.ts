@@ -6,10 +6,12 @@
 
 import admin from 'firebase-admin'
 import { adminDb as db } from '@/lib/firebaseAdmin'
+import { CONTRIBUTION_CONFIG } from '@/lib/constants'
 import {
   Playlist,
   CreatePlaylistData,
   DatabaseResult,
+  TrackAttribution,
   COLLECTIONS
 } from '@/types/firebase'
 
@@ -144,7 +146,7 @@ export async function getPlaylistsByOwner(spotifyUserId: string): Promise<Databa
  */
 export async function updatePlaylist(
   playlistId: string,
-  updateData: Partial<Pick<Playlist, 'name' | 'description' | 'trackCount' | 'isActive' | 'sharingLinkId'>>
+  updateData: Partial<Pick<Playlist, 'name' | 'description' | 'trackCount' | 'isActive' | 'sharingLinkId' | 'contributionCooldownDays' | 'maxTracksPerContribution' | 'requiresApproval' | 'coverUpdatedAt'>>
 ): Promise<DatabaseResult<void>> {
   try {
     const playlistRef = db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId)
@@ -185,6 +187,323 @@ export async function deactivatePlaylist(playlistId: string): Promise<DatabaseRe
   return await updatePlaylist(playlistId, { isActive: false })
 }
 
+/**
+ * @description Archives a playlist: it leaves the owner's playlist list but keeps its contributions and Spotify playlist.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function archivePlaylist(playlistId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update({
+      isActive: false,
+      archivedAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to archive playlist',
+    }
+  }
+}
+
+/**
+ * @description Flags a playlist whose Spotify playlist was deleted or unfollowed, so it can be recreated.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function markPlaylistOrphaned(playlistId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update({
+      orphanedAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to mark playlist as orphaned',
+    }
+  }
+}
+
+/**
+ * @description Records the Spotify playlist created to replace an orphaned one, before its tracks are re-added, so a
+ * retried recreation fills the same playlist instead of creating another copy.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} spotifyPlaylistId - The new Spotify playlist ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function setRecreatedSpotifyPlaylist(playlistId: string, spotifyPlaylistId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update({
+      recreatedSpotifyPlaylistId: spotifyPlaylistId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record recreated playlist',
+    }
+  }
+}
+
+/**
+ * @description Points a playlist at a (possibly new) Spotify playlist and clears its orphaned flag.
+ * Contributions and sharing links reference the Firestore playlist, so they carry over unchanged.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} spotifyPlaylistId - Spotify playlist ID to use from now on.
+ * @param {number} trackCount - Track count, if known.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function relinkSpotifyPlaylist(
+  playlistId: string,
+  spotifyPlaylistId: string,
+  trackCount?: number
+): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update({
+      spotifyPlaylistId,
+      ...(trackCount !== undefined ? { trackCount } : {}),
+      orphanedAt: admin.firestore.FieldValue.delete(),
+      recreatedSpotifyPlaylistId: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to relink playlist',
+    }
+  }
+}
+
+/**
+ * @description Returns a playlist's contribution cooldown, falling back to the app default.
+ * @param {Playlist | undefined} playlist - Firestore playlist.
+ * @returns {number} Cooldown length in days.
+ */
+export function getPlaylistCooldownDays(playlist?: Pick<Playlist, 'contributionCooldownDays'>): number {
+  return playlist?.contributionCooldownDays ?? CONTRIBUTION_CONFIG.defaultCooldownDays
+}
+
+/**
+ * @description Returns how many tracks a friend can send in one contribution, falling back to the app default.
+ * @param {Playlist | undefined} playlist - Firestore playlist.
+ * @returns {number} Max tracks per contribution.
+ */
+export function getPlaylistMaxTracks(playlist?: Pick<Playlist, 'maxTracksPerContribution'>): number {
+  return playlist?.maxTracksPerContribution ?? CONTRIBUTION_CONFIG.defaultMaxTracks
+}
+
+/**
+ * @description Bars a contributor from adding songs to a playlist.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} contributorId - Internal UUID of the contributor.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function blockContributor(
+  playlistId: string,
+  contributorId: string
+): Promise<DatabaseResult<void>> {
+  try {
+    const playlistRef = db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId)
+    await playlistRef.update({
+      blockedContributorIds: admin.firestore.FieldValue.arrayUnion(contributorId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to block contributor',
+    }
+  }
+}
+
+/**
+ * @description Lists a playlist's owners: the primary owner first, then its co-owners.
+ * @param {Pick<Playlist, 'spotifyUserId' | 'coOwnerIds'>} playlist - Firestore playlist.
+ * @returns {string[]} Spotify user IDs of everyone who owns the playlist.
+ */
+export function getPlaylistOwnerIds(playlist: Pick<Playlist, 'spotifyUserId' | 'coOwnerIds'>): string[] {
+  return [playlist.spotifyUserId, ...(playlist.coOwnerIds || [])]
+}
+
+/**
+ * @description Checks whether a user owns or co-owns a playlist, and so can share links and moderate contributions.
+ * @param {Pick<Playlist, 'spotifyUserId' | 'coOwnerIds'>} playlist - Firestore playlist.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {boolean} True for the primary owner and co-owners.
+ */
+export function isPlaylistOwner(playlist: Pick<Playlist, 'spotifyUserId' | 'coOwnerIds'>, spotifyUserId: string): boolean {
+  return getPlaylistOwnerIds(playlist).includes(spotifyUserId)
+}
+
+/**
+ * @description Retrieves the active playlists a user co-owns.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<DatabaseResult<Playlist[]>>} Co-owned playlists or error.
+ */
+export async function getPlaylistsByCoOwner(spotifyUserId: string): Promise<DatabaseResult<Playlist[]>> {
+  try {
+    const querySnap = await db.collection(COLLECTIONS.PLAYLISTS)
+      .where('coOwnerIds', 'array-contains', spotifyUserId)
+      .where('isActive', '==', true)
+      .get()
+
+    return {
+      success: true,
+      data: querySnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Playlist[],
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get co-owned playlists',
+    }
+  }
+}
+
+/**
+ * @description Adds a co-owner to a playlist.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} spotifyUserId - Co-owner's Spotify user ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function addPlaylistCoOwner(playlistId: string, spotifyUserId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update({
+      coOwnerIds: admin.firestore.FieldValue.arrayUnion(spotifyUserId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add co-owner',
+    }
+  }
+}
+
+/**
+ * @description Removes a co-owner from a playlist. Their sharing links stay active until deactivated.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} spotifyUserId - Co-owner's Spotify user ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function removePlaylistCoOwner(playlistId: string, spotifyUserId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update({
+      coOwnerIds: admin.firestore.FieldValue.arrayRemove(spotifyUserId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove co-owner',
+    }
+  }
+}
+
+/**
+ * @description Records who added tracks to a playlist. Callers pass tracks they just confirmed aren't in the Spotify
+ * playlist, so any attribution left from an earlier add (e.g. the track was removed in Spotify) is replaced.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string[]} trackUris - Spotify track URIs that were added.
+ * @param {Omit<TrackAttribution, 'addedAt'>} attribution - Who added them, and through which contribution and link.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function recordTrackAttributions(
+  playlistId: string,
+  trackUris: string[],
+  attribution: Omit<TrackAttribution, 'addedAt'>
+): Promise<DatabaseResult<void>> {
+  try {
+    if (trackUris.length === 0) {
+      return {
+        success: true,
+      }
+    }
+
+    const { linkId, ...required } = attribution
+    const record: TrackAttribution = {
+      ...required,
+      // Firestore rejects undefined fields
+      ...(linkId ? { linkId } : {}),
+      addedAt: admin.firestore.Timestamp.now(),
+    }
+
+    const updates: Record<string, TrackAttribution> = {}
+    trackUris.forEach(uri => {
+      updates[`trackAttributions.${uri.replace('spotify:track:', '')}`] = record
+    })
+    await db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId).update(updates)
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record track attributions',
+    }
+  }
+}
+
+/**
+ * @description Removes the attributions recorded for a contribution, once its tracks are taken out of the playlist.
+ * @param {string} playlistId - Firestore playlist ID.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function removeContributionAttributions(playlistId: string, contributionId: string): Promise<DatabaseResult<void>> {
+  try {
+    const playlistRef = db.collection(COLLECTIONS.PLAYLISTS).doc(playlistId)
+
+    await db.runTransaction(async (transaction) => {
+      const playlistSnap = await transaction.get(playlistRef)
+      const existing: Record<string, TrackAttribution> = playlistSnap.data()?.trackAttributions || {}
+
+      const updates: Record<string, admin.firestore.FieldValue> = {}
+      Object.entries(existing).forEach(([trackId, attribution]) => {
+        if (attribution.contributionId === contributionId) {
+          updates[`trackAttributions.${trackId}`] = admin.firestore.FieldValue.delete()
+        }
+      })
+
+      if (Object.keys(updates).length > 0) {
+        transaction.update(playlistRef, updates)
+      }
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove track attributions',
+    }
+  }
+}
+
 /**
  * @description Creates or retrieves existing playlist for user.
  * @param {CreatePlaylistData} playlistData - Playlist data.
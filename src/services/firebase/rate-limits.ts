@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Firebase rate limit service - request counters shared by every server instance.
+ *
+ * Backs the request rate limiter (see `lib/request-rate-limit`) with Firestore, so limits hold on serverless
+ * deployments where each instance would otherwise count on its own. Set `RATE_LIMIT_STORE=memory` to keep counters
+ * in memory instead, e.g. for local development without Firestore.
+ */
+
+import admin from 'firebase-admin'
+import { adminDb as db } from '@/lib/firebaseAdmin'
+import { MemoryRateLimitStore, type RateLimitHit, type RateLimitStore } from '@/lib/request-rate-limit'
+import { COLLECTIONS } from '@/types/firebase'
+
+/**
+ * @description Keeps request counters in Firestore, one document per key. Each document has an `expiresAt` field
+ * that a Firestore TTL policy can use to clean up old counters.
+ */
+export const firestoreRateLimitStore: RateLimitStore = {
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    // Keys contain IPs and IDs; encode them so they're valid document IDs
+    const counterRef = db.collection(COLLECTIONS.RATE_LIMITS).doc(encodeURIComponent(key))
+
+    return db.runTransaction(async (transaction) => {
+      const counterSnap = await transaction.get(counterRef)
+      const current = counterSnap.data() as RateLimitHit | undefined
+      const now = Date.now()
+
+      const counter: RateLimitHit = current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs }
+
+      transaction.set(counterRef, {
+        ...counter,
+        expiresAt: admin.firestore.Timestamp.fromMillis(counter.resetAt),
+      })
+      return counter
+    })
+  },
+}
+
+const memoryRateLimitStore = new MemoryRateLimitStore()
+
+/**
+ * @description Returns the store configured by `RATE_LIMIT_STORE` ("firestore" by default, or "memory").
+ * @returns {RateLimitStore} The rate limit store.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'memory' ? memoryRateLimitStore : firestoreRateLimitStore
+}
@@ -1,21 +1,63 @@
 /**
  * @fileoverview Firebase sharing links service for managing sharing link data in Firestore.
  * 
- * Handles sharing link creation, retrieval, and usage tracking.
+ * Handles sharing link creation, retrieval, and usage tracking. A playlist can have several labeled
+ * links; the playlist's `sharingLinkId` points at its primary one. Links can optionally expire or
+ * be limited to a number of uses.
  */
 
 import admin from 'firebase-admin'
 import { adminDb as db } from '@/lib/firebaseAdmin'
+import { getDayKey } from '@/lib/analytics'
 import {
   SharingLink,
   CreateSharingLinkData,
   DatabaseResult,
+  Playlist,
+  SharingLinkDailyStats,
+  SharingLinkEvent,
+  SharingLinkUnavailableReason,
   COLLECTIONS
 } from '@/types/firebase'
-import { updatePlaylistSharingLinkId } from './playlists'
+import { getPlaylistById, updatePlaylistSharingLinkId } from './playlists'
 
 /**
- * @description Creates a new sharing link in Firestore.
+ * @description Errors returned for sharing links that can't be used.
+ */
+export const SHARING_LINK_ERRORS = {
+  notFound: 'Sharing link not found',
+  expired: 'Sharing link has expired',
+  usedUp: 'Sharing link has reached its maximum number of uses',
+} as const
+
+/**
+ * @description Checks whether an active sharing link has expired or run out of uses.
+ * @param {SharingLink} link - Sharing link to check.
+ * @returns {string | undefined} The matching error from SHARING_LINK_ERRORS, or undefined if the link is usable.
+ */
+export function getSharingLinkUnavailableError(link: SharingLink): string | undefined {
+  if (link.expiresAt && link.expiresAt.toMillis() <= Date.now()) {
+    return SHARING_LINK_ERRORS.expired
+  }
+  if (link.maxUses !== undefined && link.usageCount >= link.maxUses) {
+    return SHARING_LINK_ERRORS.usedUp
+  }
+  return undefined
+}
+
+/**
+ * @description Maps a sharing link error to the reason the link is unavailable, so routes can tell it apart from "not found".
+ * @param {string} [error] - Error from a sharing link lookup.
+ * @returns {SharingLinkUnavailableReason | undefined} The reason, or undefined for any other error.
+ */
+export function getSharingLinkUnavailableReason(error?: string): SharingLinkUnavailableReason | undefined {
+  if (error === SHARING_LINK_ERRORS.expired) return 'expired'
+  if (error === SHARING_LINK_ERRORS.usedUp) return 'used_up'
+  return undefined
+}
+
+/**
+ * @description Creates a new sharing link in Firestore. It becomes the playlist's primary link if the playlist has none.
  * @param {CreateSharingLinkData} linkData - Sharing link data to create.
  * @returns {Promise<DatabaseResult<SharingLink>>} Creation result.
  */
@@ -30,15 +72,23 @@ export async function createSharingLink(linkData: CreateSharingLinkData): Promis
       spotifyUserId: linkData.spotifyUserId,
       ownerName: linkData.ownerName,
       linkSlug: linkData.linkSlug,
+      ...(linkData.label ? { label: linkData.label } : {}),
+      ...(linkData.expiresAt ? { expiresAt: linkData.expiresAt } : {}),
+      ...(linkData.maxUses !== undefined ? { maxUses: linkData.maxUses } : {}),
       isActive: true,
       createdAt: now,
       updatedAt: now,
       usageCount: 0,
+      visitCount: 0,
+      signInCount: 0,
     }
 
     await linkRef.set(sharingLink)
 
-    await updatePlaylistSharingLinkId(linkData.playlistId, linkRef.id)
+    const playlistResult = await getPlaylistById(linkData.playlistId)
+    if (!playlistResult.data?.sharingLinkId) {
+      await updatePlaylistSharingLinkId(linkData.playlistId, linkRef.id)
+    }
 
     return {
       success: true,
@@ -82,11 +132,13 @@ export async function getSharingLinkById(linkId: string): Promise<DatabaseResult
 }
 
 /**
- * @description Retrieves a sharing link by slug.
+ * @description Retrieves a usable sharing link by slug. Expired and used-up links are rejected with
+ * their own error from SHARING_LINK_ERRORS, unless `includeUnavailable` is set.
  * @param {string} linkSlug - Unique link slug.
+ * @param {boolean} includeUnavailable - Also return active links that have expired or been used up.
  * @returns {Promise<DatabaseResult<SharingLink>>} Sharing link or error.
  */
-export async function getSharingLinkBySlug(linkSlug: string): Promise<DatabaseResult<SharingLink>> {
+export async function getSharingLinkBySlug(linkSlug: string, includeUnavailable: boolean = false): Promise<DatabaseResult<SharingLink>> {
   try {
     const linksRef = db.collection(COLLECTIONS.SHARING_LINKS)
     const q = linksRef.where('linkSlug', '==', linkSlug).where('isActive', '==', true)
@@ -95,14 +147,24 @@ export async function getSharingLinkBySlug(linkSlug: string): Promise<DatabaseRe
     if (querySnapshot.empty) {
       return {
         success: false,
-        error: 'Sharing link not found',
+        error: SHARING_LINK_ERRORS.notFound,
       }
     }
 
     const linkDoc = querySnapshot.docs[0]
+    const sharingLink = { id: linkDoc.id, ...linkDoc.data() } as SharingLink
+
+    const unavailableError = getSharingLinkUnavailableError(sharingLink)
+    if (unavailableError && !includeUnavailable) {
+      return {
+        success: false,
+        error: unavailableError,
+      }
+    }
+
     return {
       success: true,
-      data: { id: linkDoc.id, ...linkDoc.data() } as SharingLink,
+      data: sharingLink,
     }
   } catch (error) {
     return {
@@ -113,20 +175,105 @@ export async function getSharingLinkBySlug(linkSlug: string): Promise<DatabaseRe
 }
 
 /**
- * @description Retrieves all sharing links for a playlist.
+ * @description Checks that a sharing link is usable for a playlist and records one use, in a single transaction
+ * so concurrent contributions can't go past the link's max uses.
+ * @param {string} linkSlug - Unique link slug.
+ * @param {string} playlistId - Firestore playlist ID the contribution is for.
+ * @returns {Promise<DatabaseResult<SharingLink>>} The link after the use was recorded, or error.
+ */
+export async function consumeSharingLinkUse(linkSlug: string, playlistId: string): Promise<DatabaseResult<SharingLink>> {
+  try {
+    const linkQuery = db.collection(COLLECTIONS.SHARING_LINKS)
+      .where('linkSlug', '==', linkSlug)
+      .where('isActive', '==', true)
+      .limit(1)
+
+    return await db.runTransaction(async (transaction): Promise<DatabaseResult<SharingLink>> => {
+      const querySnapshot = await transaction.get(linkQuery)
+      if (querySnapshot.empty) {
+        return {
+          success: false,
+          error: SHARING_LINK_ERRORS.notFound,
+        }
+      }
+
+      const linkDoc = querySnapshot.docs[0]
+      const sharingLink = { id: linkDoc.id, ...linkDoc.data() } as SharingLink
+      if (sharingLink.playlistId !== playlistId) {
+        return {
+          success: false,
+          error: SHARING_LINK_ERRORS.notFound,
+        }
+      }
+
+      const unavailableError = getSharingLinkUnavailableError(sharingLink)
+      if (unavailableError) {
+        return {
+          success: false,
+          error: unavailableError,
+        }
+      }
+
+      const now = admin.firestore.Timestamp.now()
+      transaction.update(linkDoc.ref, {
+        usageCount: admin.firestore.FieldValue.increment(1),
+        lastUsedAt: now,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })
+
+      return {
+        success: true,
+        data: { ...sharingLink, usageCount: sharingLink.usageCount + 1, lastUsedAt: now },
+      }
+    })
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to use sharing link',
+    }
+  }
+}
+
+/**
+ * @description Gives back a use taken by consumeSharingLinkUse when the contribution didn't go through.
+ * @param {string} linkId - Firestore sharing link ID.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function releaseSharingLinkUse(linkId: string): Promise<DatabaseResult<void>> {
+  try {
+    await db.collection(COLLECTIONS.SHARING_LINKS).doc(linkId).update({
+      usageCount: admin.firestore.FieldValue.increment(-1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to release sharing link use',
+    }
+  }
+}
+
+/**
+ * @description Retrieves a playlist's sharing links, oldest first. Only active links unless asked otherwise.
  * @param {string} playlistId - Firestore playlist ID.
+ * @param {boolean} includeInactive - Also return deactivated links, e.g. for their past stats (default: false).
  * @returns {Promise<DatabaseResult<SharingLink[]>>} Playlist sharing links or error.
  */
-export async function getSharingLinksByPlaylist(playlistId: string): Promise<DatabaseResult<SharingLink[]>> {
+export async function getSharingLinksByPlaylist(playlistId: string, includeInactive: boolean = false): Promise<DatabaseResult<SharingLink[]>> {
   try {
-    const linksRef = db.collection(COLLECTIONS.SHARING_LINKS)
-    const q = linksRef.where('playlistId', '==', playlistId).where('isActive', '==', true)
+    const playlistLinks = db.collection(COLLECTIONS.SHARING_LINKS).where('playlistId', '==', playlistId)
+    const q = includeInactive ? playlistLinks : playlistLinks.where('isActive', '==', true)
     const querySnapshot = await q.get()
 
     const sharingLinks: SharingLink[] = querySnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data(),
     })) as SharingLink[]
+    sharingLinks.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())
 
     return {
       success: true,
@@ -140,6 +287,40 @@ export async function getSharingLinksByPlaylist(playlistId: string): Promise<Dat
   }
 }
 
+/**
+ * @description Retrieves a playlist's primary sharing link, falling back to its oldest active link
+ * when the primary one has been deactivated.
+ * @param {Playlist} playlist - Firestore playlist.
+ * @returns {Promise<DatabaseResult<SharingLink>>} Primary sharing link or error.
+ */
+export async function getPrimarySharingLink(playlist: Playlist): Promise<DatabaseResult<SharingLink>> {
+  if (playlist.sharingLinkId) {
+    const primaryResult = await getSharingLinkById(playlist.sharingLinkId)
+    if (primaryResult.success && primaryResult.data?.isActive) {
+      return primaryResult
+    }
+  }
+
+  const linksResult = await getSharingLinksByPlaylist(playlist.id)
+  if (!linksResult.success) {
+    return {
+      success: false,
+      error: linksResult.error,
+    }
+  }
+  if (!linksResult.data?.length) {
+    return {
+      success: false,
+      error: 'Sharing link not found',
+    }
+  }
+
+  return {
+    success: true,
+    data: linksResult.data[0],
+  }
+}
+
 /**
  * @description Retrieves a single sharing link owned by a user.
  * @param {string} spotifyUserId - Spotify user ID.
@@ -178,7 +359,7 @@ export async function getSharingLinkByOwner(spotifyUserId: string): Promise<Data
  */
 export async function updateSharingLink(
   linkId: string,
-  updateData: Partial<Pick<SharingLink, 'ownerName' | 'isActive' | 'usageCount' | 'lastUsedAt' | 'playlistId'>>
+  updateData: Partial<Pick<SharingLink, 'ownerName' | 'label' | 'isActive' | 'lastUsedAt' | 'playlistId'>>
 ): Promise<DatabaseResult<void>> {
   try {
     const linkRef = db.collection(COLLECTIONS.SHARING_LINKS).doc(linkId)
@@ -200,28 +381,61 @@ export async function updateSharingLink(
 }
 
 /**
- * @description Increments usage count for a sharing link.
+ * @description Increments usage count for a sharing link. Uses a server-side increment so concurrent calls don't lose counts.
  * @param {string} linkId - Firestore sharing link ID.
  * @returns {Promise<DatabaseResult<void>>} Update result.
  */
 export async function incrementSharingLinkUsage(linkId: string): Promise<DatabaseResult<void>> {
   try {
     const linkRef = db.collection(COLLECTIONS.SHARING_LINKS).doc(linkId)
-    const linkSnap = await linkRef.get()
 
-    if (!linkSnap.exists) {
+    // update() fails if the link doesn't exist
+    await linkRef.update({
+      usageCount: admin.firestore.FieldValue.increment(1),
+      lastUsedAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to increment sharing link usage',
+    }
+  }
+}
+
+const EVENT_COUNTER_FIELDS: Record<SharingLinkEvent, keyof SharingLink> = {
+  visit: 'visitCount',
+  sign_in: 'signInCount',
+}
+
+const EVENT_DAILY_FIELDS: Record<SharingLinkEvent, keyof SharingLinkDailyStats> = {
+  visit: 'visits',
+  sign_in: 'signIns',
+}
+
+/**
+ * @description Counts a share page event (visit or sign-in start) on a usable sharing link, in total and for today.
+ * @param {string} linkSlug - Unique link slug.
+ * @param {SharingLinkEvent} event - Event to count.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function recordSharingLinkEvent(linkSlug: string, event: SharingLinkEvent): Promise<DatabaseResult<void>> {
+  try {
+    const linkResult = await getSharingLinkBySlug(linkSlug)
+    if (!linkResult.success || !linkResult.data) {
       return {
         success: false,
-        error: 'Sharing link not found',
+        error: linkResult.error,
       }
     }
 
-    const currentData = linkSnap.data() as SharingLink
-    const now = admin.firestore.Timestamp.now()
-
-    await linkRef.update({
-      usageCount: currentData.usageCount + 1,
-      lastUsedAt: now,
+    await db.collection(COLLECTIONS.SHARING_LINKS).doc(linkResult.data.id).update({
+      [EVENT_COUNTER_FIELDS[event]]: admin.firestore.FieldValue.increment(1),
+      [`dailyStats.${getDayKey(new Date())}.${EVENT_DAILY_FIELDS[event]}`]: admin.firestore.FieldValue.increment(1),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     })
 
@@ -231,7 +445,7 @@ export async function incrementSharingLinkUsage(linkId: string): Promise<Databas
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to increment sharing link usage',
+      error: error instanceof Error ? error.message : 'Failed to record sharing link event',
     }
   }
 }
@@ -245,6 +459,16 @@ export async function deactivateSharingLink(linkId: string): Promise<DatabaseRes
   return await updateSharingLink(linkId, { isActive: false })
 }
 
+/**
+ * @description Renames a sharing link.
+ * @param {string} linkId - Firestore sharing link ID.
+ * @param {string} label - New owner-facing label.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function renameSharingLink(linkId: string, label: string): Promise<DatabaseResult<void>> {
+  return await updateSharingLink(linkId, { label })
+}
+
 /**
  * @description Checks if a link slug is available (unique).
  * @param {string} linkSlug - Link slug to check.
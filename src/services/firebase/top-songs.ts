@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Firebase top songs service for caching users' top Spotify data in Firestore.
+ *
+ * Stores each user's top tracks, artists, and genres so friend matching doesn't call Spotify on every share page
+ * visit, and works even when the playlist owner isn't signed in.
+ */
+
+import admin from 'firebase-admin'
+import { adminDb as db } from '@/lib/firebaseAdmin'
+import { MATCH_CONFIG } from '@/lib/constants'
+import {
+  UserTopSongs,
+  DatabaseResult,
+  COLLECTIONS
+} from '@/types/firebase'
+
+const HOUR_IN_MS = 60 * 60 * 1000
+
+/**
+ * @description Checks whether cached top data is older than the cache lifetime.
+ * @param {UserTopSongs} topSongs - Cached top data.
+ * @returns {boolean} True if the data should be fetched again.
+ */
+export function isTopSongsStale(topSongs: UserTopSongs): boolean {
+  return Date.now() - topSongs.lastFetched.toMillis() >= MATCH_CONFIG.cacheTtlHours * HOUR_IN_MS
+}
+
+/**
+ * @description Retrieves a user's cached top data.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<DatabaseResult<UserTopSongs>>} Cached top data or error.
+ */
+export async function getUserTopSongs(spotifyUserId: string): Promise<DatabaseResult<UserTopSongs>> {
+  try {
+    const topSongsSnap = await db.collection(COLLECTIONS.USER_TOP_SONGS).doc(spotifyUserId).get()
+
+    if (!topSongsSnap.exists) {
+      return {
+        success: false,
+        error: 'Top songs not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: topSongsSnap.data() as UserTopSongs,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get top songs',
+    }
+  }
+}
+
+/**
+ * @description Saves a user's top data, replacing what was cached.
+ * @param {Omit<UserTopSongs, 'lastFetched'>} topSongsData - Top data to cache.
+ * @returns {Promise<DatabaseResult<UserTopSongs>>} Saved top data or error.
+ */
+export async function saveUserTopSongs(topSongsData: Omit<UserTopSongs, 'lastFetched'>): Promise<DatabaseResult<UserTopSongs>> {
+  try {
+    const topSongs: UserTopSongs = {
+      ...topSongsData,
+      lastFetched: admin.firestore.Timestamp.now(),
+    }
+
+    await db.collection(COLLECTIONS.USER_TOP_SONGS).doc(topSongsData.userId).set(topSongs)
+
+    return {
+      success: true,
+      data: topSongs,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save top songs',
+    }
+  }
+}
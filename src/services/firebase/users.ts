@@ -6,6 +6,7 @@
 
 import admin from 'firebase-admin'
 import { adminDb as db } from '@/lib/firebaseAdmin'
+import { refreshAccessToken } from '@/lib/spotify'
 import {
   UserProfile,
   CreateUserData,
@@ -349,4 +350,200 @@ export async function getUserByNextAuthId(nextAuthUserId: string): Promise<Datab
       error: error instanceof Error ? error.message : 'Failed to get user by NextAuth ID',
     }
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * @description Finds a user's NextAuth Spotify account document.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<admin.firestore.QueryDocumentSnapshot | null>} The account document, or null if they never signed in.
+ */
+async function findSpotifyAccount(spotifyUserId: string): Promise<admin.firestore.QueryDocumentSnapshot | null> {
+  const accountQuery = await db.collection('accounts')
+    .where('providerAccountId', '==', spotifyUserId)
+    .where('provider', '==', 'spotify')
+    .limit(1)
+    .get()
+
+  return accountQuery.empty ? null : accountQuery.docs[0]
+}
+
+/**
+ * @description Retrieves the NextAuth user ID (the internal UUID contributions use) for a Spotify user.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<DatabaseResult<string>>} NextAuth user ID or error.
+ */
+export async function getNextAuthIdBySpotifyUserId(spotifyUserId: string): Promise<DatabaseResult<string>> {
+  try {
+    const accountDoc = await findSpotifyAccount(spotifyUserId)
+    const userId = accountDoc?.data().userId
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Spotify account not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: userId,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get user ID',
+    }
+  }
+}
+
+/**
+ * @description Returns a user's Spotify access token from their NextAuth account, refreshing and saving it if it
+ * has expired. Lets server routes act for a playlist owner who isn't the signed-in user.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<DatabaseResult<string>>} Access token or error.
+ */
+export async function getStoredAccessToken(spotifyUserId: string): Promise<DatabaseResult<string>> {
+  try {
+    const accountDoc = await findSpotifyAccount(spotifyUserId)
+    if (!accountDoc) {
+      return {
+        success: false,
+        error: 'Spotify account not found',
+      }
+    }
+
+    const account = accountDoc.data()
+    if (!account.access_token) {
+      return {
+        success: false,
+        error: 'Access token not available',
+      }
+    }
+
+    // expires_at is stored in seconds
+    if (!account.expires_at || Date.now() < account.expires_at * 1000) {
+      return {
+        success: true,
+        data: account.access_token,
+      }
+    }
+
+    const refreshed = await refreshAccessToken(account.refresh_token)
+    if ('error' in refreshed) {
+      return {
+        success: false,
+        error: 'Failed to refresh access token',
+      }
+    }
+
+    await accountDoc.ref.update({
+      access_token: refreshed.accessToken,
+      refresh_token: refreshed.refreshToken,
+      expires_at: Math.floor(refreshed.accessTokenExpires / 1000),
+    })
+
+    return {
+      success: true,
+      data: refreshed.accessToken,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get access token',
+    }
+  }
+}
+
+/**
+ * @description Saves the tokens and scopes from a fresh Spotify sign-in on the user's NextAuth account. NextAuth only
+ * writes the account when it's first linked, so without this a user who re-consents keeps their old scopes.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @param {{ access_token: string, refresh_token?: string, expires_at?: number, scope?: string }} tokens - Tokens
+ * from the OAuth callback; `expires_at` is in seconds.
+ * @returns {Promise<DatabaseResult<void>>} Update result.
+ */
+export async function updateStoredSpotifyTokens(
+  spotifyUserId: string,
+  tokens: { access_token: string, refresh_token?: string, expires_at?: number, scope?: string }
+): Promise<DatabaseResult<void>> {
+  try {
+    const accountDoc = await findSpotifyAccount(spotifyUserId)
+    if (!accountDoc) {
+      return {
+        success: false,
+        error: 'Spotify account not found',
+      }
+    }
+
+    await accountDoc.ref.update({
+      access_token: tokens.access_token,
+      ...(tokens.refresh_token ? { refresh_token: tokens.refresh_token } : {}),
+      ...(tokens.expires_at ? { expires_at: tokens.expires_at } : {}),
+      ...(tokens.scope ? { scope: tokens.scope } : {}),
+    })
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update access token',
+    }
+  }
+}
+
+/**
+ * @description Returns the Spotify scopes a user granted SMAS when they last signed in.
+ * @param {string} spotifyUserId - Spotify user ID.
+ * @returns {Promise<DatabaseResult<string[]>>} Granted scopes (empty if none were recorded) or error.
+ */
+export async function getGrantedScopes(spotifyUserId: string): Promise<DatabaseResult<string[]>> {
+  try {
+    const accountDoc = await findSpotifyAccount(spotifyUserId)
+    if (!accountDoc) {
+      return {
+        success: false,
+        error: 'Spotify account not found',
+      }
+    }
+
+    const scope = accountDoc.data().scope
+    return {
+      success: true,
+      data: typeof scope === 'string' ? scope.split(' ').filter(Boolean) : [],
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get granted scopes',
+    }
+  }
+}
+
+/**
+ * @description Returns the first usable stored access token among several users, tried in order. Group playlists
+ * use this to fall back to a co-owner's token when the primary owner's can't be refreshed.
+ * @param {string[]} spotifyUserIds - Spotify user IDs, in order of preference.
+ * @returns {Promise<DatabaseResult<{ spotifyUserId: string, accessToken: string }>>} The token and whose it is, or error.
+ */
+export async function getFirstStoredAccessToken(
+  spotifyUserIds: string[]
+): Promise<DatabaseResult<{ spotifyUserId: string, accessToken: string }>> {
+  let lastError = 'Spotify account not found'
+
+  for (const spotifyUserId of spotifyUserIds) {
+    const tokenResult = await getStoredAccessToken(spotifyUserId)
+    if (tokenResult.success && tokenResult.data) {
+      return {
+        success: true,
+        data: { spotifyUserId, accessToken: tokenResult.data },
+      }
+    }
+    lastError = tokenResult.error || lastError
+  }
+
+  return {
+    success: false,
+    error: lastError,
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * @fileoverview Playlist store - Zustand state management for playlist data.
  *
- * Manages user's top 5 songs, SMAS playlist, contributors, and loading states.
+ * Manages user's top 5 songs, SMAS playlist, contributors, the playlist selected on the dashboard, and loading states.
  */
 import { create } from 'zustand'
 
@@ -11,28 +11,40 @@ export interface Song {
   artist: string
   album: string
   imageUrl?: string
+  contributorId?: string // Internal UUID of the friend who added it through SMAS
   contributorName?: string
+  addedAt?: string // ISO time the track was added to the playlist
+  linkLabel?: string // Label of the sharing link it came through
 }
 
 export interface Playlist {
   id: string
   name: string
+  description?: string
   songs: Song[]
   contributors: string[]
   shareLink: string
   firestoreId?: string
+  contributionCooldownDays?: number
+  maxTracksPerContribution?: number
+  requiresApproval?: boolean // The owner approves each contribution before its songs are added
+  isOrphaned?: boolean // The Spotify playlist was deleted; songs can't be shown until it's recreated
+  coOwnerIds?: string[] // Spotify user IDs of the playlist's co-owners
+  isCoOwned?: boolean // The signed-in user is a co-owner, not the primary owner
 }
 
 interface PlaylistState {
   // State
   topSongs: Song[]
   playlist: Playlist | null
+  selectedPlaylistId: string | null // Firestore ID of the owner's chosen playlist; null for their oldest
   isLoading: boolean
   hasError: boolean
 
   // Actions
   setTopSongs: (songs: Song[]) => void
   setPlaylist: (playlist: Playlist) => void
+  setSelectedPlaylistId: (playlistId: string | null) => void
   addSongsToPlaylist: (songs: Song[], contributorId: string) => void
   setLoading: (loading: boolean) => void
   setError: (error: boolean) => void
@@ -46,6 +58,7 @@ export const usePlaylistStore = create<PlaylistState>((set, get) => ({
   // Initial state
   topSongs: [],
   playlist: null,
+  selectedPlaylistId: null,
   isLoading: false,
   hasError: false,
 
@@ -54,6 +67,8 @@ export const usePlaylistStore = create<PlaylistState>((set, get) => ({
 
   setPlaylist: (playlist) => set({ playlist }),
 
+  setSelectedPlaylistId: (playlistId) => set({ selectedPlaylistId: playlistId }),
+
   addSongsToPlaylist: (songs, contributorId) => {
     const { playlist } = get()
     if (!playlist) return
@@ -79,6 +94,7 @@ export const usePlaylistStore = create<PlaylistState>((set, get) => ({
   reset: () => set({
     topSongs: [],
     playlist: null,
+    selectedPlaylistId: null,
     isLoading: false,
     hasError: false
   })
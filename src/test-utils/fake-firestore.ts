@@ -0,0 +1,291 @@
+/**
+ * @fileoverview In-memory Firestore fake for service tests.
+ *
+ * Supports the subset of the Admin SDK the Firebase services use: documents, equality queries, field value
+ * sentinels, dotted field paths in updates, and transactions. Transactions run one at a time, like Firestore's
+ * server-side locking, while plain reads and writes yield between steps so concurrent callers interleave.
+ */
+
+type DocData = Record<string, any>
+
+/**
+ * @description Stand-in for admin.firestore.Timestamp.
+ */
+export class FakeTimestamp {
+  constructor(private readonly millis: number) { }
+
+  static now(): FakeTimestamp {
+    return new FakeTimestamp(Date.now())
+  }
+
+  static fromMillis(millis: number): FakeTimestamp {
+    return new FakeTimestamp(millis)
+  }
+
+  static fromDate(date: Date): FakeTimestamp {
+    return new FakeTimestamp(date.getTime())
+  }
+
+  toMillis(): number {
+    return this.millis
+  }
+
+  toDate(): Date {
+    return new Date(this.millis)
+  }
+}
+
+class FieldValueSentinel {
+  constructor(public kind: 'increment' | 'serverTimestamp' | 'arrayUnion' | 'arrayRemove' | 'delete', public value?: any) { }
+}
+
+/**
+ * @description Stand-in for the firebase-admin default export, for use with jest.mock('firebase-admin').
+ */
+export const fakeAdmin = {
+  firestore: {
+    Timestamp: FakeTimestamp,
+    FieldValue: {
+      increment: (amount: number) => new FieldValueSentinel('increment', amount),
+      serverTimestamp: () => new FieldValueSentinel('serverTimestamp'),
+      arrayUnion: (...values: any[]) => new FieldValueSentinel('arrayUnion', values),
+      arrayRemove: (...values: any[]) => new FieldValueSentinel('arrayRemove', values),
+      delete: () => new FieldValueSentinel('delete'),
+    },
+  },
+}
+
+const tick = () => Promise.resolve()
+
+/**
+ * @description Resolves a field value sentinel against the field's current value.
+ */
+function resolveValue(current: any, value: any): any {
+  if (!(value instanceof FieldValueSentinel)) return value
+  if (value.kind === 'increment') return (current ?? 0) + value.value
+  if (value.kind === 'serverTimestamp') return FakeTimestamp.now()
+  const existing: any[] = current ?? []
+  if (value.kind === 'arrayRemove') return existing.filter(item => !value.value.includes(item))
+  return [...existing, ...value.value.filter((item: any) => !existing.includes(item))]
+}
+
+/**
+ * @description Applies fields to a copy of the document's data. Updates treat dotted keys as nested field
+ * paths, like Firestore; sets and creates store keys as given.
+ */
+function applyFields(current: DocData | undefined, fields: DocData, mode: 'set' | 'create' | 'update'): DocData {
+  const result: DocData = mode === 'update' ? { ...current } : {}
+  Object.entries(fields).forEach(([key, value]) => {
+    const path = mode === 'update' ? key.split('.') : [key]
+    const field = path.pop()!
+    // Copy each nested map on the way down so stored snapshots aren't mutated
+    const parent = path.reduce((node, segment) => {
+      node[segment] = typeof node[segment] === 'object' && node[segment] !== null ? { ...node[segment] } : {}
+      return node[segment]
+    }, result)
+    if (value instanceof FieldValueSentinel && value.kind === 'delete') {
+      delete parent[field]
+      return
+    }
+    parent[field] = resolveValue(mode === 'update' ? parent[field] : current?.[field], value)
+  })
+  return result
+}
+
+class FakeDocumentRef {
+  constructor(private db: FakeFirestore, public collectionName: string, public id: string) { }
+
+  async get() {
+    await tick()
+    return this.db.snapshotOf(this)
+  }
+
+  async set(data: DocData) {
+    await tick()
+    this.db.write(this, 'set', data)
+  }
+
+  async create(data: DocData) {
+    await tick()
+    this.db.write(this, 'create', data)
+  }
+
+  async update(data: DocData) {
+    await tick()
+    this.db.write(this, 'update', data)
+  }
+
+  async delete() {
+    await tick()
+    this.db.write(this, 'delete')
+  }
+}
+
+class FakeQuery {
+  constructor(
+    protected db: FakeFirestore,
+    public collectionName: string,
+    public filters: Array<[string, any]> = [],
+    public limitCount?: number
+  ) { }
+
+  where(field: string, op: string, value: any): FakeQuery {
+    if (op !== '==') {
+      throw new Error(`FakeFirestore only supports == queries, got ${op}`)
+    }
+    return new FakeQuery(this.db, this.collectionName, [...this.filters, [field, value]], this.limitCount)
+  }
+
+  limit(count: number): FakeQuery {
+    return new FakeQuery(this.db, this.collectionName, this.filters, count)
+  }
+
+  async get() {
+    await tick()
+    return this.db.runQuery(this)
+  }
+}
+
+class FakeCollectionRef extends FakeQuery {
+  private nextId = 0
+
+  doc(id?: string): FakeDocumentRef {
+    return new FakeDocumentRef(this.db, this.collectionName, id ?? `${this.collectionName}-${++this.nextId}`)
+  }
+}
+
+class FakeTransaction {
+  private writes: Array<() => void> = []
+
+  constructor(private db: FakeFirestore) { }
+
+  async get(target: FakeDocumentRef | FakeQuery) {
+    await tick()
+    return target instanceof FakeDocumentRef ? this.db.snapshotOf(target) : this.db.runQuery(target)
+  }
+
+  set(ref: FakeDocumentRef, data: DocData) {
+    this.writes.push(() => this.db.write(ref, 'set', data))
+  }
+
+  create(ref: FakeDocumentRef, data: DocData) {
+    this.writes.push(() => this.db.write(ref, 'create', data))
+  }
+
+  update(ref: FakeDocumentRef, data: DocData) {
+    this.writes.push(() => this.db.write(ref, 'update', data))
+  }
+
+  delete(ref: FakeDocumentRef) {
+    this.writes.push(() => this.db.write(ref, 'delete'))
+  }
+
+  commit() {
+    this.writes.forEach(write => write())
+  }
+}
+
+/**
+ * @description In-memory Firestore database.
+ */
+export class FakeFirestore {
+  private collections = new Map<string, Map<string, DocData>>()
+  private transactionQueue: Promise<unknown> = Promise.resolve()
+
+  collection(name: string): FakeCollectionRef {
+    return new FakeCollectionRef(this, name)
+  }
+
+  /**
+   * @description Runs transactions one at a time; writes are applied only if the callback resolves.
+   */
+  runTransaction<T>(updateFunction: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    const run = this.transactionQueue.then(async () => {
+      const transaction = new FakeTransaction(this)
+      const result = await updateFunction(transaction)
+      transaction.commit()
+      return result
+    })
+    this.transactionQueue = run.catch(() => undefined)
+    return run
+  }
+
+  /**
+   * @description Seeds a document directly, for test setup.
+   */
+  seed(collectionName: string, id: string, data: DocData) {
+    this.docs(collectionName).set(id, { ...data })
+  }
+
+  /**
+   * @description Returns a document's data, for test assertions.
+   */
+  getData(collectionName: string, id: string): DocData | undefined {
+    return this.docs(collectionName).get(id)
+  }
+
+  /**
+   * @description Returns every document in a collection, for test assertions.
+   */
+  getAll(collectionName: string): DocData[] {
+    return Array.from(this.docs(collectionName).values())
+  }
+
+  reset() {
+    this.collections.clear()
+    this.transactionQueue = Promise.resolve()
+  }
+
+  snapshotOf(ref: FakeDocumentRef) {
+    const data = this.docs(ref.collectionName).get(ref.id)
+    return {
+      id: ref.id,
+      ref,
+      exists: data !== undefined,
+      data: () => (data ? { ...data } : undefined),
+    }
+  }
+
+  runQuery(query: FakeQuery) {
+    const matches = Array.from(this.docs(query.collectionName).entries())
+      .filter(([, data]) => query.filters.every(([field, value]) => data[field] === value))
+      .slice(0, query.limitCount)
+      .map(([id]) => this.snapshotOf(new FakeDocumentRef(this, query.collectionName, id)))
+
+    return {
+      empty: matches.length === 0,
+      size: matches.length,
+      docs: matches,
+    }
+  }
+
+  write(ref: FakeDocumentRef, mode: 'set' | 'create' | 'update' | 'delete', data: DocData = {}) {
+    const docs = this.docs(ref.collectionName)
+    const current = docs.get(ref.id)
+
+    if (mode === 'delete') {
+      docs.delete(ref.id)
+      return
+    }
+    if (mode === 'create' && current) {
+      throw new Error(`Document ${ref.collectionName}/${ref.id} already exists`)
+    }
+    if (mode === 'update' && !current) {
+      throw new Error(`No document to update: ${ref.collectionName}/${ref.id}`)
+    }
+
+    docs.set(ref.id, applyFields(current, data, mode))
+  }
+
+  private docs(collectionName: string): Map<string, DocData> {
+    if (!this.collections.has(collectionName)) {
+      this.collections.set(collectionName, new Map())
+    }
+    return this.collections.get(collectionName)!
+  }
+}
+
+/**
+ * @description Shared instance, for use with jest.mock('@/lib/firebaseAdmin').
+ */
+export const fakeDb = new FakeFirestore()
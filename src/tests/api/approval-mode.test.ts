@@ -0,0 +1,195 @@
+/**
+ * @fileoverview API tests for approval mode, where the owner approves each contribution before its songs are added.
+ *
+ * Runs the settings and contribute routes against an in-memory Firestore with Spotify mocked, to check that the owner
+ * can turn approval mode on and that contributions then wait in the review queue instead of reaching Spotify.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  addTracksToPlaylist: jest.fn(),
+  getPlaylistTracks: jest.fn(),
+  updatePlaylistDetails: jest.fn()
+}))
+jest.mock('@/services/firebase/rate-limits', () => ({
+  // A fresh store per request, so each test gets its own contribution budget
+  getRateLimitStore: () => new (jest.requireActual('@/lib/request-rate-limit').MemoryRateLimitStore)()
+}))
+jest.mock('next-auth/next', () => ({
+  getServerSession: jest.fn()
+}))
+jest.mock('@/app/(auth)/api/auth/[...nextauth]/route', () => ({
+  authOptions: {}
+}))
+
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { validateApiRequest } from '@/lib/auth'
+import { addTracksToPlaylist, getPlaylistTracks } from '@/lib/spotify'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { PATCH as updateSettings } from '@/app/api/spotify/playlists/[playlistId]/route'
+import { POST as contribute } from '@/app/api/spotify/contribute/route'
+
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>
+const mockAddTracksToPlaylist = addTracksToPlaylist as jest.MockedFunction<typeof addTracksToPlaylist>
+const mockGetPlaylistTracks = getPlaylistTracks as jest.MockedFunction<typeof getPlaylistTracks>
+
+const params = { params: Promise.resolve({ playlistId: 'playlist-1' }) }
+
+/**
+ * @description Builds a JSON request with the given body and headers.
+ * @param {unknown} body - Request body.
+ * @param {Record<string, string>} [headers] - Request headers.
+ * @returns {NextRequest} The request.
+ */
+function jsonRequest(body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return { headers: new Headers(headers), json: () => Promise.resolve(body) } as unknown as NextRequest
+}
+
+/**
+ * @description Signs the owner in for the settings route.
+ */
+function signInOwner() {
+  mockValidateApiRequest.mockResolvedValue({
+    session: createMockSession({ user: { id: 'owner-uuid', name: 'Owner' } }),
+    accessToken: 'owner-token',
+  } as any)
+}
+
+/**
+ * @description Sends the friend's songs through the owner's link.
+ * @returns {Promise<any>} The route's response.
+ */
+function sendSongs() {
+  mockGetServerSession.mockResolvedValue(createMockSession({ user: { id: 'friend-uuid', name: 'Friend' } }))
+  return contribute(jsonRequest(
+    { playlistId: 'playlist-1', linkSlug: 'owner-link', trackUris: ['spotify:track:new', 'spotify:track:existing'] },
+    { 'Idempotency-Key': 'submission-1', 'x-forwarded-for': '203.0.113.7' }
+  ))
+}
+
+describe('Approval mode', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetPlaylistTracks.mockResolvedValue({ items: [{ track: { uri: 'spotify:track:existing' } }] })
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', {
+      userId: 'owner-uuid',
+      provider: 'spotify',
+      providerAccountId: 'owner-spotify',
+      access_token: 'owner-token',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-01-01T00:00:00.000Z')),
+    })
+    fakeDb.seed('accounts', 'friend-account', {
+      userId: 'friend-uuid',
+      provider: 'spotify',
+      providerAccountId: 'friend-spotify',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-01-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', {
+      id: 'link-1',
+      linkSlug: 'owner-link',
+      playlistId: 'playlist-1',
+      spotifyUserId: 'owner-spotify',
+      ownerName: 'Owner',
+      isActive: true,
+      usageCount: 0,
+    })
+  })
+
+  describe('PATCH playlist settings', () => {
+    beforeEach(() => {
+      signInOwner()
+    })
+
+    it('should turn approval mode on for the owner', async () => {
+      const response = await updateSettings(jsonRequest({ requiresApproval: true }), params)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ requiresApproval: true })
+      expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.requiresApproval).toBe(true)
+    })
+
+    it('should reject a setting that is not a boolean', async () => {
+      const response = await updateSettings(jsonRequest({ requiresApproval: 'yes' }), params)
+
+      expect(response.status).toBe(400)
+      expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.requiresApproval).toBeUndefined()
+    })
+  })
+
+  describe('POST contribute', () => {
+    it('should add songs straight away when approval mode is off', async () => {
+      const response = await sendSongs()
+
+      expect(response.status).toBe(200)
+      expect(mockAddTracksToPlaylist).toHaveBeenCalledWith('owner-token', 'spotify-playlist-1', ['spotify:track:new'])
+    })
+
+    it('should hold songs for the owner without adding them to Spotify once approval mode is on', async () => {
+      signInOwner()
+      const settingsResponse = await updateSettings(jsonRequest({ requiresApproval: true }), params)
+      expect(settingsResponse.status).toBe(200)
+
+      const response = await sendSongs()
+      const data = await response.json()
+
+      expect(response.status).toBe(202)
+      expect(data).toMatchObject({
+        pending: true,
+        addedTrackUris: [],
+        pendingTrackUris: ['spotify:track:new'],
+        skippedTrackUris: ['spotify:track:existing'],
+      })
+      expect(mockAddTracksToPlaylist).not.toHaveBeenCalled()
+
+      const [contribution] = fakeDb.getAll(COLLECTIONS.CONTRIBUTIONS)
+      expect(contribution).toMatchObject({ status: 'pending', spotifyTrackUris: ['spotify:track:new'] })
+      expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.usageCount).toBe(1)
+    })
+
+    it('should add songs straight away again once approval mode is off', async () => {
+      signInOwner()
+      await updateSettings(jsonRequest({ requiresApproval: true }), params)
+      await updateSettings(jsonRequest({ requiresApproval: false }), params)
+
+      const response = await sendSongs()
+
+      expect(response.status).toBe(200)
+      expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    })
+  })
+})
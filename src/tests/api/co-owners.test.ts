@@ -0,0 +1,216 @@
+/**
+ * @fileoverview API tests for adding a co-owner to a group playlist.
+ *
+ * Runs the co-owners route against an in-memory Firestore with Spotify mocked, to check that the first co-owner makes
+ * the playlist collaborative and private, that each co-owner follows it, that owners and co-owners who haven't
+ * granted the private playlist scopes are asked to sign in again first, and that co-owners can remove themselves but
+ * can't add or remove anyone else.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  followPlaylist: jest.fn(),
+  updatePlaylistDetails: jest.fn()
+}))
+
+import { NextRequest } from 'next/server'
+import { validateApiRequest, validateSession } from '@/lib/auth'
+import { SPOTIFY_CONFIG } from '@/lib/constants'
+import { followPlaylist, updatePlaylistDetails } from '@/lib/spotify'
+import { updateStoredSpotifyTokens } from '@/services/firebase/users'
+import { fakeDb } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { POST as addCoOwner } from '@/app/api/spotify/playlists/[playlistId]/co-owners/route'
+import { DELETE as removeCoOwner } from '@/app/api/spotify/playlists/[playlistId]/co-owners/[coOwnerId]/route'
+
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockFollowPlaylist = followPlaylist as jest.MockedFunction<typeof followPlaylist>
+const mockUpdatePlaylistDetails = updatePlaylistDetails as jest.MockedFunction<typeof updatePlaylistDetails>
+
+const SCOPES_BEFORE_CO_OWNERS = 'user-top-read playlist-modify-public playlist-read-private user-read-email'
+
+/**
+ * @description Seeds a signed-in SMAS user's Spotify account.
+ * @param {string} name - Prefix for the user's IDs and token.
+ * @param {string} scope - Scopes the user granted.
+ */
+function seedAccount(name: string, scope: string) {
+  fakeDb.seed('accounts', `${name}-account`, {
+    userId: `${name}-uuid`,
+    provider: 'spotify',
+    providerAccountId: `${name}-spotify`,
+    access_token: `${name}-token`,
+    scope,
+  })
+}
+
+/**
+ * @description Asks to add a co-owner to the test playlist as its owner.
+ * @param {string} spotifyUserId - The co-owner's Spotify user ID.
+ * @returns {Promise<any>} The route's response.
+ */
+function add(spotifyUserId: string) {
+  const request = { headers: new Headers(), json: () => Promise.resolve({ spotifyUserId }) } as unknown as NextRequest
+  return addCoOwner(request, { params: Promise.resolve({ playlistId: 'playlist-1' }) })
+}
+
+/**
+ * @description Asks to remove a co-owner from the test playlist as a signed-in user.
+ * @param {string} nextAuthUserId - NextAuth user ID of the user asking.
+ * @param {string} coOwnerId - The co-owner's Spotify user ID, or `me`.
+ * @returns {Promise<any>} The route's response.
+ */
+function remove(nextAuthUserId: string, coOwnerId: string) {
+  mockValidateSession.mockResolvedValue(createMockSession({ user: { id: nextAuthUserId, name: 'Test User' } }))
+  return removeCoOwner({} as NextRequest, { params: Promise.resolve({ playlistId: 'playlist-1', coOwnerId }) })
+}
+
+describe('Co-owners route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockValidateApiRequest.mockResolvedValue({
+      session: createMockSession({ user: { id: 'owner-uuid', name: 'Owner' } }),
+      accessToken: 'owner-token',
+    } as any)
+
+    fakeDb.reset()
+    seedAccount('owner', SPOTIFY_CONFIG.scopes)
+    seedAccount('friend', SPOTIFY_CONFIG.scopes)
+    seedAccount('other-friend', SPOTIFY_CONFIG.scopes)
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      isActive: true,
+    })
+  })
+
+  it('should make the playlist private and collaborative for the first co-owner, who follows it', async () => {
+    const response = await add('friend-spotify')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ coOwnerIds: ['friend-spotify'] })
+    expect(mockUpdatePlaylistDetails).toHaveBeenCalledWith('owner-token', 'spotify-playlist-1', { public: false, collaborative: true })
+    expect(mockFollowPlaylist).toHaveBeenCalledWith('friend-token', 'spotify-playlist-1')
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.coOwnerIds).toEqual(['friend-spotify'])
+  })
+
+  it('should only follow the playlist for later co-owners', async () => {
+    await add('friend-spotify')
+    const response = await add('other-friend-spotify')
+
+    expect(response.status).toBe(200)
+    expect(mockUpdatePlaylistDetails).toHaveBeenCalledTimes(1)
+    expect(mockFollowPlaylist).toHaveBeenLastCalledWith('other-friend-token', 'spotify-playlist-1')
+  })
+
+  it('should ask an owner who signed in before co-owners existed to sign in again', async () => {
+    seedAccount('owner', SCOPES_BEFORE_CO_OWNERS)
+
+    const response = await add('friend-spotify')
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ reauthRequired: true })
+    expect(mockUpdatePlaylistDetails).not.toHaveBeenCalled()
+    expect(mockFollowPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.coOwnerIds).toBeUndefined()
+  })
+
+  it('should let the owner add a co-owner once signing in again has saved the new scopes', async () => {
+    seedAccount('owner', SCOPES_BEFORE_CO_OWNERS)
+    await updateStoredSpotifyTokens('owner-spotify', { access_token: 'owner-token', scope: SPOTIFY_CONFIG.scopes })
+
+    const response = await add('friend-spotify')
+
+    expect(response.status).toBe(200)
+    expect(mockUpdatePlaylistDetails).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refuse a co-owner who hasn\'t granted the private playlist scopes', async () => {
+    seedAccount('friend', SCOPES_BEFORE_CO_OWNERS)
+
+    const response = await add('friend-spotify')
+
+    expect(response.status).toBe(409)
+    expect(mockUpdatePlaylistDetails).not.toHaveBeenCalled()
+    expect(mockFollowPlaylist).not.toHaveBeenCalled()
+  })
+
+  it('should not let a co-owner add another co-owner', async () => {
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      coOwnerIds: ['friend-spotify'],
+      isActive: true,
+    })
+    mockValidateApiRequest.mockResolvedValue({
+      session: createMockSession({ user: { id: 'friend-uuid', name: 'Friend' } }),
+      accessToken: 'friend-token',
+    } as any)
+
+    const response = await add('other-friend-spotify')
+
+    expect(response.status).toBe(403)
+    expect(mockFollowPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.coOwnerIds).toEqual(['friend-spotify'])
+  })
+
+  describe('removing a co-owner', () => {
+    beforeEach(() => {
+      fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+        id: 'playlist-1',
+        spotifyPlaylistId: 'spotify-playlist-1',
+        spotifyUserId: 'owner-spotify',
+        coOwnerIds: ['friend-spotify', 'other-friend-spotify'],
+        isActive: true,
+      })
+    })
+
+    it('should let the owner remove any co-owner', async () => {
+      const response = await remove('owner-uuid', 'friend-spotify')
+
+      expect(response.status).toBe(200)
+      expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.coOwnerIds).toEqual(['other-friend-spotify'])
+    })
+
+    it('should let a co-owner remove themselves', async () => {
+      const response = await remove('friend-uuid', 'me')
+
+      expect(response.status).toBe(200)
+      expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.coOwnerIds).toEqual(['other-friend-spotify'])
+    })
+
+    it('should not let a co-owner remove another co-owner', async () => {
+      const response = await remove('friend-uuid', 'other-friend-spotify')
+
+      expect(response.status).toBe(403)
+      expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.coOwnerIds).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview API tests for what the contribute route reports once songs have reached Spotify.
+ *
+ * Runs the contribute route against an in-memory Firestore with Spotify mocked, to check that a contribution whose
+ * record can't be updated after its songs were added still reports them, keeps the link use and credits the tracks.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  addTracksToPlaylist: jest.fn(),
+  getPlaylistTracks: jest.fn()
+}))
+jest.mock('@/services/firebase/contributions', () => ({
+  ...jest.requireActual('@/services/firebase/contributions'),
+  activateContribution: jest.fn()
+}))
+jest.mock('@/services/firebase/rate-limits', () => ({
+  getRateLimitStore: () => new (jest.requireActual('@/lib/request-rate-limit').MemoryRateLimitStore)()
+}))
+jest.mock('next-auth/next', () => ({
+  getServerSession: jest.fn()
+}))
+jest.mock('@/app/(auth)/api/auth/[...nextauth]/route', () => ({
+  authOptions: {}
+}))
+
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { addTracksToPlaylist, getPlaylistTracks } from '@/lib/spotify'
+import { activateContribution } from '@/services/firebase/contributions'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { POST as contribute } from '@/app/api/spotify/contribute/route'
+
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>
+const mockAddTracksToPlaylist = addTracksToPlaylist as jest.MockedFunction<typeof addTracksToPlaylist>
+const mockGetPlaylistTracks = getPlaylistTracks as jest.MockedFunction<typeof getPlaylistTracks>
+const mockActivateContribution = activateContribution as jest.MockedFunction<typeof activateContribution>
+
+/**
+ * @description Sends the friend's songs through the owner's link.
+ * @returns {Promise<any>} The route's response.
+ */
+function sendSongs() {
+  return contribute({
+    headers: new Headers({ 'Idempotency-Key': 'submission-1' }),
+    json: () => Promise.resolve({ playlistId: 'playlist-1', linkSlug: 'owner-link', trackUris: ['spotify:track:a'] }),
+  } as unknown as NextRequest)
+}
+
+describe('Contribute route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue(createMockSession({ user: { id: 'friend-uuid', name: 'Friend' } }))
+    mockGetPlaylistTracks.mockResolvedValue({ items: [] })
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', {
+      userId: 'owner-uuid',
+      provider: 'spotify',
+      providerAccountId: 'owner-spotify',
+      access_token: 'owner-token',
+    })
+    fakeDb.seed('accounts', 'friend-account', {
+      userId: 'friend-uuid',
+      provider: 'spotify',
+      providerAccountId: 'friend-spotify',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-01-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', {
+      id: 'link-1',
+      linkSlug: 'owner-link',
+      playlistId: 'playlist-1',
+      ownerName: 'Owner',
+      isActive: true,
+      usageCount: 0,
+    })
+  })
+
+  it('should still report songs Spotify added when the contribution can\'t be marked active', async () => {
+    mockActivateContribution.mockResolvedValue({ success: false, error: 'Firestore unavailable' })
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+    const response = await sendSongs()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ addedTrackUris: ['spotify:track:a'], skippedTrackUris: [] })
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.usageCount).toBe(1)
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.trackAttributions?.a).toMatchObject({
+      contributorId: 'friend-uuid',
+      linkId: 'link-1',
+    })
+    consoleSpy.mockRestore()
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * @fileoverview API tests for owner moderation: removing contributions, blocking contributors, and the contributor
+ * detail view.
+ *
+ * Runs the routes against an in-memory Firestore with Spotify mocked, to check that only owners can moderate, that
+ * only tracks SMAS added are ever removed from Spotify, and that blocked friends can't contribute again.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  removeTracksFromPlaylist: jest.fn()
+}))
+jest.mock('@/lib/contribution-history', () => ({
+  ...jest.requireActual('@/lib/contribution-history'),
+  getTrackDetails: jest.fn().mockResolvedValue(new Map()),
+  getPlaylistTrackUris: jest.fn().mockResolvedValue(new Set(['spotify:track:a']))
+}))
+jest.mock('@/services/firebase/rate-limits', () => ({
+  getRateLimitStore: () => new (jest.requireActual('@/lib/request-rate-limit').MemoryRateLimitStore)()
+}))
+jest.mock('next-auth/next', () => ({
+  getServerSession: jest.fn()
+}))
+jest.mock('@/app/(auth)/api/auth/[...nextauth]/route', () => ({
+  authOptions: {}
+}))
+
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { validateApiRequest } from '@/lib/auth'
+import { removeTracksFromPlaylist } from '@/lib/spotify'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { DELETE as removeContribution } from '@/app/api/spotify/playlists/[playlistId]/contributions/[contributionId]/route'
+import { GET as getContributor } from '@/app/api/spotify/playlists/[playlistId]/contributors/[contributorId]/route'
+import { POST as contribute } from '@/app/api/spotify/contribute/route'
+
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>
+const mockRemoveTracksFromPlaylist = removeTracksFromPlaylist as jest.MockedFunction<typeof removeTracksFromPlaylist>
+
+/**
+ * @description Signs in as a NextAuth user whose Spotify account is already linked.
+ * @param {string} nextAuthUserId - NextAuth user ID.
+ */
+function signInAs(nextAuthUserId: string) {
+  mockValidateApiRequest.mockResolvedValue({
+    session: createMockSession({ user: { id: nextAuthUserId, name: 'Test User' } }),
+    accessToken: `${nextAuthUserId}-token`,
+  } as any)
+}
+
+/**
+ * @description Removes a contribution from the test playlist.
+ * @param {string} contributionId - Firestore contribution ID.
+ * @param {boolean} [block] - Whether to also block the contributor.
+ * @returns {Promise<any>} The route's response.
+ */
+function remove(contributionId: string, block = false) {
+  const request = {
+    headers: new Headers(),
+    nextUrl: new URL(`http://localhost/api/spotify/playlists/playlist-1/contributions/${contributionId}${block ? '?block=true' : ''}`),
+  } as unknown as NextRequest
+  return removeContribution(request, { params: Promise.resolve({ playlistId: 'playlist-1', contributionId }) })
+}
+
+/**
+ * @description Seeds a contribution to the test playlist.
+ * @param {string} id - Contribution ID.
+ * @param {Record<string, unknown>} data - Fields to set on the contribution.
+ */
+function seedContribution(id: string, data: Record<string, unknown>) {
+  fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, id, {
+    id,
+    playlistId: 'playlist-1',
+    contributorId: 'friend-uuid',
+    contributorName: 'Friend',
+    createdAt: FakeTimestamp.now(),
+    ...data,
+  })
+}
+
+describe('Owner moderation routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    signInAs('owner-uuid')
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', { userId: 'owner-uuid', providerAccountId: 'owner-spotify' })
+    fakeDb.seed('accounts', 'stranger-account', { userId: 'stranger-uuid', providerAccountId: 'stranger-spotify' })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', {
+      id: 'link-1',
+      linkSlug: 'owner-link',
+      playlistId: 'playlist-1',
+      isActive: true,
+      usageCount: 1,
+    })
+  })
+
+  it('should forbid removing a contribution from someone who doesn\'t own the playlist', async () => {
+    signInAs('stranger-uuid')
+    seedContribution('added', { status: 'active', spotifyTrackUris: ['spotify:track:a'] })
+
+    const response = await remove('added', true)
+
+    expect(response.status).toBe(403)
+    expect(mockRemoveTracksFromPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'added')?.status).toBe('active')
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.blockedContributorIds).toBeUndefined()
+  })
+
+  it('should remove only the revoked contribution\'s tracks', async () => {
+    seedContribution('added', { status: 'active', spotifyTrackUris: ['spotify:track:a', 'spotify:track:b'] })
+    seedContribution('other', { status: 'active', contributorId: 'friend-2', spotifyTrackUris: ['spotify:track:c'] })
+
+    const response = await remove('added')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ removedTrackUris: ['spotify:track:a', 'spotify:track:b'] })
+    expect(mockRemoveTracksFromPlaylist).toHaveBeenCalledTimes(1)
+    expect(mockRemoveTracksFromPlaylist).toHaveBeenCalledWith('owner-uuid-token', 'spotify-playlist-1', ['spotify:track:a', 'spotify:track:b'])
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'added')?.status).toBe('revoked')
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'other')?.status).toBe('active')
+  })
+
+  it('should do nothing when a contribution is revoked twice', async () => {
+    seedContribution('added', { status: 'active', spotifyTrackUris: ['spotify:track:a'] })
+
+    await remove('added')
+    const revokedAt = fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'added')?.revokedAt
+    const response = await remove('added')
+
+    expect(response.status).toBe(200)
+    expect(mockRemoveTracksFromPlaylist).toHaveBeenCalledTimes(1)
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'added')?.revokedAt).toBe(revokedAt)
+  })
+
+  it('should stop a blocked contributor from contributing again', async () => {
+    seedContribution('added', { status: 'active', spotifyTrackUris: ['spotify:track:a'] })
+
+    const response = await remove('added', true)
+    expect(await response.json()).toMatchObject({ isContributorBlocked: true })
+
+    mockGetServerSession.mockResolvedValue(createMockSession({ user: { id: 'friend-uuid', name: 'Friend' } }))
+    const contributeResponse = await contribute({
+      headers: new Headers({ 'Idempotency-Key': 'after-block' }),
+      json: () => Promise.resolve({ playlistId: 'playlist-1', linkSlug: 'owner-link', trackUris: ['spotify:track:d'] }),
+    } as unknown as NextRequest)
+
+    expect(contributeResponse.status).toBe(403)
+    expect(fakeDb.getAll(COLLECTIONS.CONTRIBUTIONS)).toHaveLength(1)
+  })
+
+  describe('GET contributor detail', () => {
+    /**
+     * @description Fetches the test friend's history on the playlist.
+     * @returns {Promise<any>} The route's response.
+     */
+    function fetchContributor() {
+      return getContributor(
+        { headers: new Headers() } as unknown as NextRequest,
+        { params: Promise.resolve({ playlistId: 'playlist-1', contributorId: 'friend-uuid' }) }
+      )
+    }
+
+    it('should forbid the view to someone who doesn\'t own the playlist', async () => {
+      signInAs('stranger-uuid')
+      seedContribution('added', { status: 'active', spotifyTrackUris: ['spotify:track:a'] })
+
+      expect((await fetchContributor()).status).toBe(403)
+    })
+
+    it('should list the contributor\'s tracks, including revoked ones, for the owner', async () => {
+      seedContribution('added', { status: 'active', spotifyTrackUris: ['spotify:track:a'] })
+      seedContribution('removed', { status: 'revoked', spotifyTrackUris: ['spotify:track:b'] })
+      seedContribution('other', { status: 'active', contributorId: 'friend-2', spotifyTrackUris: ['spotify:track:c'] })
+
+      const response = await fetchContributor()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ contributorId: 'friend-uuid', contributorName: 'Friend', totalTracks: 2, tracksInPlaylist: 1 })
+      expect(data.contributions.map((entry: { id: string }) => entry.id).sort()).toEqual(['added', 'removed'])
+    })
+  })
+
+  it.each(['pending', 'processing'])('should not touch Spotify when removing a %s contribution', async status => {
+    seedContribution('held', { status, spotifyTrackUris: ['spotify:track:owner-song'] })
+
+    const response = await remove('held')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ removedTrackUris: [] })
+    expect(mockRemoveTracksFromPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'held')?.status).toBe('rejected')
+  })
+
+  it('should give the link use back when removing a held contribution', async () => {
+    seedContribution('held', { status: 'pending', spotifyTrackUris: ['spotify:track:a'], linkId: 'link-1' })
+
+    await remove('held')
+
+    expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.usageCount).toBe(0)
+  })
+
+  it('should leave a rejected contribution and Spotify alone', async () => {
+    seedContribution('declined', { status: 'rejected', spotifyTrackUris: ['spotify:track:owner-song'] })
+
+    const response = await remove('declined')
+
+    expect(response.status).toBe(200)
+    expect(mockRemoveTracksFromPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'declined')?.status).toBe('rejected')
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview API tests for approving or rejecting a contribution held for the owner's review.
+ *
+ * Runs the review route against an in-memory Firestore with Spotify mocked, to check that approved tracks are added
+ * once with the reviewer's token, and that rejecting never reaches Spotify.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  addTracksToPlaylist: jest.fn(),
+  getPlaylistTracks: jest.fn()
+}))
+
+import { NextRequest } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { addTracksToPlaylist, getPlaylistTracks } from '@/lib/spotify'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { POST as reviewContribution } from '@/app/api/spotify/playlists/[playlistId]/contributions/[contributionId]/review/route'
+
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockAddTracksToPlaylist = addTracksToPlaylist as jest.MockedFunction<typeof addTracksToPlaylist>
+const mockGetPlaylistTracks = getPlaylistTracks as jest.MockedFunction<typeof getPlaylistTracks>
+
+/**
+ * @description Signs in as a NextAuth user, whose Spotify token is named after them.
+ * @param {string} nextAuthUserId - NextAuth user ID.
+ */
+function signInAs(nextAuthUserId: string) {
+  mockValidateApiRequest.mockResolvedValue({
+    session: createMockSession({ user: { id: nextAuthUserId, name: 'Test User' } }),
+    accessToken: `${nextAuthUserId}-token`,
+  } as any)
+}
+
+/**
+ * @description Reviews the held test contribution.
+ * @param {'approve' | 'reject'} decision - The reviewer's decision.
+ * @returns {Promise<any>} The route's response.
+ */
+function review(decision: 'approve' | 'reject') {
+  const request = { headers: new Headers(), json: () => Promise.resolve({ decision }) } as unknown as NextRequest
+  return reviewContribution(request, { params: Promise.resolve({ playlistId: 'playlist-1', contributionId: 'held' }) })
+}
+
+describe('Contribution review route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    signInAs('owner-uuid')
+    mockGetPlaylistTracks.mockResolvedValue({ items: [] })
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', { userId: 'owner-uuid', providerAccountId: 'owner-spotify' })
+    fakeDb.seed('accounts', 'co-owner-account', { userId: 'co-owner-uuid', providerAccountId: 'co-owner-spotify' })
+    fakeDb.seed('accounts', 'stranger-account', { userId: 'stranger-uuid', providerAccountId: 'stranger-spotify' })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      coOwnerIds: ['co-owner-spotify'],
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', { id: 'link-1', playlistId: 'playlist-1', usageCount: 1 })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'held', {
+      id: 'held',
+      playlistId: 'playlist-1',
+      contributorId: 'friend-uuid',
+      contributorName: 'Friend',
+      spotifyTrackUris: ['spotify:track:a', 'spotify:track:b'],
+      linkId: 'link-1',
+      status: 'pending',
+      spamReasons: ['new_account', 'link_burst'],
+      createdAt: FakeTimestamp.now(),
+    })
+  })
+
+  it('should add the held tracks once and credit them to the contributor', async () => {
+    const response = await review('approve')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ status: 'active', addedTrackUris: ['spotify:track:a', 'spotify:track:b'] })
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledWith('owner-uuid-token', 'spotify-playlist-1', ['spotify:track:a', 'spotify:track:b'])
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'held')).toMatchObject({ status: 'active' })
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.trackAttributions?.a).toMatchObject({ contributorName: 'Friend' })
+  })
+
+  it('should skip tracks added to the playlist while the contribution waited', async () => {
+    mockGetPlaylistTracks.mockResolvedValue({ items: [{ track: { uri: 'spotify:track:a' } }] })
+
+    const response = await review('approve')
+
+    expect(await response.json()).toMatchObject({ addedTrackUris: ['spotify:track:b'], skippedTrackUris: ['spotify:track:a'] })
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledWith('owner-uuid-token', 'spotify-playlist-1', ['spotify:track:b'])
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'held')?.spotifyTrackUris).toEqual(['spotify:track:b'])
+  })
+
+  it('should reject without calling Spotify and give the link use back', async () => {
+    const response = await review('reject')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ status: 'rejected' })
+    expect(mockGetPlaylistTracks).not.toHaveBeenCalled()
+    expect(mockAddTracksToPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'held')?.status).toBe('rejected')
+    expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.usageCount).toBe(0)
+  })
+
+  it('should return 409 for a contribution that was already reviewed', async () => {
+    await review('approve')
+    const response = await review('reject')
+
+    expect(response.status).toBe(409)
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'held')?.status).toBe('active')
+  })
+
+  it('should add tracks with the co-owner\'s token when a co-owner approves', async () => {
+    signInAs('co-owner-uuid')
+
+    const response = await review('approve')
+
+    expect(response.status).toBe(200)
+    expect(mockGetPlaylistTracks).toHaveBeenCalledWith('co-owner-uuid-token', 'spotify-playlist-1')
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledWith('co-owner-uuid-token', 'spotify-playlist-1', ['spotify:track:a', 'spotify:track:b'])
+  })
+
+  it('should forbid reviews from someone who doesn\'t own the playlist', async () => {
+    signInAs('stranger-uuid')
+
+    const response = await review('approve')
+
+    expect(response.status).toBe(403)
+    expect(mockAddTracksToPlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'held')?.status).toBe('pending')
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview API tests for who can read a playlist's contributions and sharing links.
+ *
+ * Runs the routes against an in-memory Firestore to check that owners and co-owners get the full view, while
+ * everyone else gets a reduced public view without contributor names or internal UUIDs.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn()
+}))
+jest.mock('next-auth/next', () => ({
+  getServerSession: jest.fn()
+}))
+jest.mock('@/app/(auth)/api/auth/[...nextauth]/route', () => ({
+  authOptions: {}
+}))
+
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { validateSession } from '@/lib/auth'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { GET as getContributions } from '@/app/api/spotify/playlists/[playlistId]/contributions/route'
+import { GET as getSharingLink } from '@/app/api/spotify/playlists/[playlistId]/sharing-link/route'
+import { POST as createLink } from '@/app/api/sharing/create-link/route'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>
+
+const request = new NextRequest('http://localhost/api')
+const params = { params: Promise.resolve({ playlistId: 'playlist-1' }) }
+
+/**
+ * @description Signs in as a NextAuth user whose Spotify account is already linked.
+ * @param {string} nextAuthUserId - NextAuth user ID.
+ */
+function signInAs(nextAuthUserId: string) {
+  const session = createMockSession({ user: { id: nextAuthUserId, name: 'Test User' } })
+  mockValidateSession.mockResolvedValue(session)
+  mockGetServerSession.mockResolvedValue(session)
+}
+
+describe('Playlist read route access', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockValidateSession.mockResolvedValue(null)
+    mockGetServerSession.mockResolvedValue(null)
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', { userId: 'owner-uuid', providerAccountId: 'owner-spotify' })
+    fakeDb.seed('accounts', 'co-owner-account', { userId: 'co-owner-uuid', providerAccountId: 'co-owner-spotify' })
+    fakeDb.seed('accounts', 'stranger-account', { userId: 'stranger-uuid', providerAccountId: 'stranger-spotify' })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyUserId: 'owner-spotify',
+      coOwnerIds: ['co-owner-spotify'],
+      sharingLinkId: 'link-1',
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'contribution-1', {
+      playlistId: 'playlist-1',
+      contributorId: 'friend-uuid',
+      contributorName: 'Friend',
+      spotifyTrackUris: ['spotify:track:a'],
+      status: 'active',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-03-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'contribution-2', {
+      playlistId: 'playlist-1',
+      contributorId: 'other-uuid',
+      contributorName: 'Other Friend',
+      spotifyTrackUris: ['spotify:track:b'],
+      status: 'revoked',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-04-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', {
+      playlistId: 'playlist-1',
+      spotifyUserId: 'owner-spotify',
+      ownerName: 'Owner',
+      linkSlug: 'abc123',
+      label: 'Group chat',
+      usageCount: 4,
+      isActive: true,
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-02-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-2', {
+      playlistId: 'playlist-1',
+      spotifyUserId: 'owner-spotify',
+      ownerName: 'Owner',
+      linkSlug: 'def456',
+      label: 'Work friends',
+      usageCount: 1,
+      isActive: true,
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-02-02T00:00:00.000Z')),
+    })
+  })
+
+  describe('GET contributions', () => {
+    it('should return live contributions with contributor details to the owner', async () => {
+      signInAs('owner-uuid')
+
+      const response = await getContributions(request, params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.contributions).toHaveLength(1)
+      expect(data.contributions[0]).toMatchObject({ contributorId: 'friend-uuid', contributorName: 'Friend' })
+    })
+
+    it('should return the full view to a co-owner', async () => {
+      signInAs('co-owner-uuid')
+
+      const data = await (await getContributions(request, params)).json()
+
+      expect(data.contributions).toHaveLength(1)
+    })
+
+    it('should only return counts to signed-in users who do not own the playlist', async () => {
+      signInAs('stranger-uuid')
+
+      const response = await getContributions(request, params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ contributionCount: 1, lastContributedAt: '2025-03-01T00:00:00.000Z' })
+    })
+
+    it('should only return counts to signed-out visitors', async () => {
+      const data = await (await getContributions(request, params)).json()
+
+      expect(data.contributions).toBeUndefined()
+      expect(JSON.stringify(data)).not.toContain('friend-uuid')
+      expect(data.contributionCount).toBe(1)
+    })
+
+    it('should return 404 for an unknown playlist', async () => {
+      const response = await getContributions(request, { params: Promise.resolve({ playlistId: 'missing' }) })
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('GET sharing-link', () => {
+    it('should return every active link to the owner', async () => {
+      signInAs('owner-uuid')
+
+      const data = await (await getSharingLink(request, params)).json()
+
+      expect(data.sharingLink).toMatchObject({ id: 'link-1', label: 'Group chat', usageCount: 4 })
+      expect(data.sharingLinks).toHaveLength(2)
+    })
+
+    it('should only return the owner name, and no slug, to everyone else', async () => {
+      signInAs('stranger-uuid')
+
+      const data = await (await getSharingLink(request, params)).json()
+
+      expect(data).toEqual({ sharingLink: { ownerName: 'Owner' } })
+    })
+
+    it('should not return a slug to signed-out callers', async () => {
+      mockValidateSession.mockResolvedValue(null)
+
+      const data = await (await getSharingLink(request, params)).json()
+
+      expect(data).toEqual({ sharingLink: { ownerName: 'Owner' } })
+    })
+  })
+
+  describe('POST create-link', () => {
+    /**
+     * @description Builds a create-link request for the test playlist.
+     * @returns {NextRequest} The request.
+     */
+    const createLinkRequest = () => ({
+      headers: new Headers(),
+      json: () => Promise.resolve({ playlistId: 'playlist-1', label: 'New link' }),
+    }) as unknown as NextRequest
+
+    it('should reject users who do not own the playlist', async () => {
+      signInAs('stranger-uuid')
+
+      const response = await createLink(createLinkRequest())
+
+      expect(response.status).toBe(400)
+      expect(fakeDb.getAll(COLLECTIONS.SHARING_LINKS)).toHaveLength(2)
+    })
+
+    it('should let a co-owner create a link', async () => {
+      signInAs('co-owner-uuid')
+
+      const response = await createLink(createLinkRequest())
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.label).toBe('New link')
+      expect(fakeDb.getAll(COLLECTIONS.SHARING_LINKS)).toHaveLength(3)
+    })
+  })
+})
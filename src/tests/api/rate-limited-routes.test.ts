@@ -0,0 +1,221 @@
+/**
+ * @fileoverview API tests for the rate limits on the contribute route and the routes that look up a slug.
+ *
+ * Runs the routes against an in-memory Firestore and rate limit store with Spotify mocked, to check that retries and
+ * friends on a shared IP aren't limited, and that share page events, eligibility and friend match can't be used to
+ * probe for slugs.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200,
+      headers: new Headers(init?.headers),
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  addTracksToPlaylist: jest.fn(),
+  getPlaylistTracks: jest.fn()
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/services/firebase/rate-limits', () => ({
+  getRateLimitStore: () => mockRateLimitStore
+}))
+jest.mock('next-auth/next', () => ({
+  getServerSession: jest.fn()
+}))
+jest.mock('@/app/(auth)/api/auth/[...nextauth]/route', () => ({
+  authOptions: {}
+}))
+
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { validateApiRequest, validateSession } from '@/lib/auth'
+import { addTracksToPlaylist, getPlaylistTracks } from '@/lib/spotify'
+import { MemoryRateLimitStore } from '@/lib/request-rate-limit'
+import { RATE_LIMIT_CONFIG } from '@/lib/constants'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { POST as contribute } from '@/app/api/spotify/contribute/route'
+import { POST as recordEvent } from '@/app/api/sharing/[slug]/events/route'
+import { GET as getEligibility } from '@/app/api/sharing/[slug]/eligibility/route'
+import { GET as getMatch } from '@/app/api/sharing/[slug]/match/route'
+
+let mockRateLimitStore = new MemoryRateLimitStore()
+
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockAddTracksToPlaylist = addTracksToPlaylist as jest.MockedFunction<typeof addTracksToPlaylist>
+const mockGetPlaylistTracks = getPlaylistTracks as jest.MockedFunction<typeof getPlaylistTracks>
+
+/**
+ * @description Builds a JSON request with the given body and headers.
+ * @param {unknown} body - Request body.
+ * @param {Record<string, string>} [headers] - Request headers.
+ * @returns {NextRequest} The request.
+ */
+function jsonRequest(body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return { headers: new Headers(headers), json: () => Promise.resolve(body) } as unknown as NextRequest
+}
+
+/**
+ * @description Sends a friend's songs through the owner's link from a shared IP.
+ * @param {string} friendId - The friend's NextAuth user ID.
+ * @param {string} idempotencyKey - Key identifying the submission.
+ * @param {string} trackUri - Track to send.
+ * @returns {Promise<any>} The route's response.
+ */
+function sendSongs(friendId: string, idempotencyKey: string, trackUri: string) {
+  mockGetServerSession.mockResolvedValue(createMockSession({ user: { id: friendId, name: 'Friend' } }))
+  return contribute(jsonRequest(
+    { playlistId: 'playlist-1', linkSlug: 'owner-link', trackUris: [trackUri] },
+    { 'Idempotency-Key': idempotencyKey, 'x-forwarded-for': '203.0.113.7' }
+  ))
+}
+
+describe('Rate limited routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockRateLimitStore = new MemoryRateLimitStore()
+    mockGetPlaylistTracks.mockResolvedValue({ items: [] })
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', {
+      userId: 'owner-uuid',
+      provider: 'spotify',
+      providerAccountId: 'owner-spotify',
+      access_token: 'owner-token',
+    })
+    ;['friend-1', 'friend-2'].forEach(friendId => {
+      fakeDb.seed('accounts', `${friendId}-account`, {
+        userId: friendId,
+        provider: 'spotify',
+        providerAccountId: `${friendId}-spotify`,
+        createdAt: FakeTimestamp.fromMillis(Date.parse('2025-01-01T00:00:00.000Z')),
+      })
+    })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      contributionCooldownDays: 0,
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', {
+      id: 'link-1',
+      linkSlug: 'owner-link',
+      playlistId: 'playlist-1',
+      ownerName: 'Owner',
+      isActive: true,
+      usageCount: 0,
+    })
+  })
+
+  describe('POST contribute', () => {
+    it('should replay a retried submission instead of limiting it', async () => {
+      expect((await sendSongs('friend-1', 'submission-1', 'spotify:track:a')).status).toBe(200)
+
+      const retry = await sendSongs('friend-1', 'submission-1', 'spotify:track:a')
+
+      expect(retry.status).toBe(200)
+      expect(await retry.json()).toMatchObject({ addedTrackUris: ['spotify:track:a'] })
+      expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    })
+
+    it('should let friends on the same IP contribute in the same minute', async () => {
+      expect((await sendSongs('friend-1', 'submission-1', 'spotify:track:a')).status).toBe(200)
+      expect((await sendSongs('friend-2', 'submission-2', 'spotify:track:b')).status).toBe(200)
+      expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(2)
+    })
+
+    it('should limit a new submission from the same user within the minute', async () => {
+      await sendSongs('friend-1', 'submission-1', 'spotify:track:a')
+
+      const response = await sendSongs('friend-1', 'submission-2', 'spotify:track:b')
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Retry-After')).toBe('60')
+      expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('POST share page event', () => {
+    /**
+     * @description Records a visit for a slug from one IP.
+     * @param {string} slug - Sharing link slug.
+     * @returns {Promise<any>} The route's response.
+     */
+    function visit(slug: string) {
+      return recordEvent(
+        jsonRequest({ event: 'visit' }, { 'x-forwarded-for': '198.51.100.4' }),
+        { params: Promise.resolve({ slug }) }
+      )
+    }
+
+    it('should stop answering slug probes once the IP is over the lookup limit', async () => {
+      for (let index = 0; index < RATE_LIMIT_CONFIG.sharingLinkLookup.limit; index++) {
+        expect((await visit(`guess-${index}`)).status).toBe(404)
+      }
+
+      expect((await visit('owner-link')).status).toBe(429)
+      expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.visitCount).toBeUndefined()
+    })
+  })
+
+  describe('GET slug lookups from a signed-in visitor', () => {
+    beforeEach(() => {
+      const session = createMockSession({ user: { id: 'friend-1', name: 'Friend' } })
+      mockValidateSession.mockResolvedValue(session)
+      mockValidateApiRequest.mockResolvedValue({ session, accessToken: 'friend-token' } as any)
+    })
+
+    const lookups = {
+      eligibility: (slug: string) => getEligibility(
+        jsonRequest(undefined, { 'x-forwarded-for': '198.51.100.4' }),
+        { params: Promise.resolve({ slug }) }
+      ),
+      match: (slug: string) => getMatch(
+        jsonRequest(undefined, { 'x-forwarded-for': '198.51.100.4' }),
+        { params: Promise.resolve({ slug }) }
+      ),
+    }
+
+    it.each(Object.keys(lookups) as (keyof typeof lookups)[])(
+      'should stop answering %s probes once the IP is over the lookup limit',
+      async route => {
+        for (let index = 0; index < RATE_LIMIT_CONFIG.sharingLinkLookup.limit; index++) {
+          expect((await lookups[route](`guess-${index}`)).status).toBe(404)
+        }
+
+        expect((await lookups[route]('owner-link')).status).toBe(429)
+      }
+    )
+
+    it('should share the lookup budget between the share page routes', async () => {
+      for (let index = 0; index < RATE_LIMIT_CONFIG.sharingLinkLookup.limit; index++) {
+        expect((await lookups.eligibility(`guess-${index}`)).status).toBe(404)
+      }
+
+      expect((await lookups.match('owner-link')).status).toBe(429)
+    })
+  })
+})
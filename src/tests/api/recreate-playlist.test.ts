@@ -0,0 +1,217 @@
+/**
+ * @fileoverview API tests for recreating a playlist that was deleted on Spotify.
+ *
+ * Runs the recreate route against an in-memory Firestore with Spotify mocked, to check that every live contribution's
+ * tracks are copied to the new playlist, that the Firestore playlist is relinked, that a retry after a failure fills
+ * the same new playlist, and that only the owner of an orphaned playlist can recreate it.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  addTracksToPlaylist: jest.fn(),
+  createPlaylist: jest.fn(),
+  getPlaylistTracks: jest.fn(),
+  isFollowingPlaylist: jest.fn(),
+  uploadPlaylistCoverImage: jest.fn()
+}))
+jest.mock('@/public/smas-cover-base64', () => ({
+  __esModule: true,
+  default: 'cover'
+}))
+
+import { NextRequest } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { addTracksToPlaylist, createPlaylist, getPlaylistTracks, isFollowingPlaylist } from '@/lib/spotify'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { POST as recreatePlaylist } from '@/app/api/spotify/playlists/[playlistId]/recreate/route'
+
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockAddTracksToPlaylist = addTracksToPlaylist as jest.MockedFunction<typeof addTracksToPlaylist>
+const mockCreatePlaylist = createPlaylist as jest.MockedFunction<typeof createPlaylist>
+const mockIsFollowingPlaylist = isFollowingPlaylist as jest.MockedFunction<typeof isFollowingPlaylist>
+const mockGetPlaylistTracks = getPlaylistTracks as jest.MockedFunction<typeof getPlaylistTracks>
+
+/**
+ * @description Signs in as a NextAuth user, whose Spotify token is named after them.
+ * @param {string} nextAuthUserId - NextAuth user ID.
+ */
+function signInAs(nextAuthUserId: string) {
+  mockValidateApiRequest.mockResolvedValue({
+    session: createMockSession({ user: { id: nextAuthUserId, name: 'Test User' } }),
+    accessToken: `${nextAuthUserId}-token`,
+  } as any)
+}
+
+/**
+ * @description Asks to recreate the test playlist.
+ * @returns {Promise<any>} The route's response.
+ */
+function recreate() {
+  return recreatePlaylist(
+    { headers: new Headers() } as unknown as NextRequest,
+    { params: Promise.resolve({ playlistId: 'playlist-1' }) }
+  )
+}
+
+/**
+ * @description Builds track URIs numbered from a starting index.
+ * @param {number} start - First track number.
+ * @param {number} count - Number of tracks.
+ * @returns {string[]} The track URIs.
+ */
+function trackUris(start: number, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `spotify:track:${start + index}`)
+}
+
+describe('Recreate playlist route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    signInAs('owner-uuid')
+    mockIsFollowingPlaylist.mockResolvedValue(false)
+    mockCreatePlaylist.mockResolvedValue({ id: 'spotify-playlist-2' })
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', { userId: 'owner-uuid', providerAccountId: 'owner-spotify' })
+    fakeDb.seed('accounts', 'co-owner-account', { userId: 'co-owner-uuid', providerAccountId: 'co-owner-spotify' })
+    fakeDb.seed('accounts', 'stranger-account', { userId: 'stranger-uuid', providerAccountId: 'stranger-spotify' })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      name: 'Friend Mix',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      coOwnerIds: ['co-owner-spotify'],
+      orphanedAt: FakeTimestamp.now(),
+      isActive: true,
+    })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'older', {
+      id: 'older',
+      playlistId: 'playlist-1',
+      contributorId: 'friend-1',
+      spotifyTrackUris: trackUris(0, 120),
+      status: 'active',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-01-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'newer', {
+      id: 'newer',
+      playlistId: 'playlist-1',
+      contributorId: 'friend-2',
+      spotifyTrackUris: trackUris(110, 40),
+      status: 'active',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-02-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'removed', {
+      id: 'removed',
+      playlistId: 'playlist-1',
+      contributorId: 'friend-3',
+      spotifyTrackUris: ['spotify:track:removed'],
+      status: 'revoked',
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-03-01T00:00:00.000Z')),
+    })
+  })
+
+  it('should copy live tracks to the new playlist in chunks of 100, oldest first', async () => {
+    const response = await recreate()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, spotifyPlaylistId: 'spotify-playlist-2', trackCount: 150 })
+    expect(mockCreatePlaylist).toHaveBeenCalledWith('owner-uuid-token', 'owner-spotify', 'Friend Mix', expect.any(String), true)
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(2)
+    expect(mockAddTracksToPlaylist).toHaveBeenNthCalledWith(1, 'owner-uuid-token', 'spotify-playlist-2', trackUris(0, 100))
+    expect(mockAddTracksToPlaylist).toHaveBeenNthCalledWith(2, 'owner-uuid-token', 'spotify-playlist-2', trackUris(100, 50))
+  })
+
+  it('should point the playlist at the new Spotify playlist and clear orphanedAt', async () => {
+    await recreate()
+
+    const playlist = fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')
+    expect(playlist).toMatchObject({ spotifyPlaylistId: 'spotify-playlist-2', trackCount: 150 })
+    expect(playlist?.orphanedAt).toBeUndefined()
+  })
+
+  it('should finish filling the same new playlist when the owner retries after adding tracks failed', async () => {
+    mockAddTracksToPlaylist.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Spotify unavailable'))
+
+    const failed = await recreate()
+
+    expect(failed.status).toBe(500)
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')).toMatchObject({
+      spotifyPlaylistId: 'spotify-playlist-1',
+      recreatedSpotifyPlaylistId: 'spotify-playlist-2',
+    })
+
+    // Only the recreated playlist exists on Spotify, with the first chunk in it
+    mockIsFollowingPlaylist.mockImplementation(async (_accessToken, spotifyPlaylistId) => spotifyPlaylistId === 'spotify-playlist-2')
+    mockGetPlaylistTracks.mockResolvedValue({ items: trackUris(0, 100).map(uri => ({ track: { uri } })) })
+    const retried = await recreate()
+
+    expect(retried.status).toBe(200)
+    expect(await retried.json()).toEqual({ success: true, spotifyPlaylistId: 'spotify-playlist-2', trackCount: 150 })
+    expect(mockCreatePlaylist).toHaveBeenCalledTimes(1)
+    expect(mockAddTracksToPlaylist).toHaveBeenLastCalledWith('owner-uuid-token', 'spotify-playlist-2', trackUris(100, 50))
+    const playlist = fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')
+    expect(playlist).toMatchObject({ spotifyPlaylistId: 'spotify-playlist-2' })
+    expect(playlist?.recreatedSpotifyPlaylistId).toBeUndefined()
+    expect(playlist?.orphanedAt).toBeUndefined()
+  })
+
+  it.each(['co-owner-uuid', 'stranger-uuid'])('should forbid recreation by %s', async nextAuthUserId => {
+    signInAs(nextAuthUserId)
+
+    const response = await recreate()
+
+    expect(response.status).toBe(403)
+    expect(mockCreatePlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.spotifyPlaylistId).toBe('spotify-playlist-1')
+  })
+
+  it('should refuse to recreate a playlist that isn\'t orphaned', async () => {
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', {
+      id: 'playlist-1',
+      spotifyPlaylistId: 'spotify-playlist-1',
+      spotifyUserId: 'owner-spotify',
+      isActive: true,
+    })
+
+    const response = await recreate()
+
+    expect(response.status).toBe(409)
+    expect(mockCreatePlaylist).not.toHaveBeenCalled()
+    expect(mockAddTracksToPlaylist).not.toHaveBeenCalled()
+  })
+
+  it('should relink instead of recreating a playlist that is back on Spotify', async () => {
+    mockIsFollowingPlaylist.mockResolvedValue(true)
+
+    const response = await recreate()
+
+    expect(response.status).toBe(409)
+    expect(mockCreatePlaylist).not.toHaveBeenCalled()
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.orphanedAt).toBeUndefined()
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')?.spotifyPlaylistId).toBe('spotify-playlist-1')
+  })
+})
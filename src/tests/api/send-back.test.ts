@@ -0,0 +1,189 @@
+/**
+ * @fileoverview API tests for sending the link owner's songs back to a friend who contributed.
+ *
+ * Runs the send-back route against an in-memory Firestore with Spotify mocked, to check that each send-back is keyed
+ * by its own `Idempotency-Key`: retries replay, while a new send-back after the cooldown adds songs again.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextRequest: class {
+    constructor(public url: string, public init?: RequestInit) { }
+  },
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/auth', () => ({
+  validateApiRequest: jest.fn(),
+  validateSession: jest.fn()
+}))
+jest.mock('@/services/firebase/contributions', () => ({
+  ...jest.requireActual('@/services/firebase/contributions'),
+  activateContribution: jest.fn()
+}))
+jest.mock('@/lib/spotify', () => ({
+  ...jest.requireActual('@/lib/spotify'),
+  addTracksToPlaylist: jest.fn(),
+  getPlaylistTracks: jest.fn(),
+  getTopTracks: jest.fn()
+}))
+
+import { NextRequest } from 'next/server'
+import { validateApiRequest } from '@/lib/auth'
+import { addTracksToPlaylist, getPlaylistTracks, getTopTracks } from '@/lib/spotify'
+import { activateContribution } from '@/services/firebase/contributions'
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { createMockSession } from '@/test-utils/data-factories'
+import { COLLECTIONS } from '@/types/firebase'
+import { POST as sendBack } from '@/app/api/sharing/[slug]/send-back/route'
+
+const mockValidateApiRequest = validateApiRequest as jest.MockedFunction<typeof validateApiRequest>
+const mockAddTracksToPlaylist = addTracksToPlaylist as jest.MockedFunction<typeof addTracksToPlaylist>
+const mockGetPlaylistTracks = getPlaylistTracks as jest.MockedFunction<typeof getPlaylistTracks>
+const mockGetTopTracks = getTopTracks as jest.MockedFunction<typeof getTopTracks>
+const mockActivateContribution = activateContribution as jest.MockedFunction<typeof activateContribution>
+
+/**
+ * @description Asks for the owner's songs back through their link.
+ * @param {string} idempotencyKey - Key identifying the send-back.
+ * @returns {Promise<any>} The route's response.
+ */
+function requestSendBack(idempotencyKey: string) {
+  const request = { headers: new Headers({ 'Idempotency-Key': idempotencyKey }) } as unknown as NextRequest
+  return sendBack(request, { params: Promise.resolve({ slug: 'owner-link' }) })
+}
+
+/**
+ * @description Gets the contributions the owner has made to the friend's playlist.
+ * @returns {Record<string, any>[]} The owner's contributions.
+ */
+function getSendBacks() {
+  return fakeDb.getAll(COLLECTIONS.CONTRIBUTIONS).filter(contribution => contribution.contributorId === 'owner-uuid')
+}
+
+describe('Send-back route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockValidateApiRequest.mockResolvedValue({
+      session: createMockSession({ user: { id: 'friend-uuid', name: 'Friend' } }),
+      accessToken: 'friend-token',
+    } as any)
+    mockGetTopTracks.mockResolvedValue({ items: [{ uri: 'spotify:track:a' }, { uri: 'spotify:track:b' }] })
+    mockGetPlaylistTracks.mockResolvedValue({ items: [] })
+    mockActivateContribution.mockImplementation(jest.requireActual('@/services/firebase/contributions').activateContribution)
+
+    fakeDb.reset()
+    fakeDb.seed('accounts', 'owner-account', {
+      userId: 'owner-uuid',
+      provider: 'spotify',
+      providerAccountId: 'owner-spotify',
+      access_token: 'owner-token',
+    })
+    fakeDb.seed('accounts', 'friend-account', { userId: 'friend-uuid', provider: 'spotify', providerAccountId: 'friend-spotify' })
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'owner-link-id', {
+      id: 'owner-link-id',
+      linkSlug: 'owner-link',
+      playlistId: 'owner-playlist',
+      spotifyUserId: 'owner-spotify',
+      ownerName: 'Owner',
+      isActive: true,
+      usageCount: 1,
+    })
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'friend-playlist', {
+      id: 'friend-playlist',
+      name: 'Friend Mix',
+      spotifyPlaylistId: 'spotify-friend-playlist',
+      spotifyUserId: 'friend-spotify',
+      contributionCooldownDays: 0,
+      isActive: true,
+      createdAt: FakeTimestamp.fromMillis(Date.parse('2025-01-01T00:00:00.000Z')),
+    })
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'friend-contribution', {
+      id: 'friend-contribution',
+      playlistId: 'owner-playlist',
+      contributorId: 'friend-uuid',
+      contributorName: 'Friend',
+      spotifyTrackUris: ['spotify:track:z'],
+      status: 'active',
+      createdAt: FakeTimestamp.now(),
+    })
+  })
+
+  it('should add the owner\'s songs again on a later send-back once the cooldown is over', async () => {
+    const first = await requestSendBack('send-back-one')
+    mockGetTopTracks.mockResolvedValue({ items: [{ uri: 'spotify:track:c' }] })
+    const second = await requestSendBack('send-back-two')
+
+    expect(await first.json()).toMatchObject({ mode: 'added', addedCount: 2 })
+    expect(second.status).toBe(200)
+    expect(await second.json()).toMatchObject({ mode: 'added', addedCount: 1 })
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(2)
+    expect(mockAddTracksToPlaylist).toHaveBeenLastCalledWith('friend-token', 'spotify-friend-playlist', ['spotify:track:c'])
+    expect(getSendBacks()).toHaveLength(2)
+  })
+
+  it('should replay a retried send-back instead of adding songs twice', async () => {
+    await requestSendBack('send-back-one')
+    const retry = await requestSendBack('send-back-one')
+
+    expect(retry.status).toBe(200)
+    expect(await retry.json()).toMatchObject({ mode: 'added', playlistName: 'Friend Mix', addedCount: 2, skippedCount: 0 })
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+    expect(getSendBacks()).toHaveLength(1)
+  })
+
+  it('should hold a new send-back to the playlist\'s cooldown', async () => {
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'friend-playlist', {
+      ...fakeDb.getData(COLLECTIONS.PLAYLISTS, 'friend-playlist'),
+      contributionCooldownDays: 28,
+    })
+
+    await requestSendBack('send-back-one')
+    const second = await requestSendBack('send-back-two')
+
+    expect(second.status).toBe(429)
+    expect(mockAddTracksToPlaylist).toHaveBeenCalledTimes(1)
+  })
+
+  it('should report a failure when the send-back can\'t be recorded', async () => {
+    mockActivateContribution.mockResolvedValue({ success: false, error: 'Firestore unavailable' })
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+    const response = await requestSendBack('send-back-one')
+
+    expect(response.status).toBe(500)
+    expect(fakeDb.getData(COLLECTIONS.PLAYLISTS, 'friend-playlist')?.trackAttributions).toBeUndefined()
+    consoleSpy.mockRestore()
+  })
+
+  it('should ask a friend whose songs are waiting for approval to come back later', async () => {
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'friend-contribution', {
+      ...fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'friend-contribution'),
+      status: 'pending',
+    })
+
+    const response = await requestSendBack('send-back-one')
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toEqual({ error: 'You can get songs back once Owner approves yours' })
+    expect(mockAddTracksToPlaylist).not.toHaveBeenCalled()
+  })
+
+  it('should reject a malformed Idempotency-Key', async () => {
+    const response = await requestSendBack('bad key!')
+
+    expect(response.status).toBe(400)
+    expect(getSendBacks()).toHaveLength(0)
+  })
+})
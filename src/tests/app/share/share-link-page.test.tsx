@@ -1,12 +1,22 @@
 /**
  * @fileoverview Tests for the Friend Contribution flow on the share link page.
  *
- * Covers loading, error, cooldown, no top tracks, all duplicates, success, and unauthenticated states.
+ * Covers loading, error, cooldown, no top tracks, all duplicates, success, send-back, friend match, and unauthenticated
+ * states.
  */
 import React from 'react'
 import { customRender as render, screen, fireEvent } from '@/test-utils/render'
 import { ShareLinkContributionPanel } from '@/components/sharing/share-link-contribution-panel'
-import { useSharingLink, useTopSongs } from '@/hooks/use-spotify-queries'
+import {
+  useSharingLink,
+  useTopSongs,
+  useContributeSongs,
+  useContributionEligibility,
+  useRecordSharingLinkEvent,
+  useOwnerPlaylists,
+  useSendBack,
+  useFriendMatch,
+} from '@/hooks/use-spotify-queries'
 import type { UseQueryResult } from '@tanstack/react-query'
 import type { Song } from '@/stores/playlist-store'
 
@@ -15,6 +25,12 @@ jest.mock('@/hooks/use-spotify-queries', () => ({
   useSharingLink: jest.fn(),
   useTopSongs: jest.fn(),
   useContributeSongs: jest.fn(() => ({ mutate: jest.fn(), isPending: false })),
+  useContributionEligibility: jest.fn(() => ({ data: undefined, isLoading: false })),
+  useTrackSearch: jest.fn(() => ({ data: undefined, isFetching: false })),
+  useRecordSharingLinkEvent: jest.fn(() => ({ mutate: jest.fn() })),
+  useOwnerPlaylists: jest.fn(() => ({ data: undefined, isLoading: false })),
+  useSendBack: jest.fn(() => ({ mutate: jest.fn(), isPending: false })),
+  useFriendMatch: jest.fn(() => ({ data: undefined })),
 }))
 
 describe('ShareLinkContributionPanel', () => {
@@ -62,6 +78,13 @@ describe('ShareLinkContributionPanel', () => {
     }
     mockUseSharingLink = useSharingLink as unknown as jest.MockedFunction<typeof useSharingLink>
     mockUseTopSongs = useTopSongs as unknown as jest.MockedFunction<typeof useTopSongs>
+      ; (useContributeSongs as jest.Mock).mockReturnValue({ mutate: jest.fn(), isPending: false })
+      ; (useContributionEligibility as jest.Mock).mockReturnValue({ data: undefined, isLoading: false })
+      ; (useRecordSharingLinkEvent as jest.Mock).mockReturnValue({ mutate: jest.fn() })
+      ; (useOwnerPlaylists as jest.Mock).mockReturnValue({ data: { playlists: [] }, isLoading: false })
+      ; (useSendBack as jest.Mock).mockReturnValue({ mutate: jest.fn(), isPending: false })
+      ; (useFriendMatch as jest.Mock).mockReturnValue({ data: undefined })
+    sessionStorage.clear()
   })
 
   it('renders loading state', () => {
@@ -80,6 +103,15 @@ describe('ShareLinkContributionPanel', () => {
     expect(screen.getByRole('button', { name: /go to home/i })).toBeInTheDocument()
   })
 
+  it('tells the visitor an expired link has expired instead of not found', async () => {
+    const error = Object.assign(new Error('Sharing link has expired'), { status: 410, reason: 'expired' })
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: undefined, isLoading: false, isError: true, error, status: 'error', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    expect(await screen.findByRole('heading', { name: /this link has expired/i })).toBeInTheDocument()
+    expect(screen.queryByRole('heading', { name: /sorry link not found/i })).not.toBeInTheDocument()
+  })
+
   it('renders default state for valid link', async () => {
     mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
     mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
@@ -88,6 +120,19 @@ describe('ShareLinkContributionPanel', () => {
     expect(screen.getByRole('button', { name: /Add your top songs to playlist/i })).toBeInTheDocument()
   })
 
+  it('shows the friend match with shared artists before contributing', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+      ; (useFriendMatch as jest.Mock).mockReturnValue({
+        data: { score: 72, sharedArtists: ['Artist One', 'Artist Two'], sharedGenres: ['indie pop'], sharedTrackCount: 1 },
+      })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    expect(await screen.findByText('72%')).toBeInTheDocument()
+    expect(screen.getByText(/you both love artist one, artist two/i)).toBeInTheDocument()
+    expect(screen.getByText(/shared genres: indie pop/i)).toBeInTheDocument()
+    expect(useFriendMatch).toHaveBeenCalledWith('testslug', true)
+  })
+
   it('shows cooldown state if already contributed', async () => {
     mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
     mockUseTopSongs.mockReturnValue(makeSongQueryResult({}))
@@ -97,6 +142,24 @@ describe('ShareLinkContributionPanel', () => {
     expect(screen.getByText('Send Alice Your Top Songs')).toBeInTheDocument()
   })
 
+  it('shows cooldown screen from the pre-flight check before contributing', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+      ; (useContributionEligibility as jest.Mock).mockReturnValue({
+        data: {
+          canContribute: false,
+          reason: 'cooldown',
+          cooldownDays: 28,
+          cooldownUntil: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
+        },
+        isLoading: false,
+      })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    expect(await screen.findByRole('heading', { name: /you've already contributed/i })).toBeInTheDocument()
+    expect(screen.getByText(/you can contribute again in 3 days/i)).toBeInTheDocument()
+    expect(screen.queryByText('Send Alice Your Top Songs')).not.toBeInTheDocument()
+  })
+
   it('shows no top tracks state', async () => {
     mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
     mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
@@ -124,6 +187,156 @@ describe('ShareLinkContributionPanel', () => {
     expect(screen.getByText(/Song2/)).toBeInTheDocument()
   })
 
+  it('shows added and skipped songs after a partially duplicate contribution', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({
+      data: [
+        { id: 't1', name: 'Fresh Song', artist: 'A', album: 'B' },
+        { id: 't2', name: 'Repeat Song', artist: 'A2', album: 'B2' },
+      ], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle'
+    }))
+      ; (useContributeSongs as jest.Mock).mockReturnValue({
+        mutate: (_vars: unknown, { onSuccess }: { onSuccess: (result: unknown) => void }) => onSuccess({
+          success: true,
+          message: 'Songs added successfully',
+          addedTrackUris: ['spotify:track:t1'],
+          skippedTrackUris: ['spotify:track:t2'],
+        }),
+        isPending: false,
+      })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    fireEvent.click(await screen.findByText('Send Alice Your Top Songs'))
+    expect(await screen.findByText(/success! your songs have been added/i)).toBeInTheDocument()
+    expect(screen.getByText('Fresh Song')).toBeInTheDocument()
+    expect(screen.getByText(/already in the playlist \(skipped\)/i)).toBeInTheDocument()
+    expect(screen.getByText('Repeat Song')).toBeInTheDocument()
+  })
+
+  it('creates the visitor\'s playlist and a ready-made link to send back after contributing', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Fresh Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+      ; (useContributeSongs as jest.Mock).mockReturnValue({
+        mutate: (_vars: unknown, { onSuccess }: { onSuccess: (result: unknown) => void }) => onSuccess({
+          success: true,
+          message: 'Songs added successfully',
+          addedTrackUris: ['spotify:track:t1'],
+          skippedTrackUris: [],
+        }),
+        isPending: false,
+      })
+    const sendBack = jest.fn((_vars: unknown, { onSuccess }: { onSuccess: (result: unknown) => void }) => onSuccess({
+      mode: 'created',
+      playlistName: 'SMAS',
+      shareLink: 'https://smas.test/share/bobslug',
+    }))
+      ; (useSendBack as jest.Mock).mockReturnValue({ mutate: sendBack, isPending: false })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    fireEvent.click(await screen.findByText('Send Alice Your Top Songs'))
+    fireEvent.click(await screen.findByText('Create My SMAS & Send Alice My Link'))
+    expect(sendBack).toHaveBeenCalledWith({ linkSlug: 'testslug' }, expect.anything())
+    expect(screen.getByText(/send me yours back: https:\/\/smas\.test\/share\/bobslug/i)).toBeInTheDocument()
+  })
+
+  it('offers to add the owner\'s top songs when the visitor already has a playlist', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Fresh Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+      ; (useContributeSongs as jest.Mock).mockReturnValue({
+        mutate: (_vars: unknown, { onSuccess }: { onSuccess: (result: unknown) => void }) => onSuccess({
+          success: true,
+          message: 'Songs added successfully',
+          addedTrackUris: ['spotify:track:t1'],
+          skippedTrackUris: [],
+        }),
+        isPending: false,
+      })
+      ; (useOwnerPlaylists as jest.Mock).mockReturnValue({ data: { playlists: [{ id: 'own', name: 'SMAS', isCoOwned: false }] }, isLoading: false })
+      ; (useSendBack as jest.Mock).mockReturnValue({
+        mutate: (_vars: unknown, { onSuccess }: { onSuccess: (result: unknown) => void }) => onSuccess({
+          mode: 'added',
+          playlistName: 'SMAS',
+          addedCount: 3,
+          skippedCount: 2,
+        }),
+        isPending: false,
+      })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    fireEvent.click(await screen.findByText('Send Alice Your Top Songs'))
+    fireEvent.click(await screen.findByText("Add Alice's Top Songs to My Playlist"))
+    expect(screen.getByText(/added 3 of alice's top songs to "smas"/i)).toBeInTheDocument()
+  })
+
+  it('shows duplicates screen when every song is skipped', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+      ; (useContributeSongs as jest.Mock).mockReturnValue({
+        mutate: (_vars: unknown, { onSuccess }: { onSuccess: (result: unknown) => void }) => onSuccess({
+          success: true,
+          message: 'All songs are already in the playlist',
+          addedTrackUris: [],
+          skippedTrackUris: ['spotify:track:t1'],
+        }),
+        isPending: false,
+      })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    fireEvent.click(await screen.findByText('Send Alice Your Top Songs'))
+    expect(await screen.findByRole('heading', { name: /already in the playlist/i })).toBeInTheDocument()
+    expect(screen.getByText(/skipped as duplicates/i)).toBeInTheDocument()
+  })
+
+  it('sends only the selected songs, up to the playlist limit', async () => {
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid', maxTracksPerContribution: 2 }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({
+      data: [
+        { id: 't1', name: 'First', artist: 'A', album: 'B' },
+        { id: 't2', name: 'Second', artist: 'A', album: 'B' },
+        { id: 't3', name: 'Third', artist: 'A', album: 'B' },
+      ], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle'
+    }))
+    const mutate = jest.fn()
+      ; (useContributeSongs as jest.Mock).mockReturnValue({ mutate, isPending: false })
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    await screen.findByText('Send Alice Your Top Songs')
+    expect(screen.getByText('2 of 2 songs selected')).toBeInTheDocument()
+    expect(screen.getByLabelText('Select Third')).toBeDisabled()
+
+    fireEvent.click(screen.getByLabelText('Select First'))
+    fireEvent.click(screen.getByLabelText('Select Third'))
+    fireEvent.click(screen.getByText('Send Alice Your Top Songs'))
+
+    expect(mutate).toHaveBeenCalledWith(
+      expect.objectContaining({ trackUris: ['spotify:track:t2', 'spotify:track:t3'] }),
+      expect.anything()
+    )
+  })
+
+  it('counts a visit once per browser session', async () => {
+    const recordLinkEvent = jest.fn()
+      ; (useRecordSharingLinkEvent as jest.Mock).mockReturnValue({ mutate: recordLinkEvent })
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+
+    const { unmount } = render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    await screen.findByText('Send Alice Your Top Songs')
+    unmount()
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={session} />)
+    await screen.findByText('Send Alice Your Top Songs')
+
+    expect(recordLinkEvent).toHaveBeenCalledTimes(1)
+    expect(recordLinkEvent).toHaveBeenCalledWith({ linkSlug: 'testslug', event: 'visit' })
+  })
+
+  it('counts a sign-in start when a signed-out visitor taps the button', async () => {
+    const recordLinkEvent = jest.fn()
+      ; (useRecordSharingLinkEvent as jest.Mock).mockReturnValue({ mutate: recordLinkEvent })
+    mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+    mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
+
+    render(<ShareLinkContributionPanel linkSlug="testslug" session={null} />)
+    fireEvent.click(await screen.findByRole('button', { name: /add your top songs to playlist/i }))
+
+    expect(recordLinkEvent).toHaveBeenCalledWith({ linkSlug: 'testslug', event: 'sign_in' })
+  })
+
   it('shows error state on API error', async () => {
     mockUseSharingLink.mockReturnValue(makeQueryResult({ data: { isActive: true, ownerName: 'Alice', id: 'pid', playlistId: 'plid' }, isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
     mockUseTopSongs.mockReturnValue(makeSongQueryResult({ data: [{ id: 't1', name: 'Song', artist: 'A', album: 'B' }], isLoading: false, isSuccess: true, status: 'success', fetchStatus: 'idle' }))
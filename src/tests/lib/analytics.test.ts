@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Unit tests for contribution analytics.
+ *
+ * Tests grouping contributions and sharing link stats by day, week and month.
+ */
+
+import { buildContributionAnalytics } from '@/lib/analytics'
+import type { Contribution, SharingLink } from '@/types/firebase'
+
+describe('buildContributionAnalytics', () => {
+  // A Wednesday
+  const now = new Date('2025-03-12T15:00:00.000Z')
+
+  const makeContribution = (contributorId: string, createdAt: string, trackCount: number = 2): Contribution => ({
+    id: `${contributorId}-${createdAt}`,
+    playlistId: 'playlist-1',
+    contributorId,
+    contributorName: contributorId,
+    spotifyTrackUris: Array.from({ length: trackCount }, (_, index) => `spotify:track:${index}`),
+    createdAt,
+  } as Contribution)
+
+  it('should return one bucket per period, oldest first, including empty ones', () => {
+    const analytics = buildContributionAnalytics([], [], 'day', now)
+
+    expect(analytics.buckets).toHaveLength(30)
+    expect(analytics.buckets[0].periodStart).toBe('2025-02-11')
+    expect(analytics.buckets[29].periodStart).toBe('2025-03-12')
+    expect(analytics.totals.contributions).toBe(0)
+  })
+
+  it('should group contributions into weeks starting on Monday', () => {
+    const analytics = buildContributionAnalytics([
+      makeContribution('alice', '2025-03-10T09:00:00.000Z', 3),
+      makeContribution('bob', '2025-03-12T09:00:00.000Z', 2),
+      makeContribution('carol', '2025-03-09T23:00:00.000Z', 1),
+    ], [], 'week', now)
+
+    const thisWeek = analytics.buckets[analytics.buckets.length - 1]
+    const lastWeek = analytics.buckets[analytics.buckets.length - 2]
+    expect(thisWeek).toMatchObject({ periodStart: '2025-03-10', contributions: 2, tracks: 5 })
+    expect(lastWeek).toMatchObject({ periodStart: '2025-03-03', contributions: 1, tracks: 1 })
+  })
+
+  it('should tell new contributors from returning ones', () => {
+    const analytics = buildContributionAnalytics([
+      makeContribution('alice', '2025-01-20T09:00:00.000Z'),
+      makeContribution('alice', '2025-03-05T09:00:00.000Z'),
+      makeContribution('bob', '2025-03-06T09:00:00.000Z'),
+      makeContribution('bob', '2025-03-07T09:00:00.000Z'),
+    ], [], 'month', now)
+
+    const march = analytics.buckets[analytics.buckets.length - 1]
+    expect(march).toMatchObject({ periodStart: '2025-03-01', contributions: 3, newContributors: 1, returningContributors: 1 })
+    expect(analytics.totals).toMatchObject({ contributions: 4, newContributors: 2, returningContributors: 0 })
+  })
+
+  it('should count returning contributors whose first contribution is before the window', () => {
+    const analytics = buildContributionAnalytics([
+      makeContribution('alice', '2024-01-10T09:00:00.000Z'),
+      makeContribution('alice', '2025-03-11T09:00:00.000Z'),
+    ], [], 'week', now)
+
+    expect(analytics.totals).toMatchObject({ contributions: 1, newContributors: 0, returningContributors: 1 })
+  })
+
+  it('should add up link visits and sign-ins from every link', () => {
+    const links = [
+      { id: 'link-1', dailyStats: { '2025-03-11': { visits: 4, signIns: 2 }, '2025-03-12': { visits: 1 } } },
+      { id: 'link-2', dailyStats: { '2025-03-12': { visits: 3, signIns: 1 }, '2024-12-01': { visits: 9 } } },
+    ] as unknown as SharingLink[]
+
+    const analytics = buildContributionAnalytics([], links, 'day', now)
+
+    expect(analytics.buckets[29]).toMatchObject({ visits: 4, signIns: 1 })
+    expect(analytics.buckets[28]).toMatchObject({ visits: 4, signIns: 2 })
+    expect(analytics.totals).toMatchObject({ visits: 8, signIns: 3 })
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Unit tests for contribution history.
+ *
+ * Tests ordering contributions, attaching track details, and marking which tracks are still in the playlist.
+ */
+
+jest.mock('@/lib/spotify', () => ({
+  getPlaylistTracks: jest.fn(),
+  getTracks: jest.fn(),
+}))
+jest.mock('@/services/firebase/users', () => ({
+  getFirstStoredAccessToken: jest.fn(),
+}))
+jest.mock('@/services/firebase/playlists', () => ({
+  getPlaylistOwnerIds: jest.fn(() => ['owner']),
+}))
+
+import { buildContributionHistory, getTrackDetails } from '@/lib/contribution-history'
+import { getTracks } from '@/lib/spotify'
+import type { Contribution } from '@/types/firebase'
+
+const mockGetTracks = getTracks as jest.MockedFunction<typeof getTracks>
+
+describe('buildContributionHistory', () => {
+  const makeContribution = (id: string, createdAt: string, uris: string[], status?: Contribution['status']): Contribution => ({
+    id,
+    playlistId: 'playlist-1',
+    contributorId: 'friend',
+    contributorName: 'Friend',
+    spotifyTrackUris: uris,
+    createdAt,
+    status,
+  } as Contribution)
+
+  const trackDetails = new Map([
+    ['spotify:track:t1', { name: 'Song 1', artist: 'Artist 1' }],
+    ['spotify:track:t2', { name: 'Song 2', artist: 'Artist 2' }],
+  ])
+
+  it('should list contributions newest first and leave out ones still being processed', () => {
+    const history = buildContributionHistory([
+      makeContribution('old', '2025-01-01T00:00:00.000Z', ['spotify:track:t1']),
+      makeContribution('new', '2025-02-01T00:00:00.000Z', ['spotify:track:t2'], 'revoked'),
+      makeContribution('pending', '2025-03-01T00:00:00.000Z', ['spotify:track:t3'], 'processing'),
+    ], trackDetails, null)
+
+    expect(history.map(entry => entry.id)).toEqual(['new', 'old'])
+    expect(history[0].status).toBe('revoked')
+    expect(history[1].status).toBe('active')
+  })
+
+  it('should mark which tracks are still in the playlist', () => {
+    const [entry] = buildContributionHistory([
+      makeContribution('c1', '2025-01-01T00:00:00.000Z', ['spotify:track:t1', 'spotify:track:t2']),
+    ], trackDetails, new Set(['spotify:track:t1']))
+
+    expect(entry.tracks).toEqual([
+      { uri: 'spotify:track:t1', name: 'Song 1', artist: 'Artist 1', imageUrl: undefined, isInPlaylist: true },
+      { uri: 'spotify:track:t2', name: 'Song 2', artist: 'Artist 2', imageUrl: undefined, isInPlaylist: false },
+    ])
+  })
+
+  it('should leave playlist status unknown and name unknown tracks when details are missing', () => {
+    const [entry] = buildContributionHistory([
+      makeContribution('c1', '2025-01-01T00:00:00.000Z', ['spotify:track:gone']),
+    ], new Map(), null)
+
+    expect(entry.tracks[0]).toMatchObject({ name: 'Unknown Track', isInPlaylist: null })
+  })
+})
+
+describe('getTrackDetails', () => {
+  it('should look up each track once by ID and key the details by URI', async () => {
+    mockGetTracks.mockResolvedValueOnce([
+      { uri: 'spotify:track:t1', name: 'Song 1', artists: [{ name: 'Artist 1' }], album: { images: [{ url: 'cover.jpg' }] } },
+    ])
+
+    const details = await getTrackDetails('token', ['spotify:track:t1', 'spotify:track:t1'])
+
+    expect(mockGetTracks).toHaveBeenCalledWith('token', ['t1'])
+    expect(details.get('spotify:track:t1')).toEqual({ name: 'Song 1', artist: 'Artist 1', imageUrl: 'cover.jpg' })
+  })
+})
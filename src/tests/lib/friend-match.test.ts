@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Unit tests for friend matching.
+ *
+ * Tests converting Spotify top data and scoring shared artists, genres, and tracks without exposing Spotify IDs.
+ */
+
+import { computeFriendMatch, toUserTopSongs } from '@/lib/friend-match'
+
+describe('toUserTopSongs', () => {
+  it('should rank tracks and artists and order genres by how many top artists share them', () => {
+    const topSongs = toUserTopSongs(
+      'user-1',
+      { items: [{ id: 't1', name: 'Song 1', artists: [{ name: 'Artist 1' }] }, null] },
+      {
+        items: [
+          { id: 'a1', name: 'Artist 1', genres: ['indie', 'pop'] },
+          { id: 'a2', name: 'Artist 2', genres: ['pop'] },
+        ]
+      }
+    )
+
+    expect(topSongs.songs).toEqual([{ spotifyTrackId: 't1', name: 'Song 1', artist: 'Artist 1', rank: 1 }])
+    expect(topSongs.artists.map(artist => artist.rank)).toEqual([1, 2])
+    expect(topSongs.genres).toEqual(['pop', 'indie'])
+  })
+})
+
+describe('computeFriendMatch', () => {
+  const makeTopSongs = (artistIds: string[], genres: string[], trackIds: string[]) => ({
+    artists: artistIds.map((id, index) => ({ spotifyArtistId: id, name: `Artist ${id}`, genres: [], rank: index + 1 })),
+    genres,
+    songs: trackIds.map((id, index) => ({ spotifyTrackId: id, name: `Song ${id}`, artist: 'Artist', rank: index + 1 })),
+  })
+
+  it('should score identical listening as a perfect match', () => {
+    const topSongs = makeTopSongs(['a1', 'a2'], ['pop'], ['t1'])
+
+    expect(computeFriendMatch(topSongs, topSongs).score).toBe(100)
+  })
+
+  it('should score listening with nothing in common as zero', () => {
+    const match = computeFriendMatch(
+      makeTopSongs(['a1'], ['pop'], ['t1']),
+      makeTopSongs(['a2'], ['jazz'], ['t2'])
+    )
+
+    expect(match).toEqual({ score: 0, sharedArtists: [], sharedGenres: [], sharedTrackCount: 0 })
+  })
+
+  it('should weight shared artists, genres and tracks and only name what is shared', () => {
+    const match = computeFriendMatch(
+      makeTopSongs(['a1', 'a2'], ['pop', 'rock'], ['t1', 't2']),
+      makeTopSongs(['a2', 'a3', 'a4'], ['rock', 'jazz'], ['t3', 't4'])
+    )
+
+    // Half the artists and half the genres are shared, and no tracks: 0.5 * 0.5 + 0.3 * 0.5
+    expect(match.score).toBe(40)
+    expect(match.sharedArtists).toEqual(['Artist a2'])
+    expect(match.sharedGenres).toEqual(['rock'])
+    expect(match.sharedTrackCount).toBe(0)
+    expect(JSON.stringify(match)).not.toContain('"a2"')
+  })
+
+  it('should score zero when either user has no top data yet', () => {
+    expect(computeFriendMatch(makeTopSongs([], [], []), makeTopSongs(['a1'], ['pop'], ['t1'])).score).toBe(0)
+  })
+})
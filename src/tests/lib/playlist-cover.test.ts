@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * @fileoverview Unit tests for playlist cover image processing.
+ *
+ * Tests resizing uploads into JPEG covers within Spotify's size limit.
+ */
+
+import sharp from 'sharp'
+import { prepareCoverImage, CoverImageError } from '@/lib/playlist-cover'
+import { PLAYLIST_CONFIG } from '@/lib/constants'
+
+describe('prepareCoverImage', () => {
+  const makeImage = (width: number, height: number, format: 'jpeg' | 'png' = 'jpeg') => {
+    // Random noise compresses poorly, like a detailed photo
+    const pixels = Buffer.alloc(width * height * 3)
+    for (let index = 0; index < pixels.length; index++) {
+      pixels[index] = Math.floor(Math.random() * 256)
+    }
+    const image = sharp(pixels, { raw: { width, height, channels: 3 } })
+    return (format === 'jpeg' ? image.jpeg({ quality: 100 }) : image.png()).toBuffer()
+  }
+
+  it('should crop a large photo to a square cover within the 256KB limit', async () => {
+    const cover = await prepareCoverImage(await makeImage(1600, 1000))
+
+    expect(cover.length).toBeLessThanOrEqual(PLAYLIST_CONFIG.maxCoverPayloadBytes)
+    const metadata = await sharp(Buffer.from(cover, 'base64')).metadata()
+    expect(metadata).toMatchObject({
+      format: 'jpeg',
+      width: PLAYLIST_CONFIG.coverSize,
+      height: PLAYLIST_CONFIG.coverSize,
+    })
+  })
+
+  it('should reject images that are not JPEGs', async () => {
+    await expect(prepareCoverImage(await makeImage(100, 100, 'png'))).rejects.toThrow(CoverImageError)
+    await expect(prepareCoverImage(Buffer.from('not an image'))).rejects.toThrow('Cover image must be a JPEG')
+  })
+
+  it('should reject uploads over the upload size limit', async () => {
+    const tooLarge = Buffer.alloc(PLAYLIST_CONFIG.maxCoverUploadBytes + 1)
+
+    await expect(prepareCoverImage(tooLarge)).rejects.toThrow(CoverImageError)
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Unit tests for the Spotify rate limiter.
+ *
+ * Tests status-based retry classification, Retry-After handling, and per-token buckets.
+ */
+
+import { RateLimiter } from '@/lib/rate-limiter'
+import { SpotifyAPIError } from '@/lib/spotify'
+
+describe('RateLimiter', () => {
+  const createLimiter = () => new RateLimiter({
+    maxRetries: 2,
+    baseDelay: 1,
+    maxDelay: 50,
+    backoffMultiplier: 1,
+    bucketCapacity: 10,
+    refillRate: 1000,
+  })
+
+  const retryAfterHeaders = (seconds: string) => ({
+    get: (name: string) => (name === 'Retry-After' ? seconds : null),
+  }) as unknown as Headers
+
+  it('should retry a SpotifyAPIError with status 429', async () => {
+    const limiter = createLimiter()
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new SpotifyAPIError('API rate limit exceeded', 429))
+      .mockResolvedValueOnce('ok')
+
+    await expect(limiter.executeWithRetry(fn, 'token-a')).resolves.toBe('ok')
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should retry 5xx errors', async () => {
+    const limiter = createLimiter()
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new SpotifyAPIError('Service unavailable', 503))
+      .mockResolvedValueOnce('ok')
+
+    await expect(limiter.executeWithRetry(fn, 'token-a')).resolves.toBe('ok')
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry client errors even if the message mentions rate limits', async () => {
+    const limiter = createLimiter()
+    const error = new SpotifyAPIError('rate limit on this resource', 404)
+    const fn = jest.fn().mockRejectedValue(error)
+
+    await expect(limiter.executeWithRetry(fn, 'token-a')).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should give up after max retries', async () => {
+    const limiter = createLimiter()
+    const fn = jest.fn().mockRejectedValue(new SpotifyAPIError('Too many requests', 429))
+
+    await expect(limiter.executeWithRetry(fn, 'token-a')).rejects.toBeInstanceOf(SpotifyAPIError)
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it('should fail fast when Retry-After is longer than the max delay', async () => {
+    const limiter = createLimiter()
+    const fn = jest.fn(async () => {
+      limiter.updateFromHeaders(retryAfterHeaders('60'), 'token-a')
+      throw new SpotifyAPIError('Too many requests', 429)
+    })
+
+    await expect(limiter.executeWithRetry(fn, 'token-a')).rejects.toBeInstanceOf(SpotifyAPIError)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should only block the access token that received Retry-After', async () => {
+    const limiter = createLimiter()
+    limiter.updateFromHeaders(retryAfterHeaders('60'), 'token-a')
+
+    const start = Date.now()
+    await expect(limiter.executeWithRetry(async () => 'ok', 'token-b')).resolves.toBe('ok')
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+})
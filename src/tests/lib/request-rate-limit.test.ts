@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Unit tests for the incoming request rate limiter.
+ *
+ * Tests fixed windows in the memory and Firestore stores, limiting by user and IP, and the 429 response.
+ */
+
+// Mock Next.js server components
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => ({
+      json: () => Promise.resolve(data),
+      status: init?.status || 200,
+      headers: new Headers(init?.headers),
+    })
+  }
+}))
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+
+import type { NextRequest } from 'next/server'
+import { checkRateLimit, enforceRateLimit, getClientIp, MemoryRateLimitStore } from '@/lib/request-rate-limit'
+import { firestoreRateLimitStore } from '@/services/firebase/rate-limits'
+import { fakeDb } from '@/test-utils/fake-firestore'
+
+const rule = { name: 'test', limit: 2, windowSeconds: 60 }
+
+/**
+ * @description Builds a request with the given headers.
+ * @param {Record<string, string>} headers - Request headers.
+ * @returns {NextRequest} The request.
+ */
+const createRequest = (headers: Record<string, string> = {}) => ({
+  headers: new Headers(headers),
+}) as unknown as NextRequest
+
+describe('Request rate limiting', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-03-01T00:00:00.000Z'))
+    fakeDb.reset()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('MemoryRateLimitStore', () => {
+    it('should count requests until the window ends, then start over', async () => {
+      const store = new MemoryRateLimitStore()
+
+      expect((await store.hit('key', 60000)).count).toBe(1)
+      expect((await store.hit('key', 60000)).count).toBe(2)
+
+      jest.advanceTimersByTime(60000)
+      expect(await store.hit('key', 60000)).toEqual({ count: 1, resetAt: Date.now() + 60000 })
+    })
+  })
+
+  describe('firestoreRateLimitStore', () => {
+    it('should count requests in a shared document until the window ends', async () => {
+      await firestoreRateLimitStore.hit('test:ip:10.0.0.1', 60000)
+      const second = await firestoreRateLimitStore.hit('test:ip:10.0.0.1', 60000)
+
+      expect(second.count).toBe(2)
+      expect(fakeDb.getAll('rate_limits')).toHaveLength(1)
+
+      jest.advanceTimersByTime(60000)
+      expect((await firestoreRateLimitStore.hit('test:ip:10.0.0.1', 60000)).count).toBe(1)
+    })
+  })
+
+  describe('checkRateLimit', () => {
+    it('should allow requests up to the limit', async () => {
+      const store = new MemoryRateLimitStore()
+
+      expect(await checkRateLimit(store, rule, ['user:a'])).toEqual({ allowed: true, retryAfterSeconds: 0 })
+      expect((await checkRateLimit(store, rule, ['user:a'])).allowed).toBe(true)
+    })
+
+    it('should limit requests over the limit until the window ends', async () => {
+      const store = new MemoryRateLimitStore()
+      await checkRateLimit(store, rule, ['user:a'])
+      await checkRateLimit(store, rule, ['user:a'])
+      jest.advanceTimersByTime(15000)
+
+      expect(await checkRateLimit(store, rule, ['user:a'])).toEqual({ allowed: false, retryAfterSeconds: 45 })
+    })
+
+    it('should limit a request when any identifier is over the limit', async () => {
+      const store = new MemoryRateLimitStore()
+      await checkRateLimit(store, rule, ['user:a', 'ip:10.0.0.1'])
+      await checkRateLimit(store, rule, ['user:b', 'ip:10.0.0.1'])
+
+      // A new user from the same IP is still limited
+      expect((await checkRateLimit(store, rule, ['user:c', 'ip:10.0.0.1'])).allowed).toBe(false)
+    })
+
+    it('should keep separate budgets per rule', async () => {
+      const store = new MemoryRateLimitStore()
+      const strictRule = { name: 'strict', limit: 1, windowSeconds: 60 }
+      await checkRateLimit(store, strictRule, ['user:a'])
+
+      expect((await checkRateLimit(store, rule, ['user:a'])).allowed).toBe(true)
+      expect((await checkRateLimit(store, strictRule, ['user:a'])).allowed).toBe(false)
+    })
+  })
+
+  describe('enforceRateLimit', () => {
+    it('should return a 429 with Retry-After once the limit is reached', async () => {
+      const store = new MemoryRateLimitStore()
+      const request = createRequest({ 'x-forwarded-for': '10.0.0.1, 10.0.0.2' })
+
+      expect(await enforceRateLimit(request, rule, store)).toBeNull()
+      expect(await enforceRateLimit(request, rule, store)).toBeNull()
+      const response = await enforceRateLimit(request, rule, store)
+
+      expect(response?.status).toBe(429)
+      expect(response?.headers.get('Retry-After')).toBe('60')
+      expect((await response?.json()).retryAfter).toBe(60)
+    })
+
+    it('should give users behind one IP the looser IP limit', async () => {
+      const store = new MemoryRateLimitStore()
+      const sharedIpRule = { ...rule, limit: 1, ipLimit: 3 }
+      const request = createRequest({ 'x-forwarded-for': '10.0.0.1' })
+
+      expect(await enforceRateLimit(request, sharedIpRule, store, 'user-1')).toBeNull()
+      expect(await enforceRateLimit(request, sharedIpRule, store, 'user-2')).toBeNull()
+      expect(await enforceRateLimit(request, sharedIpRule, store, 'user-3')).toBeNull()
+      expect((await enforceRateLimit(request, sharedIpRule, store, 'user-4'))?.status).toBe(429)
+    })
+
+    it('should still hold each user to the rule\'s limit', async () => {
+      const store = new MemoryRateLimitStore()
+      const sharedIpRule = { ...rule, limit: 1, ipLimit: 3 }
+
+      expect(await enforceRateLimit(createRequest({ 'x-forwarded-for': '10.0.0.1' }), sharedIpRule, store, 'user-1')).toBeNull()
+      expect((await enforceRateLimit(createRequest({ 'x-forwarded-for': '10.0.0.2' }), sharedIpRule, store, 'user-1'))?.status).toBe(429)
+    })
+
+    it('should let requests through when the store fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+      const store = { hit: jest.fn().mockRejectedValue(new Error('Firestore unavailable')) }
+
+      expect(await enforceRateLimit(createRequest({ 'x-real-ip': '10.0.0.1' }), rule, store, 'user-1')).toBeNull()
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('getClientIp', () => {
+    it('should use x-real-ip, then the address the last proxy forwarded', () => {
+      expect(getClientIp(createRequest({ 'x-real-ip': '10.0.0.3', 'x-forwarded-for': '10.0.0.1' }))).toBe('10.0.0.3')
+      expect(getClientIp(createRequest({ 'x-forwarded-for': '10.0.0.1, 10.0.0.2' }))).toBe('10.0.0.2')
+      expect(getClientIp(createRequest())).toBeNull()
+    })
+
+    it('should not let a client pick its own IP with a spoofed x-forwarded-for', async () => {
+      const store = new MemoryRateLimitStore()
+      const spoofedRequest = (spoofedIp: string) => createRequest({ 'x-forwarded-for': `${spoofedIp}, 10.0.0.9` })
+
+      expect(await enforceRateLimit(spoofedRequest('1.1.1.1'), rule, store)).toBeNull()
+      expect(await enforceRateLimit(spoofedRequest('2.2.2.2'), rule, store)).toBeNull()
+      expect((await enforceRateLimit(spoofedRequest('3.3.3.3'), rule, store))?.status).toBe(429)
+    })
+  })
+})
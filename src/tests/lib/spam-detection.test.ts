@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for contribution spam scoring and the review queue's contribution states.
+ *
+ * Runs the spam checks and contribution service against an in-memory Firestore to check which signals fire, and that
+ * a held contribution can only be claimed for review once.
+ */
+
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { assessContributionSpam, scoreSpamReasons, type SpamCheckInput } from '@/lib/spam-detection'
+import {
+  claimPendingContribution,
+  getPendingContributions,
+  getTrackSetKey,
+  holdContributionForReview,
+} from '@/services/firebase/contributions'
+import { COLLECTIONS } from '@/types/firebase'
+
+const HOUR_IN_MS = 60 * 60 * 1000
+const TRACK_URIS = ['spotify:track:b', 'spotify:track:a']
+
+const input: SpamCheckInput = {
+  contributionId: 'contribution-new',
+  contributorId: 'friend-1',
+  playlistId: 'playlist-1',
+  linkId: 'link-1',
+  trackUris: TRACK_URIS,
+}
+
+/**
+ * @description Seeds the contributor's account, signed up the given number of hours ago.
+ * @param {number} hoursAgo - Hours since the contributor signed up.
+ */
+function seedContributor(hoursAgo: number) {
+  fakeDb.seed('accounts', 'account-friend-1', {
+    userId: 'friend-1',
+    providerAccountId: 'spotify-friend-1',
+    createdAt: FakeTimestamp.fromMillis(Date.now() - hoursAgo * HOUR_IN_MS),
+  })
+}
+
+/**
+ * @description Seeds a completed contribution made the given number of minutes ago.
+ * @param {string} id - Contribution ID.
+ * @param {Record<string, unknown>} data - Fields to set on the contribution.
+ * @param {number} minutesAgo - Minutes since the contribution was made.
+ */
+function seedContribution(id: string, data: Record<string, unknown>, minutesAgo: number) {
+  fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, id, {
+    id,
+    status: 'completed',
+    createdAt: FakeTimestamp.fromMillis(Date.now() - minutesAgo * 60 * 1000),
+    ...data,
+  })
+}
+
+describe('Spam detection', () => {
+  beforeEach(() => {
+    fakeDb.reset()
+  })
+
+  describe('scoreSpamReasons', () => {
+    it('should not flag a contribution on a single weak signal', () => {
+      expect(scoreSpamReasons(['new_account'])).toMatchObject({ score: 0.3, isSuspicious: false })
+    })
+
+    it('should flag a contribution once the signals add up', () => {
+      const assessment = scoreSpamReasons(['new_account', 'link_burst'])
+
+      expect(assessment.score).toBeCloseTo(0.6)
+      expect(assessment.isSuspicious).toBe(true)
+    })
+  })
+
+  describe('assessContributionSpam', () => {
+    it('should pass a contribution from an established account', async () => {
+      seedContributor(24 * 30)
+      seedContribution('contribution-old', { contributorId: 'friend-1', playlistId: 'playlist-2' }, 10)
+
+      const assessment = await assessContributionSpam(input)
+
+      expect(assessment).toEqual({ score: 0, reasons: [], isSuspicious: false })
+    })
+
+    it('should flag a new account sending songs to many playlists', async () => {
+      seedContributor(2)
+      seedContribution('contribution-1', { contributorId: 'friend-1', playlistId: 'playlist-2' }, 5)
+      seedContribution('contribution-2', { contributorId: 'friend-1', playlistId: 'playlist-3' }, 10)
+      seedContribution('contribution-3', { contributorId: 'friend-1', playlistId: 'playlist-4' }, 20)
+
+      const assessment = await assessContributionSpam(input)
+
+      expect(assessment.reasons).toEqual(['new_account', 'cross_playlist_burst'])
+      expect(assessment.isSuspicious).toBe(true)
+    })
+
+    it('should flag the same songs sent to many playlists, in any order', async () => {
+      seedContributor(24 * 30)
+      const trackSetKey = getTrackSetKey(['spotify:track:a', 'spotify:track:b'])
+      ;['playlist-2', 'playlist-3', 'playlist-4'].forEach((playlistId, index) => {
+        seedContribution(`contribution-${index}`, { contributorId: `other-${index}`, playlistId, trackSetKey }, 60 * 24)
+      })
+
+      const assessment = await assessContributionSpam(input)
+
+      expect(assessment.reasons).toEqual(['repeated_track_set'])
+    })
+
+    it('should flag a burst of contributions through one link and ignore older ones', async () => {
+      seedContributor(24 * 30)
+      for (let index = 0; index < 5; index++) {
+        seedContribution(`recent-${index}`, { contributorId: `other-${index}`, playlistId: 'playlist-1', linkId: 'link-1' }, 2)
+      }
+      seedContribution('old', { contributorId: 'other-old', playlistId: 'playlist-1', linkId: 'link-2' }, 60)
+
+      const assessment = await assessContributionSpam(input)
+
+      expect(assessment.reasons).toEqual(['link_burst'])
+      expect(assessment.isSuspicious).toBe(false)
+    })
+  })
+
+  describe('review queue', () => {
+    it('should list held contributions and let only one reviewer claim each', async () => {
+      seedContribution('contribution-1', { contributorId: 'friend-1', playlistId: 'playlist-1', status: 'processing' }, 1)
+
+      await holdContributionForReview('contribution-1', TRACK_URIS, ['new_account', 'link_burst'])
+
+      const pending = await getPendingContributions('playlist-1')
+      expect(pending.data?.map(contribution => contribution.id)).toEqual(['contribution-1'])
+      expect(pending.data?.[0].spamReasons).toEqual(['new_account', 'link_burst'])
+
+      const [first, second] = await Promise.all([
+        claimPendingContribution('contribution-1'),
+        claimPendingContribution('contribution-1'),
+      ])
+      const claims = [first.data, second.data].filter(Boolean)
+      expect(claims).toHaveLength(1)
+      expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, 'contribution-1')?.status).toBe('processing')
+    })
+  })
+})
@@ -7,9 +7,14 @@
 import {
   spotifyRequest,
   getTopTracks,
+  getTopArtists,
+  getTracks,
   createPlaylist,
   addTracksToPlaylist,
+  removeTracksFromPlaylist,
   getPlaylistTracks,
+  isFollowingPlaylist,
+  updatePlaylistDetails,
   SpotifyAPIError
 } from '@/lib/spotify'
 import { mockSpotifyData } from '@/mocks/spotify-api'
@@ -113,6 +118,47 @@ describe('Spotify API Functions', () => {
     })
   })
 
+  describe('getTopArtists', () => {
+    it('should fetch top artists with custom parameters', async () => {
+      const mockResponse = { items: [{ id: 'artist1', name: 'Artist One', genres: ['indie pop'] }] }
+        ; (fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(mockResponse),
+          text: () => Promise.resolve(JSON.stringify(mockResponse)),
+        })
+
+      const result = await getTopArtists(mockAccessToken, 50, 'medium_term')
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://api.spotify.com/v1/me/top/artists?limit=50&time_range=medium_term',
+        expect.any(Object)
+      )
+      expect(result).toEqual(mockResponse)
+    })
+  })
+
+  describe('getTracks', () => {
+    it('should fetch tracks in batches of 50', async () => {
+      const trackIds = Array.from({ length: 51 }, (_, index) => `track${index}`)
+        ; (fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            text: () => Promise.resolve(JSON.stringify({ tracks: trackIds.slice(0, 50).map(id => ({ id })) })),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            text: () => Promise.resolve(JSON.stringify({ tracks: [null] })),
+          })
+
+      const result = await getTracks(mockAccessToken, trackIds)
+
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect((fetch as jest.Mock).mock.calls[1][0]).toBe('https://api.spotify.com/v1/tracks?ids=track50')
+      expect(result).toHaveLength(51)
+      expect(result[50]).toBeNull()
+    })
+  })
+
   describe('createPlaylist', () => {
     it('should create playlist successfully', async () => {
       const mockResponse = mockSpotifyData.createdPlaylist
@@ -231,6 +277,30 @@ describe('Spotify API Functions', () => {
     })
   })
 
+  describe('removeTracksFromPlaylist', () => {
+    it('should remove tracks from playlist successfully', async () => {
+      const mockResponse = { snapshot_id: 'mock-snapshot-id' }
+      const trackUris = ['spotify:track:1', 'spotify:track:2']
+
+        ; (fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(mockResponse),
+          text: () => Promise.resolve(JSON.stringify(mockResponse)),
+        })
+
+      const result = await removeTracksFromPlaylist(mockAccessToken, mockPlaylistId, trackUris)
+
+      expect(fetch).toHaveBeenCalledWith(
+        `https://api.spotify.com/v1/playlists/${mockPlaylistId}/tracks`,
+        expect.objectContaining({
+          method: 'DELETE',
+          body: JSON.stringify({ tracks: [{ uri: 'spotify:track:1' }, { uri: 'spotify:track:2' }] })
+        })
+      )
+      expect(result).toEqual(mockResponse)
+    })
+  })
+
   describe('getPlaylistTracks', () => {
     it('should fetch playlist tracks successfully', async () => {
       const mockResponse = mockSpotifyData.playlistTracks
@@ -248,5 +318,77 @@ describe('Spotify API Functions', () => {
       )
       expect(result).toEqual(mockResponse)
     })
+
+    it('should follow next URLs and merge every page of tracks', async () => {
+      const firstPage = {
+        items: [{ track: { id: '1', uri: 'spotify:track:1' } }],
+        next: `https://api.spotify.com/v1/playlists/${mockPlaylistId}/tracks?offset=100&limit=100`,
+      }
+      const secondPage = {
+        items: [{ track: { id: '2', uri: 'spotify:track:2' } }],
+        next: null,
+      }
+        ; (fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            text: () => Promise.resolve(JSON.stringify(firstPage)),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            text: () => Promise.resolve(JSON.stringify(secondPage)),
+          })
+
+      const result = await getPlaylistTracks(mockAccessToken, mockPlaylistId)
+
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(fetch).toHaveBeenLastCalledWith(
+        `https://api.spotify.com/v1/playlists/${mockPlaylistId}/tracks?offset=100&limit=100`,
+        expect.any(Object)
+      )
+      expect(result.items.map((item: any) => item.track.id)).toEqual(['1', '2'])
+    })
+  })
+
+  describe('updatePlaylistDetails', () => {
+    it('should send the new details and accept Spotify\'s empty response', async () => {
+      ; (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve(''),
+      })
+
+      await expect(updatePlaylistDetails(mockAccessToken, mockPlaylistId, { name: 'Road Trip' })).resolves.toBeUndefined()
+      expect(fetch).toHaveBeenCalledWith(
+        `https://api.spotify.com/v1/playlists/${mockPlaylistId}`,
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ name: 'Road Trip' }) })
+      )
+    })
+  })
+
+  describe('isFollowingPlaylist', () => {
+    it('should report whether the user still follows the playlist', async () => {
+      ; (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify([false])),
+      })
+
+      const result = await isFollowingPlaylist(mockAccessToken, mockPlaylistId, mockUserId)
+
+      expect(fetch).toHaveBeenCalledWith(
+        `https://api.spotify.com/v1/playlists/${mockPlaylistId}/followers/contains?ids=${mockUserId}`,
+        expect.any(Object)
+      )
+      expect(result).toBe(false)
+    })
+
+    it('should treat a playlist that no longer exists as unfollowed', async () => {
+      ; (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve(JSON.stringify({ error: { message: 'Not found' } })),
+      })
+
+      await expect(isFollowingPlaylist(mockAccessToken, mockPlaylistId, mockUserId)).resolves.toBe(false)
+    })
   })
-}) 
\ No newline at end of file
+})
@@ -1,10 +1,10 @@
 /**
  * @fileoverview Unit tests for utility functions.
  *
- * Tests the cn utility function for class name merging.
+ * Tests the cn utility function for class name merging and cooldown formatting.
  */
 
-import { cn } from '@/lib/utils'
+import { cn, formatCooldown } from '@/lib/utils'
 
 describe('Utility Functions', () => {
   describe('cn', () => {
@@ -49,4 +49,20 @@ describe('Utility Functions', () => {
       expect(result).toBe('base-class conditional-class')
     })
   })
-}) 
\ No newline at end of file
+
+  describe('formatCooldown', () => {
+    it('should describe no cooldown', () => {
+      expect(formatCooldown(0)).toBe('any time')
+    })
+
+    it('should describe daily and weekly cooldowns', () => {
+      expect(formatCooldown(1)).toBe('once a day')
+      expect(formatCooldown(7)).toBe('once a week')
+      expect(formatCooldown(28)).toBe('once every 4 weeks')
+    })
+
+    it('should fall back to days for other lengths', () => {
+      expect(formatCooldown(10)).toBe('once every 10 days')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Tests for the security headers middleware.
+ *
+ * Runs the middleware on page and API requests and checks the Content Security Policy and other security headers.
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js server components, keeping the request headers passed on to the render
+jest.mock('next/server', () => ({
+  NextResponse: {
+    next: (init?: { request?: { headers?: Headers } }) => ({
+      headers: new Headers(),
+      requestHeaders: init?.request?.headers,
+    })
+  }
+}))
+
+import type { NextRequest } from 'next/server'
+import { config, middleware } from '@/middleware'
+
+/**
+ * @description Builds a request for a path.
+ * @param {string} path - Request path.
+ * @returns {NextRequest} The request.
+ */
+const createRequest = (path: string) => ({
+  nextUrl: new URL(path, 'http://localhost:3000'),
+  headers: new Headers({ accept: 'text/html' }),
+}) as unknown as NextRequest
+
+/**
+ * @description Reads one directive from a Content-Security-Policy header.
+ * @param {string} policy - The header value.
+ * @param {string} name - Directive name.
+ * @returns {string | undefined} The directive, e.g. "img-src 'self' https://i.scdn.co".
+ */
+const getDirective = (policy: string, name: string) =>
+  policy.split('; ').find(directive => directive.startsWith(`${name} `))
+
+describe('Security headers middleware', () => {
+  it.each([
+    ['a page', '/share/abc123'],
+    ['an API route', '/api/sharing/abc123'],
+  ])('should set security headers on %s', (_, path) => {
+    const response = middleware(createRequest(path))
+
+    expect(response.headers.get('Content-Security-Policy')).toContain("default-src 'self'")
+    expect(response.headers.get('Strict-Transport-Security')).toBe('max-age=63072000; includeSubDomains; preload')
+    expect(response.headers.get('Referrer-Policy')).toBe('strict-origin-when-cross-origin')
+    expect(response.headers.get('Permissions-Policy')).toContain('camera=()')
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff')
+    expect(response.headers.get('X-Frame-Options')).toBe('DENY')
+  })
+
+  it('should allow Spotify images and sign-in, and forbid framing', () => {
+    const policy = middleware(createRequest('/')).headers.get('Content-Security-Policy')!
+
+    expect(getDirective(policy, 'img-src')).toContain('https://i.scdn.co')
+    expect(getDirective(policy, 'form-action')).toContain('https://accounts.spotify.com')
+    expect(getDirective(policy, 'frame-ancestors')).toBe("frame-ancestors 'none'")
+    expect(getDirective(policy, 'object-src')).toBe("object-src 'none'")
+  })
+
+  it('should only allow scripts with a nonce that changes per request', () => {
+    const first = middleware(createRequest('/')).headers.get('Content-Security-Policy')!
+    const second = middleware(createRequest('/')).headers.get('Content-Security-Policy')!
+
+    const nonce = getDirective(first, 'script-src')?.match(/'nonce-([^']+)'/)?.[1]
+    expect(nonce).toBeTruthy()
+    expect(getDirective(first, 'script-src')).not.toContain("'unsafe-inline'")
+    expect(second).not.toContain(nonce)
+  })
+
+  it('should pass the nonce and policy on to the page render', () => {
+    const response = middleware(createRequest('/dashboard')) as unknown as { headers: Headers, requestHeaders: Headers }
+    const policy = response.headers.get('Content-Security-Policy')!
+    const nonce = response.requestHeaders.get('x-nonce')
+
+    expect(nonce).toBeTruthy()
+    expect(policy).toContain(`'nonce-${nonce}'`)
+    expect(response.requestHeaders.get('Content-Security-Policy')).toBe(policy)
+    expect(response.requestHeaders.get('accept')).toBe('text/html')
+  })
+
+  it('should skip static assets', () => {
+    const matcher = new RegExp(`^${config.matcher[0]}$`)
+
+    expect(matcher.test('/share/abc123')).toBe(true)
+    expect(matcher.test('/api/spotify/contribute')).toBe(true)
+    expect(matcher.test('/_next/static/chunks/main.js')).toBe(false)
+    expect(matcher.test('/favicon.ico')).toBe(false)
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Tests for concurrent contribution submissions and sharing link usage counting.
+ *
+ * Runs the Firebase services against an in-memory Firestore to check that simultaneous requests
+ * can't bypass the cooldown, add the same submission twice, leave a contribution unrecorded after one failed write,
+ * or lose usage and visit counts.
+ */
+
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+
+import { fakeDb, FakeTimestamp } from '@/test-utils/fake-firestore'
+import { getDayKey } from '@/lib/analytics'
+import {
+  activateContribution,
+  checkUserContribution,
+  releaseContribution,
+  reserveContribution,
+} from '@/services/firebase/contributions'
+import {
+  consumeSharingLinkUse,
+  incrementSharingLinkUsage,
+  recordSharingLinkEvent,
+  SHARING_LINK_ERRORS,
+} from '@/services/firebase/sharing-links'
+import { COLLECTIONS, type CreateContributionData } from '@/types/firebase'
+
+describe('Concurrent contributions', () => {
+  const contributionData: CreateContributionData = {
+    playlistId: 'playlist-1',
+    contributorId: 'friend-1',
+    contributorName: 'Friend',
+    spotifyTrackUris: ['spotify:track:a', 'spotify:track:b'],
+    cooldownDays: 28,
+  }
+
+  beforeEach(() => {
+    fakeDb.reset()
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', { id: 'playlist-1', contributionCooldownDays: 28 })
+  })
+
+  it('should let only one of two simultaneous submissions through the cooldown', async () => {
+    const results = await Promise.all([
+      reserveContribution(contributionData, 'first-submission'),
+      reserveContribution(contributionData, 'second-submission'),
+    ])
+
+    const statuses = results.map(result => result.data?.status).sort()
+    expect(statuses).toEqual(['cooldown', 'reserved'])
+    expect(fakeDb.getAll(COLLECTIONS.CONTRIBUTIONS)).toHaveLength(1)
+  })
+
+  it('should replay a repeated idempotency key instead of adding the songs again', async () => {
+    const results = await Promise.all([
+      reserveContribution(contributionData, 'double-click-key'),
+      reserveContribution(contributionData, 'double-click-key'),
+    ])
+
+    const statuses = results.map(result => result.data?.status).sort()
+    expect(statuses).toEqual(['replayed', 'reserved'])
+    expect(fakeDb.getAll(COLLECTIONS.CONTRIBUTIONS)).toHaveLength(1)
+  })
+
+  it('should free the cooldown when a reservation is released', async () => {
+    const first = await reserveContribution(contributionData, 'failed-submission')
+    expect(first.data?.status).toBe('reserved')
+
+    if (first.data?.status === 'reserved') {
+      await releaseContribution(first.data.contribution.id)
+    }
+
+    const retry = await reserveContribution(contributionData, 'retry-submission')
+    expect(retry.data?.status).toBe('reserved')
+  })
+
+  it('should not count abandoned reservations toward the cooldown', async () => {
+    fakeDb.seed(COLLECTIONS.CONTRIBUTIONS, 'stale', {
+      ...contributionData,
+      id: 'stale',
+      status: 'processing',
+      createdAt: FakeTimestamp.fromMillis(Date.now() - 60 * 60 * 1000),
+      expiresAt: FakeTimestamp.fromMillis(Date.now() + 60 * 60 * 1000),
+    })
+
+    const result = await checkUserContribution('playlist-1', 'friend-1')
+    expect(result.data?.hasContributed).toBe(false)
+  })
+
+  it('should retry activating a contribution when the write fails once', async () => {
+    const reservation = await reserveContribution(contributionData, 'flaky-write')
+    const contributionId = reservation.data?.status === 'reserved' ? reservation.data.contribution.id : ''
+    const writeSpy = jest.spyOn(fakeDb, 'write').mockImplementationOnce(() => {
+      throw new Error('Firestore unavailable')
+    })
+
+    const result = await activateContribution(contributionId, ['spotify:track:a'])
+
+    expect(result.success).toBe(true)
+    expect(fakeDb.getData(COLLECTIONS.CONTRIBUTIONS, contributionId)).toMatchObject({
+      status: 'active',
+      spotifyTrackUris: ['spotify:track:a'],
+    })
+    writeSpy.mockRestore()
+  })
+})
+
+describe('Concurrent sharing link usage', () => {
+  const seedLink = (overrides: Record<string, unknown> = {}) => {
+    fakeDb.seed(COLLECTIONS.SHARING_LINKS, 'link-1', {
+      id: 'link-1',
+      playlistId: 'playlist-1',
+      linkSlug: 'abc12345',
+      isActive: true,
+      usageCount: 0,
+      createdAt: FakeTimestamp.now(),
+      ...overrides,
+    })
+  }
+
+  beforeEach(() => {
+    fakeDb.reset()
+  })
+
+  it('should not lose increments when many contributions land at once', async () => {
+    seedLink()
+
+    await Promise.all(Array.from({ length: 10 }, () => incrementSharingLinkUsage('link-1')))
+
+    expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.usageCount).toBe(10)
+  })
+
+  it('should never hand out more uses than the link allows', async () => {
+    seedLink({ maxUses: 2 })
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => consumeSharingLinkUse('abc12345', 'playlist-1'))
+    )
+
+    expect(results.filter(result => result.success)).toHaveLength(2)
+    expect(results.filter(result => result.error === SHARING_LINK_ERRORS.usedUp)).toHaveLength(3)
+    expect(fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')?.usageCount).toBe(2)
+  })
+
+  it('should count visits and sign-ins separately from contributions', async () => {
+    seedLink()
+
+    await Promise.all([
+      recordSharingLinkEvent('abc12345', 'visit'),
+      recordSharingLinkEvent('abc12345', 'visit'),
+      recordSharingLinkEvent('abc12345', 'sign_in'),
+    ])
+
+    const link = fakeDb.getData(COLLECTIONS.SHARING_LINKS, 'link-1')
+    expect(link?.visitCount).toBe(2)
+    expect(link?.signInCount).toBe(1)
+    expect(link?.usageCount).toBe(0)
+    expect(link?.dailyStats[getDayKey(new Date())]).toEqual({ visits: 2, signIns: 1 })
+  })
+})
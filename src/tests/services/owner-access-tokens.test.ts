@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Tests for looking up a playlist owner's stored Spotify token.
+ *
+ * Runs the users service against an in-memory Firestore to check that expired tokens are refreshed and saved,
+ * and that group playlists fall back to a co-owner's token when the primary owner's refresh fails.
+ */
+
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+jest.mock('@/lib/spotify', () => ({
+  refreshAccessToken: jest.fn(),
+}))
+
+import { fakeDb } from '@/test-utils/fake-firestore'
+import { refreshAccessToken } from '@/lib/spotify'
+import { getFirstStoredAccessToken, getStoredAccessToken } from '@/services/firebase/users'
+
+const mockRefreshAccessToken = refreshAccessToken as jest.MockedFunction<typeof refreshAccessToken>
+
+describe('Stored owner access tokens', () => {
+  const nowInSeconds = () => Math.floor(Date.now() / 1000)
+
+  const seedAccount = (spotifyUserId: string, expiresAt: number) => {
+    fakeDb.seed('accounts', `account-${spotifyUserId}`, {
+      provider: 'spotify',
+      providerAccountId: spotifyUserId,
+      access_token: `${spotifyUserId}-token`,
+      refresh_token: `${spotifyUserId}-refresh`,
+      expires_at: expiresAt,
+    })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    fakeDb.reset()
+  })
+
+  it('should return an unexpired token without refreshing it', async () => {
+    seedAccount('owner', nowInSeconds() + 3600)
+
+    const result = await getStoredAccessToken('owner')
+
+    expect(result).toEqual({ success: true, data: 'owner-token' })
+    expect(mockRefreshAccessToken).not.toHaveBeenCalled()
+  })
+
+  it('should refresh an expired token and save the new one', async () => {
+    seedAccount('owner', nowInSeconds() - 60)
+    mockRefreshAccessToken.mockResolvedValue({
+      accessToken: 'fresh-token',
+      refreshToken: 'fresh-refresh',
+      accessTokenExpires: Date.now() + 3600 * 1000,
+    })
+
+    const result = await getStoredAccessToken('owner')
+
+    expect(result).toEqual({ success: true, data: 'fresh-token' })
+    expect(fakeDb.getAll('accounts')[0]).toMatchObject({ access_token: 'fresh-token', refresh_token: 'fresh-refresh' })
+  })
+
+  it('should fall back to a co-owner when the owner\'s refresh fails', async () => {
+    seedAccount('owner', nowInSeconds() - 60)
+    seedAccount('co-owner', nowInSeconds() + 3600)
+    mockRefreshAccessToken.mockResolvedValue({ error: 'RefreshAccessTokenError' })
+
+    const result = await getFirstStoredAccessToken(['owner', 'missing-co-owner', 'co-owner'])
+
+    expect(result).toEqual({ success: true, data: { spotifyUserId: 'co-owner', accessToken: 'co-owner-token' } })
+  })
+
+  it('should fail when no owner has a usable token', async () => {
+    seedAccount('owner', nowInSeconds() - 60)
+    mockRefreshAccessToken.mockResolvedValue({ error: 'RefreshAccessTokenError' })
+
+    const result = await getFirstStoredAccessToken(['owner'])
+
+    expect(result).toEqual({ success: false, error: 'Failed to refresh access token' })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tests for per-track attribution records stored on the playlist.
+ *
+ * Runs the playlist service against an in-memory Firestore to check that whoever last added a track is credited
+ * and that removing a contribution only clears its own tracks.
+ */
+
+jest.mock('firebase-admin', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/test-utils/fake-firestore').fakeAdmin,
+}))
+jest.mock('@/lib/firebaseAdmin', () => ({
+  adminDb: jest.requireActual('@/test-utils/fake-firestore').fakeDb,
+}))
+
+import { fakeDb } from '@/test-utils/fake-firestore'
+import { recordTrackAttributions, removeContributionAttributions } from '@/services/firebase/playlists'
+import { COLLECTIONS, type TrackAttribution } from '@/types/firebase'
+
+/**
+ * @description Reads the attributions currently stored on the test playlist.
+ * @returns {Record<string, TrackAttribution>} Attributions keyed by track ID.
+ */
+function getAttributions(): Record<string, TrackAttribution> {
+  const playlist = fakeDb.getData(COLLECTIONS.PLAYLISTS, 'playlist-1')
+  return (playlist?.trackAttributions || {}) as Record<string, TrackAttribution>
+}
+
+describe('Track attributions', () => {
+  beforeEach(() => {
+    fakeDb.reset()
+    fakeDb.seed(COLLECTIONS.PLAYLISTS, 'playlist-1', { id: 'playlist-1' })
+  })
+
+  it('should record who added each track and through which link', async () => {
+    const result = await recordTrackAttributions('playlist-1', ['spotify:track:a', 'spotify:track:b'], {
+      contributorId: 'friend-1',
+      contributorName: 'Friend',
+      contributionId: 'contribution-1',
+      linkId: 'link-1',
+    })
+
+    expect(result.success).toBe(true)
+    const attributions = getAttributions()
+    expect(Object.keys(attributions).sort()).toEqual(['a', 'b'])
+    expect(attributions.a).toMatchObject({ contributorName: 'Friend', contributionId: 'contribution-1', linkId: 'link-1' })
+    expect(attributions.a.addedAt).toBeDefined()
+  })
+
+  it('should credit whoever adds a track again after it left the playlist', async () => {
+    await recordTrackAttributions('playlist-1', ['spotify:track:a'], {
+      contributorId: 'friend-1',
+      contributorName: 'Friend',
+      contributionId: 'contribution-1',
+    })
+    await recordTrackAttributions('playlist-1', ['spotify:track:a', 'spotify:track:c'], {
+      contributorId: 'friend-2',
+      contributorName: 'Other Friend',
+      contributionId: 'contribution-2',
+    })
+
+    const attributions = getAttributions()
+    expect(attributions.a).toMatchObject({ contributorId: 'friend-2', contributionId: 'contribution-2' })
+    expect(attributions.a).not.toHaveProperty('linkId')
+    expect(attributions.c.contributorId).toBe('friend-2')
+  })
+
+  it('should only clear the attributions of the removed contribution', async () => {
+    await recordTrackAttributions('playlist-1', ['spotify:track:a'], {
+      contributorId: 'friend-1',
+      contributorName: 'Friend',
+      contributionId: 'contribution-1',
+    })
+    await recordTrackAttributions('playlist-1', ['spotify:track:b'], {
+      contributorId: 'friend-2',
+      contributorName: 'Other Friend',
+      contributionId: 'contribution-2',
+    })
+
+    const result = await removeContributionAttributions('playlist-1', 'contribution-1')
+
+    expect(result.success).toBe(true)
+    expect(Object.keys(getAttributions())).toEqual(['b'])
+  })
+})
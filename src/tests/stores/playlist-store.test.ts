@@ -22,11 +22,30 @@ describe('Playlist Store', () => {
 
       expect(result.current.topSongs).toEqual([])
       expect(result.current.playlist).toBeNull()
+      expect(result.current.selectedPlaylistId).toBeNull()
       expect(result.current.isLoading).toBe(false)
       expect(result.current.hasError).toBe(false)
     })
   })
 
+  describe('setSelectedPlaylistId', () => {
+    it('should select a playlist and clear the selection', () => {
+      const { result } = renderHook(() => usePlaylistStore())
+
+      act(() => {
+        result.current.setSelectedPlaylistId('road-trip')
+      })
+
+      expect(result.current.selectedPlaylistId).toBe('road-trip')
+
+      act(() => {
+        result.current.setSelectedPlaylistId(null)
+      })
+
+      expect(result.current.selectedPlaylistId).toBeNull()
+    })
+  })
+
   describe('setTopSongs', () => {
     it('should set top songs correctly', () => {
       const { result } = renderHook(() => usePlaylistStore())
@@ -207,6 +226,7 @@ describe('Playlist Store', () => {
       act(() => {
         result.current.setTopSongs(mockSongs)
         result.current.setPlaylist(mockPlaylist)
+        result.current.setSelectedPlaylistId('road-trip')
         result.current.setLoading(true)
         result.current.setError(true)
       })
@@ -218,6 +238,7 @@ describe('Playlist Store', () => {
 
       expect(result.current.topSongs).toEqual([])
       expect(result.current.playlist).toBeNull()
+      expect(result.current.selectedPlaylistId).toBeNull()
       expect(result.current.isLoading).toBe(false)
       expect(result.current.hasError).toBe(false)
     })
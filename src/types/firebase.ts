@@ -31,6 +31,7 @@ export interface Playlist {
   id: string // Firestore document ID
   spotifyPlaylistId: string // Spotify playlist ID
   spotifyUserId: string // Spotify user ID
+  coOwnerIds?: string[] // Spotify user IDs of co-owners, who share their own links and moderate contributions
   name: string
   description?: string
   trackCount: number
@@ -38,6 +39,26 @@ export interface Playlist {
   updatedAt: admin.firestore.Timestamp
   isActive: boolean
   sharingLinkId?: string // Firestore sharing link ID for this playlist
+  blockedContributorIds?: string[] // Internal UUIDs barred from contributing
+  contributionCooldownDays?: number // Days between contributions per friend, 0 for none (default 28)
+  maxTracksPerContribution?: number // Max tracks a friend can send at once (default 5)
+  requiresApproval?: boolean // Set when the owner approves each contribution before its tracks are added
+  orphanedAt?: admin.firestore.Timestamp // Set when the Spotify playlist was deleted or unfollowed
+  recreatedSpotifyPlaylistId?: string // Spotify playlist being filled while the owner recreates an orphaned playlist
+  coverUpdatedAt?: admin.firestore.Timestamp // Set when the owner uploads a custom cover
+  archivedAt?: admin.firestore.Timestamp // Set when the owner archives the playlist
+  trackAttributions?: Record<string, TrackAttribution> // Keyed by Spotify track ID
+}
+
+/**
+ * @description Who added a track to a playlist through SMAS, stored with the playlist.
+ */
+export interface TrackAttribution {
+  contributorId: string // Internal UUID (not Spotify ID)
+  contributorName: string
+  contributionId: string // Firestore contribution ID
+  linkId?: string // Firestore sharing link ID the track came through
+  addedAt: admin.firestore.Timestamp
 }
 
 /**
@@ -51,8 +72,45 @@ export interface Contribution {
   spotifyTrackUris: string[]
   createdAt: admin.firestore.Timestamp | string
   expiresAt: admin.firestore.Timestamp
+  status?: ContributionStatus // Missing on older records, treated as 'active'
+  revokedAt?: admin.firestore.Timestamp
+  sendBackLinkSlug?: string // The contributor's own sharing link, offered to the owner to send songs back
+  linkId?: string // Firestore sharing link ID the contribution came through
+  trackSetKey?: string // The submitted track URIs, sorted, for spotting the same set sent to many owners
+  spamReasons?: SpamReason[] // Why the contribution was held for review
+  reviewedAt?: admin.firestore.Timestamp // When the owner approved or rejected a held contribution
 }
 
+/**
+ * @description Status of a contribution. 'processing' holds the contributor's cooldown slot while tracks are being added.
+ * 'pending' contributions are held for the owner's review and their tracks aren't in Spotify yet; 'rejected' ones
+ * never will be.
+ */
+export type ContributionStatus = 'active' | 'revoked' | 'processing' | 'pending' | 'rejected'
+
+/**
+ * @description A spam signal that can hold a contribution for review.
+ */
+export type SpamReason = 'new_account' | 'cross_playlist_burst' | 'repeated_track_set' | 'link_burst'
+
+/**
+ * @description Result of checking whether a contributor is within a playlist's cooldown.
+ */
+export interface ContributionCooldown {
+  hasContributed: boolean
+  contribution?: Contribution
+  cooldownDays: number // Playlist's current cooldown length
+  cooldownUntil?: string // ISO date the contributor can contribute again
+}
+
+/**
+ * @description Outcome of atomically claiming a contribution slot for an idempotency key.
+ */
+export type ContributionReservation =
+  | { status: 'reserved', contribution: Contribution } // New 'processing' contribution created
+  | { status: 'replayed', contribution: Contribution } // Same idempotency key was already used
+  | { status: 'cooldown', cooldown: ContributionCooldown } // Contributor is still within the cooldown
+
 /**
  * @description Sharing link data stored in Firestore.
  */
@@ -62,19 +120,45 @@ export interface SharingLink {
   spotifyUserId: string // Spotify user ID
   ownerName: string
   linkSlug: string // Unique identifier for the link
+  label?: string // Owner-facing name, e.g. "Group chat"
   isActive: boolean
   createdAt: admin.firestore.Timestamp
   updatedAt: admin.firestore.Timestamp
-  usageCount: number
+  usageCount: number // Completed contributions through this link
+  visitCount?: number // Share page views
+  signInCount?: number // Sign-ins started from the share page
+  dailyStats?: Record<string, SharingLinkDailyStats> // Keyed by UTC day, e.g. "2025-03-01"
   lastUsedAt?: admin.firestore.Timestamp
+  expiresAt?: admin.firestore.Timestamp // Link stops accepting visitors after this
+  maxUses?: number // Link stops accepting contributions once usageCount reaches this
+}
+
+/**
+ * @description Share page events counted per link, alongside completed contributions (usageCount).
+ */
+export type SharingLinkEvent = 'visit' | 'sign_in'
+
+/**
+ * @description A sharing link's share page events on one day, for analytics over time.
+ */
+export interface SharingLinkDailyStats {
+  visits?: number
+  signIns?: number
 }
 
 /**
- * @description User's top songs data (for display purposes).
+ * @description Why an active sharing link can no longer be used.
+ */
+export type SharingLinkUnavailableReason = 'expired' | 'used_up'
+
+/**
+ * @description User's top songs, artists, and genres, cached server-side for friend matching.
  */
 export interface UserTopSongs {
   userId: string // Spotify user ID
   songs: TopSong[]
+  artists: TopArtist[]
+  genres: string[] // Genres of the top artists, most common first
   lastFetched: admin.firestore.Timestamp
 }
 
@@ -91,6 +175,16 @@ export interface TopSong {
   rank: number // Position in user's top songs
 }
 
+/**
+ * @description Individual top artist data.
+ */
+export interface TopArtist {
+  spotifyArtistId: string
+  name: string
+  genres: string[]
+  rank: number // Position in user's top artists
+}
+
 /**
  * @description Firestore collection names.
  */
@@ -100,6 +194,7 @@ export const COLLECTIONS = {
   CONTRIBUTIONS: 'contributions',
   SHARING_LINKS: 'sharing_links',
   USER_TOP_SONGS: 'user_top_songs',
+  RATE_LIMITS: 'rate_limits',
 } as const
 
 /**
@@ -145,6 +240,8 @@ export interface CreateContributionData {
   contributorId: string // Internal UUID (not Spotify ID)
   contributorName: string
   spotifyTrackUris: string[]
+  cooldownDays?: number // Playlist's cooldown at time of contribution (default 28)
+  linkId?: string // Firestore sharing link ID the contribution came through
 }
 
 /**
@@ -155,4 +252,7 @@ export interface CreateSharingLinkData {
   spotifyUserId: string
   ownerName: string
   linkSlug: string
+  label?: string
+  expiresAt?: admin.firestore.Timestamp
+  maxUses?: number
 } 
\ No newline at end of file